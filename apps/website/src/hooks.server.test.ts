@@ -2,9 +2,11 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { csp_directives } from './csp-directives';
 import {
 	handle,
+	handle_api_version,
 	handle_errors,
 	handle_security_headers,
 } from './hooks.server';
+import { API_VERSION } from './lib/server/api-version';
 
 describe('Server Hooks', () => {
 	let mock_event: any;
@@ -170,6 +172,31 @@ describe('Server Hooks', () => {
 		});
 	});
 
+	describe('API Version Handler', () => {
+		it('should add the API version to API responses', async () => {
+			mock_event.url = new URL('http://localhost/api/examples');
+
+			const response = await handle_api_version({
+				event: mock_event,
+				resolve: mock_resolve,
+			});
+
+			expect(response.headers.get('X-Sveltest-Api-Version')).toBe(
+				String(API_VERSION),
+			);
+			expect(await response.text()).toBe('test content');
+		});
+
+		it('should leave page responses untouched', async () => {
+			const response = await handle_api_version({
+				event: mock_event,
+				resolve: mock_resolve,
+			});
+
+			expect(response).toBe(mock_response);
+		});
+	});
+
 	describe('Error Handler', () => {
 		it('should pass through successful requests', async () => {
 			const response = await handle_errors({
@@ -1,6 +1,11 @@
 import type { Handle } from '@sveltejs/kit';
 import { sequence } from '@sveltejs/kit/hooks';
 import { csp_directives } from './csp-directives';
+import {
+	API_VERSION,
+	API_VERSION_HEADER,
+	CLIENT_VERSION_HEADER,
+} from './lib/server/api-version';
 
 // Handle function for security headers
 export const handle_security_headers: Handle = async ({
@@ -38,6 +43,24 @@ export const handle_security_headers: Handle = async ({
 	});
 };
 
+// Handle function for API versioning
+export const handle_api_version: Handle = async ({
+	event,
+	resolve,
+}) => {
+	const response = await resolve(event);
+	if (!event.url.pathname.startsWith('/api/')) return response;
+
+	const headers = new Headers(response.headers);
+	headers.set(API_VERSION_HEADER, String(API_VERSION));
+
+	return new Response(response.body, {
+		headers,
+		status: response.status,
+		statusText: response.statusText,
+	});
+};
+
 // Handle function for error handling
 export const handle_errors: Handle = async ({ event, resolve }) => {
 	try {
@@ -49,6 +72,9 @@ export const handle_errors: Handle = async ({ event, resolve }) => {
 			stack: err.stack,
 			path: event.url.pathname,
 			method: event.request.method,
+			client_version: event.request.headers.get(
+				CLIENT_VERSION_HEADER,
+			),
 		});
 
 		throw err;
@@ -58,5 +84,6 @@ export const handle_errors: Handle = async ({ event, resolve }) => {
 // Combine all handle functions in sequence
 export const handle = sequence(
 	handle_security_headers,
+	handle_api_version,
 	handle_errors,
 );
@@ -0,0 +1,41 @@
+import type { ComponentProps } from 'svelte';
+import { render } from 'svelte/server';
+import { describe, expect, test } from 'vitest';
+import HighlightedText from './highlighted-text.svelte';
+
+// Markup without Svelte's hydration comments
+function html(props: ComponentProps<typeof HighlightedText>) {
+	return render(HighlightedText, { props }).body.replace(
+		/<!--.*?-->/g,
+		'',
+	);
+}
+
+describe('HighlightedText Component SSR', () => {
+	test('should wrap matched ranges in mark elements', () => {
+		const body = html({
+			text: 'Mock the store',
+			ranges: [{ start: 0, end: 4 }],
+		});
+
+		expect(body).toMatch(/<mark[^>]*>Mock<\/mark> the store/);
+	});
+
+	test('should render plain text without ranges', () => {
+		const body = html({ text: 'Plain text' });
+
+		expect(body).toContain('Plain text');
+		expect(body).not.toContain('<mark');
+	});
+
+	test('should escape markup in result text', () => {
+		const body = html({
+			text: '<script>alert(1)</script> mock',
+			ranges: [{ start: 26, end: 30 }],
+		});
+
+		expect(body).not.toContain('<script>');
+		expect(body).toContain('&lt;script>');
+		expect(body).toMatch(/<mark[^>]*>mock<\/mark>/);
+	});
+});
@@ -0,0 +1,330 @@
+/**
+ * Testing scenarios published at /api/examples, with the links
+ * between them. The related graph lives here so the API, the CLI and
+ * the docs pages all read the same edges.
+ */
+
+export interface RelatedLink {
+	kind: 'scenario' | 'topic';
+	slug: string;
+	reason: string;
+}
+
+export interface TestingScenario {
+	endpoint: string;
+	method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+	category: string;
+	description: string;
+	patterns: string[];
+	example_test_file: string;
+	// Site page that demonstrates the scenario, for people rather than tools
+	page: string;
+	// Scenarios and docs topics worth reading next, each with why
+	related: RelatedLink[];
+}
+
+export const scenarios: TestingScenario[] = [
+	{
+		endpoint: '/api/examples/button-variants',
+		method: 'GET',
+		category: 'Component Testing',
+		description:
+			'Button component testing scenarios with variants, sizes, and states',
+		patterns: [
+			'Component variants testing',
+			'Size prop testing',
+			'Disabled and loading states',
+			'Click event handling',
+			'Accessibility (ARIA attributes)',
+			'CSS class application',
+		],
+		example_test_file: 'src/lib/components/button.svelte.test.ts',
+		page: '/components',
+		related: [
+			{
+				kind: 'scenario',
+				slug: 'locator-patterns',
+				reason: 'Buttons are found by role and accessible name',
+			},
+			{
+				kind: 'scenario',
+				slug: 'modal-states',
+				reason: 'Buttons open and close modals',
+			},
+			{
+				kind: 'scenario',
+				slug: 'runes-testing',
+				reason: 'Loading and disabled states are driven by $state',
+			},
+			{
+				kind: 'topic',
+				slug: 'component-testing',
+				reason: 'Browser-based component testing patterns',
+			},
+		],
+	},
+	{
+		endpoint: '/api/examples/form-validation',
+		method: 'POST',
+		category: 'Form Testing',
+		description:
+			'Form validation patterns including email, password, and custom validation',
+		patterns: [
+			'Email validation',
+			'Password strength rules',
+			'Required field validation',
+			'Form validation lifecycle',
+			'Error message display',
+			'Keyboard navigation (Enter to submit)',
+		],
+		example_test_file: 'src/lib/components/login-form.svelte.test.ts',
+		page: '/components#login-form',
+		related: [
+			{
+				kind: 'scenario',
+				slug: 'authentication',
+				reason: 'Login forms post credentials to an auth endpoint',
+			},
+			{
+				kind: 'scenario',
+				slug: 'crud-patterns',
+				reason: 'Forms create and update records',
+			},
+			{
+				kind: 'scenario',
+				slug: 'locator-patterns',
+				reason: 'Fields are found by their labels',
+			},
+			{
+				kind: 'topic',
+				slug: 'component-testing',
+				reason: 'Testing form components in the browser',
+			},
+			{
+				kind: 'topic',
+				slug: 'server-testing',
+				reason: 'Form actions validate on the server too',
+			},
+		],
+	},
+	{
+		endpoint: '/api/examples/modal-states',
+		method: 'GET',
+		category: 'Component Testing',
+		description:
+			'Modal component state management and user interaction patterns',
+		patterns: [
+			'Open/close state testing',
+			'Size variants (sm, md, lg, xl)',
+			'Backdrop click handling',
+			'Escape key handling',
+			'Focus management',
+			'ARIA roles and accessibility',
+		],
+		example_test_file: 'src/lib/components/modal.svelte.test.ts',
+		page: '/components#modal',
+		related: [
+			{
+				kind: 'scenario',
+				slug: 'button-variants',
+				reason: 'Modals open from buttons',
+			},
+			{
+				kind: 'scenario',
+				slug: 'locator-patterns',
+				reason: 'Dialogs are queried by role',
+			},
+			{
+				kind: 'scenario',
+				slug: 'runes-testing',
+				reason: 'Open state lives in $state',
+			},
+			{
+				kind: 'topic',
+				slug: 'component-testing',
+				reason: 'Focus and keyboard handling in the browser',
+			},
+		],
+	},
+	{
+		endpoint: '/api/examples/crud-patterns',
+		method: 'GET',
+		category: 'State Management',
+		description:
+			'CRUD operations testing patterns with Svelte 5 runes ($state, $derived)',
+		patterns: [
+			'Create operations',
+			'Read/filter operations',
+			'Update operations',
+			'Delete operations',
+			'Bulk actions (toggle all, clear completed)',
+			'Using untrack() for $derived values',
+			'LocalStorage persistence',
+		],
+		example_test_file: 'src/lib/state/todo.test.ts',
+		page: '/examples/todos',
+		related: [
+			{
+				kind: 'scenario',
+				slug: 'form-validation',
+				reason: 'Records are created and edited through forms',
+			},
+			{
+				kind: 'scenario',
+				slug: 'runes-testing',
+				reason: 'The todo store uses $state and $derived',
+			},
+			{
+				kind: 'scenario',
+				slug: 'authentication',
+				reason: 'Writes need an authorised user',
+			},
+			{
+				kind: 'topic',
+				slug: 'runes-testing',
+				reason: 'untrack() and flushSync() for reactive state',
+			},
+		],
+	},
+	{
+		endpoint: '/api/examples/locator-patterns',
+		method: 'GET',
+		category: 'Testing Patterns',
+		description:
+			'vitest-browser-svelte locator strategies and best practices',
+		patterns: [
+			'Using page.getByRole() for accessibility',
+			'Using page.getByTestId() for specific elements',
+			'Using page.getByText() for content',
+			'Using page.getByLabelText() for form fields',
+			'Handling strict mode with .first(), .nth(), .last()',
+			'await expect.element() syntax',
+		],
+		example_test_file: 'src/lib/components/login-form.svelte.test.ts',
+		page: '/examples/unit',
+		related: [
+			{
+				kind: 'scenario',
+				slug: 'button-variants',
+				reason: 'Role and name queries on buttons',
+			},
+			{
+				kind: 'scenario',
+				slug: 'form-validation',
+				reason: 'Label queries on form fields',
+			},
+			{
+				kind: 'scenario',
+				slug: 'modal-states',
+				reason: 'Role queries on dialogs',
+			},
+			{
+				kind: 'topic',
+				slug: 'api-reference',
+				reason: 'Locator and assertion reference',
+			},
+			{
+				kind: 'topic',
+				slug: 'component-testing',
+				reason: 'Handling strict mode with multiple matches',
+			},
+		],
+	},
+	{
+		endpoint: '/api/examples/authentication',
+		method: 'POST',
+		category: 'API Testing',
+		description:
+			'Authentication and authorization testing with Bearer tokens',
+		patterns: [
+			'Valid Bearer token validation',
+			'Invalid token handling (401 errors)',
+			'Missing authorization headers',
+			'Malformed token formats',
+			'Case-sensitive token comparison',
+			'Timing attack prevention',
+			'Real Request object usage',
+		],
+		example_test_file: 'src/routes/api/secure-data/server.test.ts',
+		page: '/examples/integration',
+		related: [
+			{
+				kind: 'scenario',
+				slug: 'form-validation',
+				reason: 'Login forms validate before they submit',
+			},
+			{
+				kind: 'scenario',
+				slug: 'crud-patterns',
+				reason: 'Protected endpoints guard writes',
+			},
+			{
+				kind: 'topic',
+				slug: 'server-testing',
+				reason: 'Testing API routes with real Request objects',
+			},
+		],
+	},
+	{
+		endpoint: '/api/examples/runes-testing',
+		method: 'GET',
+		category: 'Svelte 5 Patterns',
+		description:
+			'Svelte 5 runes testing patterns ($state, $derived, $effect)',
+		patterns: [
+			'Using untrack() to read $derived values in tests',
+			'Using flushSync() for immediate updates',
+			'Testing reactive state changes',
+			'Mocking browser environment',
+			'Testing $state mutations',
+			'Testing $derived computations',
+		],
+		example_test_file: 'src/lib/state/todo.test.ts',
+		page: '/examples/unit',
+		related: [
+			{
+				kind: 'scenario',
+				slug: 'crud-patterns',
+				reason: '$derived totals and filters in a store',
+			},
+			{
+				kind: 'scenario',
+				slug: 'button-variants',
+				reason: 'Component state from $state props',
+			},
+			{
+				kind: 'scenario',
+				slug: 'modal-states',
+				reason: 'Toggling $state from the UI',
+			},
+			{
+				kind: 'topic',
+				slug: 'runes-testing',
+				reason: 'Testing runes and reactivity',
+			},
+		],
+	},
+];
+
+export function scenario_slug(scenario: TestingScenario): string {
+	return scenario.endpoint.split('/').pop() as string;
+}
+
+// Scenarios that link to a docs topic, for the topic's page
+export function scenarios_for_topic(topic: string): {
+	slug: string;
+	description: string;
+	reason: string;
+	page: string;
+}[] {
+	return scenarios.flatMap((scenario) =>
+		scenario.related
+			.filter((link) => link.kind === 'topic' && link.slug === topic)
+			.map((link) => ({
+				slug: scenario_slug(scenario),
+				description: scenario.description,
+				reason: link.reason,
+				page: scenario.page,
+			})),
+	);
+}
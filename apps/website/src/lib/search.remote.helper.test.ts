@@ -6,20 +6,12 @@ import {
 
 describe('search.remote helpers', () => {
 	describe('search_schema validation', () => {
-		test('should accept valid query with filter', () => {
+		test('should accept a query with qualifiers', () => {
 			const result = search_schema.parse({
-				q: 'testing',
-				filter: 'docs',
+				q: 'testing type:docs',
 			});
 
-			expect(result.q).toBe('testing');
-			expect(result.filter).toBe('docs');
-		});
-
-		test('should default filter to all', () => {
-			const result = search_schema.parse({ q: 'mock' });
-
-			expect(result.filter).toBe('all');
+			expect(result.q).toBe('testing type:docs');
 		});
 
 		test('should reject empty query', () => {
@@ -30,33 +22,26 @@ describe('search.remote helpers', () => {
 			expect(() => search_schema.parse({})).toThrow();
 		});
 
-		test('should reject invalid filter', () => {
+		test('should reject an invalid type', () => {
 			expect(() =>
-				search_schema.parse({ q: 'test', filter: 'invalid' }),
+				search_schema.parse({ q: 'test type:invalid' }),
 			).toThrow();
 		});
 
-		test('should accept all valid filters', () => {
-			const filters = [
-				'all',
-				'docs',
-				'examples',
-				'components',
-			] as const;
-
-			for (const filter of filters) {
-				const result = search_schema.parse({ q: 'query', filter });
-				expect(result.filter).toBe(filter);
-			}
+		test('should report where a query is malformed', () => {
+			const result = search_schema.safeParse({ q: 'mock OR' });
+
+			expect(result.success).toBe(false);
+			expect(result.error?.issues[0]).toMatchObject({
+				message: expect.stringContaining('OR'),
+				params: { code: 'dangling_or', position: 5 },
+			});
 		});
 	});
 
 	describe('perform_search', () => {
 		test('should return results for valid query', async () => {
-			const results = await perform_search({
-				q: 'vitest',
-				filter: 'all',
-			});
+			const results = await perform_search({ q: 'vitest' });
 
 			expect(results.length).toBeGreaterThan(0);
 			expect(results[0].score).toBeGreaterThan(0);
@@ -64,8 +49,7 @@ describe('search.remote helpers', () => {
 
 		test('should filter by docs', async () => {
 			const results = await perform_search({
-				q: 'test',
-				filter: 'docs',
+				q: 'test type:docs',
 			});
 
 			for (const result of results) {
@@ -79,8 +63,7 @@ describe('search.remote helpers', () => {
 
 		test('should filter by components', async () => {
 			const results = await perform_search({
-				q: 'button',
-				filter: 'components',
+				q: 'button type:components',
 			});
 
 			for (const result of results) {
@@ -89,28 +72,19 @@ describe('search.remote helpers', () => {
 		});
 
 		test('should return empty for whitespace query', async () => {
-			const results = await perform_search({
-				q: '   ',
-				filter: 'all',
-			});
+			const results = await perform_search({ q: '   ' });
 
 			expect(results).toEqual([]);
 		});
 
 		test('should limit results to 20', async () => {
-			const results = await perform_search({
-				q: 'test',
-				filter: 'all',
-			});
+			const results = await perform_search({ q: 'test' });
 
 			expect(results.length).toBeLessThanOrEqual(20);
 		});
 
 		test('should sort by score descending', async () => {
-			const results = await perform_search({
-				q: 'component',
-				filter: 'all',
-			});
+			const results = await perform_search({ q: 'component' });
 
 			for (let i = 1; i < results.length; i++) {
 				expect(results[i - 1].score).toBeGreaterThanOrEqual(
@@ -1,23 +1,35 @@
 import {
-	generate_search_index,
+	get_search_index,
 	search_full_text,
 	type SearchResult,
 } from '$lib/server/search-index';
+import { parse_query, QueryError } from '$lib/server/search-query';
 import { z } from 'zod';
 
 export const search_schema = z.object({
-	q: z.string().min(1),
-	filter: z
-		.enum(['all', 'docs', 'examples', 'components'])
-		.default('all'),
+	// Query syntax included, e.g. `"vi.fn" -spy type:docs`
+	q: z
+		.string()
+		.min(1)
+		.superRefine((q, context) => {
+			try {
+				parse_query(q);
+			} catch (error) {
+				if (!(error instanceof QueryError)) throw error;
+				context.addIssue({
+					code: 'custom',
+					message: error.message,
+					params: error.toJSON(),
+				});
+			}
+		}),
 });
 
 export type SearchParams = z.infer<typeof search_schema>;
 
 export async function perform_search({
 	q,
-	filter,
 }: SearchParams): Promise<SearchResult[]> {
-	const index = await generate_search_index();
-	return search_full_text(q, index, filter);
+	const index = await get_search_index();
+	return search_full_text(q, index);
 }
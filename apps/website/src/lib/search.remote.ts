@@ -4,9 +4,6 @@ import {
 	search_schema,
 } from './search.remote.helper';
 
-export const search_site = query(
-	search_schema,
-	async ({ q, filter }) => {
-		return perform_search({ q, filter });
-	},
-);
+export const search_site = query(search_schema, async ({ q }) => {
+	return perform_search({ q });
+});
@@ -0,0 +1,10 @@
+// Version of the /api response shapes. Bump it only for breaking
+// changes (a field removed, renamed or changing meaning); new fields
+// keep the number. The sveltest CLI refuses versions newer than it
+// knows, so published installs fail loudly instead of misrendering.
+export const API_VERSION = 1;
+
+export const API_VERSION_HEADER = 'X-Sveltest-Api-Version';
+
+// Sent by the CLI with its package version
+export const CLIENT_VERSION_HEADER = 'X-Sveltest-Client-Version';
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import { heading_text, split_markdown } from './markdown-sections';
+
+describe('heading_text', () => {
+	test('should drop links and emphasis but keep inline code', () => {
+		expect(
+			heading_text('Using [`vi.fn`](https://vitest.dev) **well**'),
+		).toBe('Using vi.fn well');
+	});
+
+	test('should apply smartypants outside inline code only', () => {
+		expect(heading_text('Before -- after `a--b`')).toBe(
+			'Before – after a--b',
+		);
+	});
+});
+
+describe('split_markdown', () => {
+	const markdown = [
+		'# Page Title',
+		'',
+		'Intro text.',
+		'',
+		'## 🚨 Error Handling & Edge Cases',
+		'',
+		'Errors.',
+		'',
+		'### Step 2: Write Your First Test',
+		'',
+		'```markdown',
+		'## Not a heading',
+		'```',
+		'',
+		'## Setup',
+		'',
+		'First setup.',
+		'',
+		'## Setup',
+		'',
+		'Second setup.',
+	].join('\n');
+
+	test('should keep the text before the first section as the lead', () => {
+		expect(split_markdown(markdown).lead).toBe('Intro text.');
+	});
+
+	test('should generate the same anchors as rehype-slug', () => {
+		expect(
+			split_markdown(markdown).sections.map(({ anchor }) => anchor),
+		).toEqual([
+			'-error-handling--edge-cases',
+			'step-2-write-your-first-test',
+			'setup',
+			'setup-1',
+		]);
+	});
+
+	test('should ignore headings inside code fences', () => {
+		const { sections } = split_markdown(markdown);
+
+		expect(sections[1].content).toContain('## Not a heading');
+		expect(sections.map(({ title }) => title)).not.toContain(
+			'Not a heading',
+		);
+	});
+
+	test('should record parent headings as the breadcrumb', () => {
+		const { sections } = split_markdown(markdown);
+
+		expect(sections[1].breadcrumb).toEqual([
+			'🚨 Error Handling & Edge Cases',
+		]);
+		expect(sections[2].breadcrumb).toEqual([]);
+		expect(sections[0].content).toBe('Errors.');
+	});
+});
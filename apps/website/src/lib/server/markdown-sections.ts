@@ -0,0 +1,110 @@
+import GithubSlugger from 'github-slugger';
+
+export interface MarkdownSection {
+	level: number;
+	title: string;
+	// The id rehype-slug gives the heading on the docs page
+	anchor: string;
+	// Titles of the enclosing headings below the page title, outermost
+	// first
+	breadcrumb: string[];
+	// Markdown from the heading to the next heading of any level,
+	// without the heading line itself
+	content: string;
+}
+
+export interface SplitMarkdown {
+	// Text before the first section, without the page title
+	lead: string;
+	sections: MarkdownSection[];
+}
+
+// smartypants runs before rehype-slug, so dashes and ellipses are
+// already typographic (and dropped by the slugger) when ids are made
+function smarten(text: string): string {
+	return text
+		.replace(/---/g, '—')
+		.replace(/--/g, '–')
+		.replace(/\.\.\./g, '…');
+}
+
+/**
+ * The text of a heading as rendered: links, emphasis and code marks
+ * removed, with smartypants applied outside inline code.
+ */
+export function heading_text(markdown: string): string {
+	return markdown
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.split(/(`[^`]*`)/)
+		.map((part) =>
+			part.startsWith('`') && part.endsWith('`')
+				? part.slice(1, -1)
+				: smarten(
+						part.replace(/\*\*|__|(?<!\w)[*_]|[*_](?!\w)/g, ''),
+					),
+		)
+		.join('')
+		.trim();
+}
+
+/**
+ * Split a docs page into one section per heading, with the anchors
+ * rehype-slug generates for it. Headings inside code fences are code,
+ * not sections.
+ */
+export function split_markdown(markdown: string): SplitMarkdown {
+	const slugger = new GithubSlugger();
+	const lines = markdown.split('\n');
+	const sections: MarkdownSection[] = [];
+	const lead: string[] = [];
+	// Open headings by level, for breadcrumbs
+	const open: { level: number; title: string }[] = [];
+	let fence: string | null = null;
+
+	for (const line of lines) {
+		const trimmed = line.trim();
+		const fence_mark = trimmed.match(/^(`{3,}|~{3,})/)?.[1];
+		const heading = fence
+			? null
+			: line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+
+		if (fence) {
+			if (trimmed.startsWith(fence)) fence = null;
+		} else if (fence_mark) {
+			fence = fence_mark;
+		}
+
+		if (!heading) {
+			const target = sections.at(-1);
+			if (target) target.content += `${line}\n`;
+			else lead.push(line);
+			continue;
+		}
+
+		const level = heading[1].length;
+		const title = heading_text(heading[2]);
+		const anchor = slugger.slug(title);
+		// The page title is the topic itself, not a section
+		if (level === 1) continue;
+
+		while (open.length > 0 && open[open.length - 1].level >= level) {
+			open.pop();
+		}
+		sections.push({
+			level,
+			title,
+			anchor,
+			breadcrumb: open.map((parent) => parent.title),
+			content: '',
+		});
+		open.push({ level, title });
+	}
+
+	return {
+		lead: lead.join('\n').trim(),
+		sections: sections.map((section) => ({
+			...section,
+			content: section.content.trim(),
+		})),
+	};
+}
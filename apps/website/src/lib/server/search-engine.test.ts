@@ -0,0 +1,231 @@
+import { describe, expect, test } from 'vitest';
+import {
+	build_inverted_index,
+	edit_distance,
+	excerpt_around,
+	expand_query,
+	match_ranges,
+	score_documents,
+	stem,
+	tokenize,
+	type SearchDocument,
+} from './search-engine';
+
+function doc(overrides: Partial<SearchDocument>): SearchDocument {
+	return {
+		title: '',
+		description: '',
+		keywords: [],
+		content: '',
+		...overrides,
+	};
+}
+
+describe('Search Engine', () => {
+	describe('tokenize', () => {
+		test('should lower-case words and drop punctuation', () => {
+			expect(tokenize('Testing $state in C++ (Svelte 5)')).toEqual([
+				'testing',
+				'state',
+				'in',
+				'svelte',
+			]);
+		});
+
+		test('should index identifier parts only when asked', () => {
+			expect(tokenize('toBeVisible vi_fn', true)).toEqual([
+				'tobevisible',
+				'to',
+				'be',
+				'visible',
+				'vi_fn',
+				'vi',
+				'fn',
+			]);
+			expect(tokenize('toBeVisible')).toEqual(['tobevisible']);
+		});
+
+		test('should return no tokens for punctuation-only queries', () => {
+			expect(tokenize('c++ (( [')).toEqual([]);
+		});
+	});
+
+	describe('score_documents', () => {
+		const documents = [
+			doc({ title: 'Modal states', content: 'Open and close.' }),
+			doc({
+				title: 'Forms',
+				content: 'A form can open a modal dialog.',
+			}),
+			doc({ title: 'Buttons', content: 'Click handlers.' }),
+		];
+		const index = build_inverted_index(documents);
+
+		test('should only score documents containing a term', () => {
+			const scored = score_documents(index, 'modal');
+
+			expect(
+				scored.map(({ doc }) => doc).sort((a, b) => a - b),
+			).toEqual([0, 1]);
+		});
+
+		test('should rank title matches above content matches', () => {
+			const [first, second] = score_documents(index, 'modal').sort(
+				(a, b) => b.score - a.score,
+			);
+
+			expect(first.doc).toBe(0);
+			expect(first.score).toBeGreaterThan(second.score);
+		});
+
+		test('should add scores across query terms', () => {
+			const single = score_documents(index, 'modal');
+			const both = score_documents(index, 'modal open');
+			const score = (list: typeof single, doc: number) =>
+				list.find((entry) => entry.doc === doc)!.score;
+
+			expect(score(both, 1)).toBeGreaterThan(score(single, 1));
+		});
+
+		test('should saturate repeated terms', () => {
+			const repeated = build_inverted_index([
+				doc({ content: 'mock' }),
+				doc({ content: Array(50).fill('mock').join(' ') }),
+				doc({ content: 'other' }),
+			]);
+			const [once, many] = score_documents(repeated, 'mock');
+
+			expect(many.score).toBeLessThan(once.score * 3);
+		});
+
+		test('should give the same scores on every run', () => {
+			expect(
+				score_documents(build_inverted_index(documents), 'modal'),
+			).toEqual(score_documents(index, 'modal'));
+		});
+	});
+
+	describe('stem', () => {
+		test('should reduce word forms to one stem', () => {
+			expect(
+				['mocks', 'mocking', 'mocked', 'mock'].map((word) =>
+					stem(word),
+				),
+			).toEqual(['mock', 'mock', 'mock', 'mock']);
+			expect(stem('untracked')).toBe(stem('untrack'));
+			expect(stem('running')).toBe('run');
+			expect(stem('libraries')).toBe('library');
+		});
+
+		test('should leave short words and lookalikes apart', () => {
+			expect(stem('runes')).not.toBe(stem('running'));
+			expect(stem('class')).toBe('class');
+			expect(stem('vi_fn')).toBe('vi_fn');
+		});
+	});
+
+	describe('edit_distance', () => {
+		test('should count edits, with a swap as one', () => {
+			expect(edit_distance('mocing', 'mocking', 2)).toBe(1);
+			expect(edit_distance('mokc', 'mock', 2)).toBe(1);
+			expect(edit_distance('state', 'stale', 2)).toBe(1);
+		});
+
+		test('should stop past the limit', () => {
+			expect(edit_distance('mock', 'playwright', 1)).toBe(2);
+			expect(edit_distance('mock', 'spy', 1)).toBe(2);
+		});
+	});
+
+	describe('query expansion', () => {
+		const documents = [
+			doc({ content: 'Mocking modules.' }),
+			doc({ content: 'Call untrack() to read derived values.' }),
+			doc({ content: 'Run end to end tests with Playwright.' }),
+			doc({ content: 'Install @testing-library/svelte.' }),
+			doc({ content: 'Mock modules.' }),
+		];
+		const index = build_inverted_index(documents);
+		const ranked = (query: string) =>
+			score_documents(index, query)
+				.sort((a, b) => b.score - a.score)
+				.map(({ doc }) => doc);
+
+		test('should match misspelled terms', () => {
+			expect(ranked('mocing')).toContain(0);
+		});
+
+		test('should match other forms of a word', () => {
+			expect(ranked('untracked')).toEqual([1]);
+			expect(ranked('mocks')).toEqual(expect.arrayContaining([0, 4]));
+		});
+
+		test('should search synonyms of testing jargon', () => {
+			expect(ranked('e2e')).toEqual([2]);
+			expect(ranked('rtl')).toEqual([3]);
+		});
+
+		test('should rank exact matches above looser ones', () => {
+			expect(ranked('mock')[0]).toBe(4);
+			expect(ranked('mocking')[0]).toBe(0);
+		});
+
+		test('should only look for near misses of unknown terms', () => {
+			const [mock] = expand_query(index, 'mock');
+			const [typo] = expand_query(index, 'mcok');
+
+			expect(mock.alternatives.size).toBe(0);
+			expect([...typo.alternatives.keys()]).toContain('mock');
+		});
+	});
+
+	describe('match_ranges', () => {
+		test('should return the offsets of matching words', () => {
+			const text = 'Mock modules, then call toBeVisible.';
+
+			expect(
+				match_ranges(text, new Set(['mock', 'visible'])).map(
+					({ start, end }) => text.slice(start, end),
+				),
+			).toEqual(['Mock', 'toBeVisible']);
+		});
+
+		test('should return no ranges without terms', () => {
+			expect(match_ranges('Mock modules', new Set())).toEqual([]);
+		});
+	});
+
+	describe('excerpt_around', () => {
+		const content = [
+			'## Heading',
+			'',
+			`${'Lorem ipsum dolor sit amet. '.repeat(10)}A locator that matches two elements fails with a [strict mode](https://example.com) violation. ${'Consectetur adipiscing elit. '.repeat(10)}`,
+		].join('\n');
+
+		test('should cut a window around the first match', () => {
+			const excerpt = excerpt_around(content, new Set(['strict']))!;
+
+			expect(excerpt).toContain('strict mode violation');
+			expect(excerpt.startsWith('…')).toBe(true);
+			expect(excerpt.endsWith('…')).toBe(true);
+			expect(excerpt.length).toBeLessThan(220);
+			expect(excerpt).not.toContain('](');
+		});
+
+		test('should match identifier parts', () => {
+			expect(
+				excerpt_around(
+					'await expect(a).toBeVisible()',
+					new Set(['visible']),
+				),
+			).toBe('await expect(a).toBeVisible()');
+		});
+
+		test('should return undefined without a match', () => {
+			expect(
+				excerpt_around(content, new Set(['runes'])),
+			).toBeUndefined();
+			expect(excerpt_around(content, new Set())).toBeUndefined();
+		});
+	});
+});
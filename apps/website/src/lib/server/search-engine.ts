@@ -0,0 +1,454 @@
+// BM25F ranking over an inverted index. The index is built once per
+// set of documents; a query only walks the postings of its own terms.
+// packages/cli/src/search.ts ports this file for offline bundles and
+// must stay in sync with it.
+
+export const SEARCH_FIELDS = [
+	'title',
+	'description',
+	'keywords',
+	'content',
+] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+// A term in the title says more about an item than the same term deep
+// in its content
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+	title: 4,
+	description: 2,
+	keywords: 1.5,
+	content: 1,
+};
+
+// Standard BM25 constants: term frequency saturation and how much a
+// long field is penalised
+const K1 = 1.2;
+const B = 0.75;
+
+// How much a variant of a query term counts next to the term itself,
+// so exact matches always rank above looser ones
+const STEM_WEIGHT = 0.9;
+const SYNONYM_WEIGHT = 0.8;
+// Per edit, so a term two edits away counts 0.6 × 0.6
+const FUZZY_WEIGHT = 0.6;
+
+// Testing jargon and the names the docs use for it. Keys are single
+// query tokens; values are searched as if they were typed as well
+export const SYNONYMS: Record<string, string[]> = {
+	rtl: ['@testing-library/svelte'],
+	e2e: ['playwright'],
+	playwright: ['e2e'],
+	runes: ['$state', '$derived', '$effect', '$props'],
+	ssr: ['server-side rendering'],
+	a11y: ['accessibility'],
+	accessibility: ['a11y'],
+	spy: ['vi.spyOn'],
+	stub: ['mock', 'vi.fn'],
+	jsdom: ['vitest-browser-svelte'],
+};
+
+export interface SearchDocument {
+	title: string;
+	description: string;
+	keywords: string[];
+	content: string;
+}
+
+interface Posting {
+	doc: number;
+	// Occurrences per field, in SEARCH_FIELDS order
+	counts: number[];
+}
+
+export interface InvertedIndex {
+	postings: Map<string, Posting[]>;
+	// Indexed terms by their stem, for matching other word forms
+	stems: Map<string, string[]>;
+	// Each document's words in order, identifiers whole, for phrases.
+	// Fields are separated by an empty token so no phrase spans two
+	sequences: string[][];
+	// Tokens per field for each document
+	lengths: number[][];
+	average_lengths: number[];
+	size: number;
+}
+
+export interface ScoredDocument {
+	doc: number;
+	score: number;
+}
+
+/**
+ * Split text into lower-case word tokens. With `split_identifiers`,
+ * identifiers are also indexed by their parts, so `toBeVisible` is
+ * found by `visible` and `vi_fn` by `fn`; queries keep them whole so
+ * `toBeVisible` does not also search for `to` and `be`. Punctuation
+ * never reaches a regular expression, so queries like `c++` or `(foo`
+ * are safe.
+ */
+export function tokenize(
+	text: string,
+	split_identifiers = false,
+): string[] {
+	const tokens: string[] = [];
+	for (const [word] of text.matchAll(/[\p{L}\p{N}_]+/gu)) {
+		const parts = split_identifiers
+			? word.split(/_+|(?<=[\p{Ll}\p{N}])(?=\p{Lu})/u).filter(Boolean)
+			: [];
+		for (const token of parts.length > 1
+			? [word, ...parts]
+			: [word]) {
+			// Single characters match almost everything
+			if (token.length > 1) tokens.push(token.toLowerCase());
+		}
+	}
+	return tokens;
+}
+
+/**
+ * A light English stemmer: strips plural, `-ing` and `-ed` endings
+ * and the final `e` of longer words, so `mocks`, `mocking` and
+ * `mocked` all become `mock`. Short words, words with digits or
+ * underscores and stems under three letters are left alone.
+ */
+export function stem(token: string): string {
+	if (token.length <= 4 || !/^\p{L}+$/u.test(token)) return token;
+	let base = token;
+	if (base.endsWith('ies')) base = `${base.slice(0, -3)}y`;
+	else if (/(?:ss|us|is)$/.test(base)) return base;
+	else if (/(?:ch|sh|[sxz])es$/.test(base)) base = base.slice(0, -2);
+	else if (base.endsWith('ing')) base = base.slice(0, -3);
+	else if (base.endsWith('ed')) base = base.slice(0, -2);
+	else if (base.endsWith('s')) base = base.slice(0, -1);
+	// running → run, stopped → stop
+	if (/([^aeiouls])\1$/.test(base) && base.length > 3) {
+		base = base.slice(0, -1);
+	}
+	// created → creat ← create, but rune stays apart from run
+	if (base.endsWith('e') && base.length > 5) base = base.slice(0, -1);
+	return base.length >= 3 ? base : token;
+}
+
+/**
+ * Edits (insertions, deletions, substitutions and swaps of neighbours)
+ * between `a` and `b`, or `max + 1` once it is certain to exceed `max`.
+ */
+export function edit_distance(
+	a: string,
+	b: string,
+	max: number,
+): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	let before: number[] = [];
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost,
+			);
+			if (
+				i > 1 &&
+				j > 1 &&
+				a[i - 1] === b[j - 2] &&
+				a[i - 2] === b[j - 1]
+			) {
+				current[j] = Math.min(current[j], before[j - 2] + 1);
+			}
+		}
+		if (Math.min(...current) > max) return max + 1;
+		before = previous;
+		previous = current;
+	}
+	return Math.min(previous[b.length], max + 1);
+}
+
+// Typos allowed for a term of this length
+function max_edits(term: string): number {
+	if (term.length < 4) return 0;
+	return term.length < 8 ? 1 : 2;
+}
+
+function field_tokens(
+	document: SearchDocument,
+	field: SearchField,
+): string[] {
+	return tokenize(
+		field === 'keywords'
+			? document.keywords.join(' ')
+			: document[field],
+		true,
+	);
+}
+
+export function build_inverted_index(
+	documents: SearchDocument[],
+): InvertedIndex {
+	const postings = new Map<string, Posting[]>();
+	const lengths = documents.map((document, doc) => {
+		const by_term = new Map<string, number[]>();
+		const field_lengths = SEARCH_FIELDS.map((field, position) => {
+			const tokens = field_tokens(document, field);
+			for (const token of tokens) {
+				const counts =
+					by_term.get(token) ?? SEARCH_FIELDS.map(() => 0);
+				counts[position]++;
+				by_term.set(token, counts);
+			}
+			return tokens.length;
+		});
+		for (const [term, counts] of by_term) {
+			const list = postings.get(term) ?? [];
+			list.push({ doc, counts });
+			postings.set(term, list);
+		}
+		return field_lengths;
+	});
+
+	const sequences = documents.map((document) =>
+		SEARCH_FIELDS.flatMap((field) => [
+			...tokenize(
+				field === 'keywords'
+					? document.keywords.join(' ')
+					: document[field],
+			),
+			'',
+		]),
+	);
+
+	const stems = new Map<string, string[]>();
+	for (const term of postings.keys()) {
+		const key = stem(term);
+		stems.set(key, [...(stems.get(key) ?? []), term]);
+	}
+
+	const average_lengths = SEARCH_FIELDS.map(
+		(_, position) =>
+			lengths.reduce((sum, field) => sum + field[position], 0) /
+			Math.max(documents.length, 1),
+	);
+	return {
+		postings,
+		stems,
+		sequences,
+		lengths,
+		average_lengths,
+		size: documents.length,
+	};
+}
+
+export interface QueryTerm {
+	// The term and other forms of the same word, scored together as one
+	// term: the term itself counts 1 per occurrence, other forms less
+	forms: Map<string, number>;
+	// Synonyms and, when the term is not indexed at all, near misses.
+	// Each is scored on its own and scaled by its weight
+	alternatives: Map<string, number>;
+}
+
+/**
+ * The indexed terms each query term matches, with the weight a match
+ * on them counts for.
+ */
+export function expand_query(
+	index: InvertedIndex,
+	query: string,
+): QueryTerm[] {
+	return [...new Set(tokenize(query))].map((term) => {
+		const forms = new Map<string, number>();
+		const alternatives = new Map<string, number>();
+		const add = (
+			into: Map<string, number>,
+			variant: string,
+			weight: number,
+		) => {
+			if (!index.postings.has(variant) || forms.has(variant)) return;
+			into.set(variant, Math.max(into.get(variant) ?? 0, weight));
+		};
+
+		add(forms, term, 1);
+		for (const form of index.stems.get(stem(term)) ?? []) {
+			add(forms, form, STEM_WEIGHT);
+		}
+		const synonyms = SYNONYMS[term] ?? SYNONYMS[stem(term)] ?? [];
+		for (const token of synonyms.flatMap((synonym) =>
+			tokenize(synonym),
+		)) {
+			add(alternatives, token, SYNONYM_WEIGHT);
+		}
+		const edits = max_edits(term);
+		if (!index.postings.has(term) && edits > 0) {
+			for (const candidate of index.postings.keys()) {
+				const distance = edit_distance(term, candidate, edits);
+				if (distance <= edits) {
+					add(alternatives, candidate, FUZZY_WEIGHT ** distance);
+				}
+			}
+		}
+		return { forms, alternatives };
+	});
+}
+
+// Whether document `doc` has the words of `phrase` next to each other
+export function contains_phrase(
+	index: InvertedIndex,
+	doc: number,
+	phrase: string,
+): boolean {
+	const words = tokenize(phrase);
+	const sequence = index.sequences[doc];
+	if (words.length === 0) return false;
+	for (
+		let start = 0;
+		start + words.length <= sequence.length;
+		start++
+	) {
+		if (
+			words.every((word, offset) => sequence[start + offset] === word)
+		) {
+			return true;
+		}
+	}
+	return false;
+}
+
+// Boosted, length-normalised occurrences of `terms` per document,
+// each term's count scaled by its weight
+function weighted_counts(
+	index: InvertedIndex,
+	terms: [string, number][],
+): Map<number, number> {
+	const weighted = new Map<number, number>();
+	for (const [term, weight] of terms) {
+		for (const { doc, counts } of index.postings.get(term) ?? []) {
+			const fields = SEARCH_FIELDS.reduce((sum, field, position) => {
+				const average = index.average_lengths[position] || 1;
+				const norm =
+					1 - B + (B * index.lengths[doc][position]) / average;
+				return sum + (FIELD_BOOSTS[field] * counts[position]) / norm;
+			}, 0);
+			weighted.set(doc, (weighted.get(doc) ?? 0) + weight * fields);
+		}
+	}
+	return weighted;
+}
+
+function idf(index: InvertedIndex, matches: number): number {
+	return Math.log(1 + (index.size - matches + 0.5) / (matches + 0.5));
+}
+
+function saturate(value: number): number {
+	return (value * (K1 + 1)) / (K1 + value);
+}
+
+/**
+ * Score every document matching at least one query term with BM25F:
+ * boosted, length-normalised counts are summed across fields, then
+ * saturated once per term. Each query term scores a document by its
+ * best match: the word itself (in any form), or a synonym or near
+ * miss scaled down by its weight. An alternative's idf never exceeds
+ * the word's, so a rare lookalike cannot outrank an exact match.
+ * Scores are rounded so they are identical wherever they are
+ * computed.
+ */
+export function score_documents(
+	index: InvertedIndex,
+	query: string,
+): ScoredDocument[] {
+	const scores = new Map<number, number>();
+
+	for (const { forms, alternatives } of expand_query(index, query)) {
+		const best = new Map<number, number>();
+		const keep = (doc: number, score: number) =>
+			best.set(doc, Math.max(best.get(doc) ?? 0, score));
+
+		const word = weighted_counts(index, [...forms]);
+		const word_idf = word.size > 0 ? idf(index, word.size) : Infinity;
+		for (const [doc, value] of word) {
+			keep(doc, word_idf * saturate(value));
+		}
+		for (const [term, weight] of alternatives) {
+			const matches = weighted_counts(index, [[term, 1]]);
+			const term_idf = Math.min(idf(index, matches.size), word_idf);
+			for (const [doc, value] of matches) {
+				keep(doc, weight * term_idf * saturate(value));
+			}
+		}
+
+		for (const [doc, score] of best) {
+			scores.set(doc, (scores.get(doc) ?? 0) + score);
+		}
+	}
+
+	return [...scores].map(([doc, score]) => ({
+		doc,
+		score: Math.round(score * 1e4) / 1e4,
+	}));
+}
+
+// Characters of context kept either side of the first match
+const EXCERPT_BEFORE = 80;
+const EXCERPT_AFTER = 120;
+
+// Markdown reduced to the words a reader sees
+function plain_text(markdown: string): string {
+	return markdown
+		.replace(/^\s*(`{3,}|~{3,}).*$/gm, '')
+		.replace(/^#{1,6}\s+/gm, '')
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+export interface MatchRange {
+	// UTF-16 offsets into the text, end exclusive, as String#slice takes
+	start: number;
+	end: number;
+}
+
+/**
+ * The words of `text` containing one of `terms` (as `expand_query`
+ * lists them), in order. A word matches as a whole, so `visible`
+ * marks all of `toBeVisible`.
+ */
+export function match_ranges(
+	text: string,
+	terms: ReadonlySet<string>,
+): MatchRange[] {
+	if (terms.size === 0) return [];
+	const ranges: MatchRange[] = [];
+	for (const { 0: word, index } of text.matchAll(
+		/[\p{L}\p{N}_]+/gu,
+	)) {
+		if (tokenize(word, true).some((token) => terms.has(token))) {
+			ranges.push({ start: index, end: index + word.length });
+		}
+	}
+	return ranges;
+}
+
+/**
+ * A short passage of `content` around the first word containing one
+ * of `terms`, cut at word boundaries and marked with `…` where text
+ * was dropped. Returns undefined when no term occurs in the content.
+ */
+export function excerpt_around(
+	content: string,
+	terms: ReadonlySet<string>,
+): string | undefined {
+	const text = plain_text(content);
+	const [match] = match_ranges(text, terms);
+	if (!match) return undefined;
+
+	let start = Math.max(0, match.start - EXCERPT_BEFORE);
+	let end = Math.min(text.length, match.end + EXCERPT_AFTER);
+	if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+	if (end < text.length) end = text.lastIndexOf(' ', end) + 1 || end;
+	return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${
+		end < text.length ? '…' : ''
+	}`;
+}
@@ -1,8 +1,10 @@
 import { describe, expect, test } from 'vitest';
 import {
 	generate_search_index,
+	get_search_index,
 	search_full_text,
 } from './search-index';
+import { QueryError } from './search-query';
 
 describe('Search Index', () => {
 	test('should generate search index with full content', async () => {
@@ -22,13 +24,20 @@ describe('Search Index', () => {
 		);
 		expect(examples.length).toBeGreaterThan(10);
 
-		// Items should have full content
-		const api_reference = index.items.find(
-			(item) => item.id === 'topic-api-reference',
+		// Docs are split into sections with their full content
+		const api_reference = index.items.filter((item) =>
+			item.url.startsWith('/docs/api-reference#'),
 		);
-		expect(api_reference).toBeDefined();
-		expect(api_reference!.content.length).toBeGreaterThan(1000);
-		expect(api_reference!.keywords).toContain('mock');
+		expect(api_reference.length).toBeGreaterThan(5);
+		expect(
+			api_reference.reduce(
+				(total, item) => total + item.content.length,
+				0,
+			),
+		).toBeGreaterThan(1000);
+		expect(
+			api_reference.some((item) => item.keywords.includes('mock')),
+		).toBe(true);
 	});
 
 	test('should find "mock" in documentation', async () => {
@@ -37,12 +46,12 @@ describe('Search Index', () => {
 
 		expect(results.length).toBeGreaterThan(0);
 
-		// Should find API Reference and Best Practices (both contain extensive mock content)
-		const api_reference = results.find(
-			(item) => item.id === 'topic-api-reference',
+		// Should find sections of API Reference and Best Practices (both contain extensive mock content)
+		const api_reference = results.find((item) =>
+			item.url.startsWith('/docs/api-reference#'),
 		);
-		const best_practices = results.find(
-			(item) => item.id === 'topic-best-practices',
+		const best_practices = results.find((item) =>
+			item.url.startsWith('/docs/best-practices#'),
 		);
 
 		expect(api_reference).toBeDefined();
@@ -72,11 +81,11 @@ describe('Search Index', () => {
 		expect(has_vi_fn).toBe(true);
 	});
 
-	test('should filter results by category', async () => {
+	test('should filter results by type', async () => {
 		const index = await generate_search_index();
 
 		// Test docs filter
-		const docs_results = search_full_text('test', index, 'docs');
+		const docs_results = search_full_text('test type:docs', index);
 		docs_results.forEach((result) => {
 			expect(
 				result.type === 'topic' ||
@@ -87,9 +96,8 @@ describe('Search Index', () => {
 
 		// Test examples filter
 		const examples_results = search_full_text(
-			'test',
+			'test type:examples',
 			index,
-			'examples',
 		);
 		examples_results.forEach((result) => {
 			expect(result.type).toBe('example');
@@ -137,4 +145,136 @@ describe('Search Index', () => {
 		);
 		expect(has_testing_keywords).toBe(true);
 	});
+
+	test('should treat regex characters in queries as text', async () => {
+		const index = await generate_search_index();
+
+		expect(() => search_full_text('c++', index)).not.toThrow();
+		expect(() => search_full_text('(foo', index)).not.toThrow();
+		expect(search_full_text('(runes', index)[0].id).toBe(
+			search_full_text('runes', index)[0].id,
+		);
+	});
+
+	test('should rank a topic above passing mentions of its title', async () => {
+		const index = await generate_search_index();
+		const results = search_full_text('remote functions', index);
+
+		expect(results[0].url).toMatch(
+			/^\/docs\/remote-functions-testing(#|$)/,
+		);
+	});
+
+	test('should link docs results to the matching section', async () => {
+		const index = await generate_search_index();
+		const [top] = search_full_text('strict mode violation', index);
+
+		expect(top.url).toMatch(/^\/docs\/troubleshooting#[a-z0-9-]+$/);
+		expect(top.breadcrumb?.[0]).toBe('Troubleshooting');
+		expect(top.excerpt?.toLowerCase()).toContain('strict');
+	});
+
+	test('should link documentation examples to a docs section', async () => {
+		const index = await generate_search_index();
+		const essential_imports = index.items.find(
+			(item) => item.id === 'example-quick-start-essential_imports',
+		);
+
+		expect(essential_imports?.url).toBe(
+			'/docs/getting-started#essential-imports',
+		);
+	});
+
+	test('should tolerate typos, word forms and jargon', async () => {
+		const index = await generate_search_index();
+
+		for (const query of ['mocing', 'untracked', 'rtl', 'e2e']) {
+			expect(search_full_text(query, index).length).toBeGreaterThan(
+				0,
+			);
+		}
+		expect(search_full_text('untracked', index)[0].excerpt).toMatch(
+			/untrack/,
+		);
+	});
+
+	test('should return match offsets for each field', async () => {
+		const index = await generate_search_index();
+		const results = search_full_text('mocking', index);
+
+		for (const { title, excerpt, highlights } of results) {
+			for (const { start, end } of highlights.title) {
+				expect(title.slice(start, end).toLowerCase()).toMatch(/mock/);
+			}
+			for (const { start, end } of highlights.excerpt) {
+				expect(excerpt!.slice(start, end).toLowerCase()).toMatch(
+					/mock/,
+				);
+			}
+		}
+		expect(
+			results.some(({ highlights }) => highlights.excerpt.length > 0),
+		).toBe(true);
+	});
+
+	test('should apply the query syntax', async () => {
+		const index = await generate_search_index();
+
+		const phrase = search_full_text('"strict mode violation"', index);
+		expect(phrase.length).toBeGreaterThan(0);
+		for (const { content, title } of phrase) {
+			expect(`${title} ${content}`.toLowerCase()).toMatch(
+				/strict mode violation/,
+			);
+		}
+
+		const units = search_full_text(
+			'"expect.element" -playwright type:example category:"Unit Testing"',
+			index,
+		);
+		expect(units.length).toBeGreaterThan(0);
+		for (const result of units) {
+			expect(result.category).toBe('Unit Testing');
+			expect(result.content).toMatch(/expect\.element/);
+			expect(result.content.toLowerCase()).not.toContain(
+				'playwright',
+			);
+		}
+
+		const topic = search_full_text('mock topic:api-reference', index);
+		expect(topic.length).toBeGreaterThan(0);
+		for (const { url } of topic) {
+			expect(url).toMatch(/^\/docs\/api-reference(#|$)/);
+		}
+
+		const either = search_full_text(
+			'type:components OR category:"Unit Testing"',
+			index,
+		);
+		expect(new Set(either.map(({ category }) => category))).toEqual(
+			new Set(['Components', 'Unit Testing']),
+		);
+	});
+
+	test('should reject malformed queries', async () => {
+		const index = await generate_search_index();
+
+		expect(() => search_full_text('"unclosed', index)).toThrow(
+			QueryError,
+		);
+	});
+
+	test('should return the same ranking for the same query', async () => {
+		const index = await generate_search_index();
+		const first = search_full_text('form validation', index);
+		const second = search_full_text('form validation', index);
+
+		expect(second.map(({ id, score }) => [id, score])).toEqual(
+			first.map(({ id, score }) => [id, score]),
+		);
+	});
+
+	test('should share one generated index between callers', async () => {
+		expect(await get_search_index()).toBe(await get_search_index());
+	});
 });
@@ -6,6 +6,25 @@ import {
 	integration_test_examples,
 	unit_test_examples,
 } from '$lib/examples/code-examples';
+import { split_markdown } from './markdown-sections';
+import {
+	build_inverted_index,
+	contains_phrase,
+	excerpt_around,
+	expand_query,
+	match_ranges,
+	score_documents,
+	type InvertedIndex,
+	type MatchRange,
+} from './search-engine';
+import {
+	parse_query,
+	ranking_text,
+	TYPE_VALUES,
+	type ParsedQuery,
+	type Qualifier,
+	type QueryItem,
+} from './search-query';
 
 export interface SearchIndexItem {
 	id: string;
@@ -17,10 +36,19 @@ export interface SearchIndexItem {
 	content: string; // Full searchable content
 	excerpt?: string; // Short preview
 	keywords: string[]; // Additional searchable terms
+	breadcrumb?: string[]; // Topic and parent headings of a docs section
+}
+
+// Where the query matched, as offsets into each returned field
+export interface SearchHighlights {
+	title: MatchRange[];
+	description: MatchRange[];
+	excerpt: MatchRange[];
 }
 
 export interface SearchResult extends SearchIndexItem {
 	score: number;
+	highlights: SearchHighlights;
 }
 
 export interface SearchIndex {
@@ -39,14 +67,10 @@ export async function generate_search_index(): Promise<SearchIndex> {
 			const markdown_module = await import(
 				`../../copy/${topic.slug}.md?raw`
 			);
-			const full_content = markdown_module.default;
-
-			// Extract keywords from content (common testing terms)
-			const keywords = extract_keywords(full_content);
-
-			// Create excerpt from first paragraph
-			const excerpt = create_excerpt(full_content);
+			const full_content: string = markdown_module.default;
+			const { lead, sections } = split_markdown(full_content);
 
+			// The topic itself keeps the text before its first section
 			items.push({
 				id: `topic-${topic.slug}`,
 				title: topic.title,
@@ -54,10 +78,29 @@ export async function generate_search_index(): Promise<SearchIndex> {
 				url: `/docs/${topic.slug}`,
 				type: 'topic',
 				category: 'Documentation',
-				content: full_content,
-				excerpt,
-				keywords,
+				content: lead,
+				excerpt: lead ? create_excerpt(lead) : topic.description,
+				keywords: extract_keywords(lead),
 			});
+
+			// Each section is its own result, linked by the anchor the
+			// docs page gives its heading
+			for (const section of sections) {
+				if (!section.content) continue;
+				const breadcrumb = [topic.title, ...section.breadcrumb];
+				items.push({
+					id: `topic-${topic.slug}#${section.anchor}`,
+					title: section.title,
+					description: breadcrumb.join(' › '),
+					url: `/docs/${topic.slug}#${section.anchor}`,
+					type: 'topic',
+					category: 'Documentation',
+					content: section.content,
+					excerpt: create_excerpt(section.content),
+					keywords: extract_keywords(section.content),
+					breadcrumb,
+				});
+			}
 		} catch (error) {
 			console.warn(
 				`Could not load content for ${topic.slug}:`,
@@ -78,18 +121,6 @@ export async function generate_search_index(): Promise<SearchIndex> {
 		}
 	}
 
-	// Mapping of documentation examples to their specific page sections
-	const documentation_example_urls: Record<string, string> = {
-		essential_imports: '/docs/getting-started#essential-imports',
-		first_test: '/docs/getting-started#step-2-write-your-first-test',
-		component_testing:
-			'/docs/getting-started#common-patterns-youll-use-daily',
-		form_testing: '/docs/getting-started#testing-form-inputs',
-		state_testing: '/docs/getting-started#testing-svelte-5-runes',
-		ssr_testing: '/docs/testing-patterns#ssr-testing',
-		server_testing: '/docs/testing-patterns#server-testing',
-	};
-
 	// Add code examples with full content
 	const example_categories = [
 		{
@@ -138,7 +169,10 @@ export async function generate_search_index(): Promise<SearchIndex> {
 		});
 	});
 
-	// Add documentation examples with specific URLs
+	// Add documentation examples, linked to the docs section they
+	// are named after
+	const sections = items.filter((item) => item.breadcrumb);
+	const section_index = build_inverted_index(sections);
 	Object.entries(documentation_examples).forEach(([key, code]) => {
 		const title = key
 			.replace(/_/g, ' ')
@@ -148,9 +182,9 @@ export async function generate_search_index(): Promise<SearchIndex> {
 		const keywords = extract_keywords(full_code);
 		const excerpt = create_code_excerpt(full_code);
 
-		// Use specific URL if available, otherwise fallback to base docs
 		const specific_url =
-			documentation_example_urls[key] || '/docs/getting-started';
+			best_section(sections, section_index, title)?.url ??
+			'/docs/getting-started';
 
 		items.push({
 			id: `example-quick-start-${key}`,
@@ -172,6 +206,18 @@ export async function generate_search_index(): Promise<SearchIndex> {
 	};
 }
 
+// The docs section whose heading and text best match `query`
+function best_section(
+	sections: SearchIndexItem[],
+	index: InvertedIndex,
+	query: string,
+): SearchIndexItem | undefined {
+	const [best] = score_documents(index, query).sort(
+		(a, b) => b.score - a.score || a.doc - b.doc,
+	);
+	return best && sections[best.doc];
+}
+
 function extract_keywords(content: string): string[] {
 	// Extract common testing and development keywords
 	const keyword_patterns = [
@@ -237,95 +283,165 @@ function create_code_excerpt(code: string): string {
 	return lines.slice(0, 3).join('\n').substring(0, 150) + '...';
 }
 
-// Server-side search function with full-text capabilities
-export function search_full_text(
-	query: string,
-	index: SearchIndex,
-	filter: string = 'all',
-): SearchResult[] {
-	if (!query.trim()) return [];
-
-	const search_terms = query
-		.toLowerCase()
-		.split(' ')
-		.filter((term) => term.length > 0);
-
-	let filtered_items = index.items;
-
-	// Apply filter
-	if (filter !== 'all') {
-		filtered_items = index.items.filter((item) => {
-			switch (filter) {
-				case 'docs':
-					return (
-						item.type === 'topic' ||
-						item.category === 'Documentation' ||
-						item.category === 'Quick Start'
-					);
-				case 'examples':
-					return (
-						item.type === 'example' &&
-						!['Components', 'Documentation', 'Quick Start'].includes(
-							item.category,
-						)
-					);
-				case 'components':
-					return item.category === 'Components';
-				default:
-					return true;
-			}
-		});
+// The result groups `type:` selects
+function matches_type(item: SearchIndexItem, group: string) {
+	switch (group) {
+		case 'docs':
+			return (
+				item.type === 'topic' ||
+				item.category === 'Documentation' ||
+				item.category === 'Quick Start'
+			);
+		case 'examples':
+			return (
+				item.type === 'example' &&
+				!['Components', 'Documentation', 'Quick Start'].includes(
+					item.category,
+				)
+			);
+		case 'components':
+			return item.category === 'Components';
+		default:
+			return true;
 	}
+}
 
-	return filtered_items
-		.map((item) => {
-			let score = 0;
-			const searchable_text =
-				`${item.title} ${item.description} ${item.category} ${item.content} ${item.keywords.join(' ')}`.toLowerCase();
-
-			// Exact title match gets highest score
-			if (item.title.toLowerCase().includes(query.toLowerCase())) {
-				score += 100;
-			}
+function matches_qualifier(
+	item: SearchIndexItem,
+	field: Qualifier,
+	value: string,
+): boolean {
+	const wanted = value.toLowerCase();
+	switch (field) {
+		case 'type':
+			return matches_type(item, TYPE_VALUES[wanted]);
+		case 'category':
+			return item.category.toLowerCase() === wanted;
+		case 'topic':
+			return (
+				item.url === `/docs/${wanted}` ||
+				item.url.startsWith(`/docs/${wanted}#`)
+			);
+	}
+}
 
-			// Description match
-			if (
-				item.description.toLowerCase().includes(query.toLowerCase())
-			) {
-				score += 50;
-			}
+// A test per query item for whether a document satisfies it
+function item_matcher(
+	index: SearchIndex,
+	inverted: InvertedIndex,
+	item: QueryItem,
+): (doc: number) => boolean {
+	if (item.kind === 'qualifier') {
+		return (doc) =>
+			matches_qualifier(index.items[doc], item.field, item.value);
+	}
+	const words = expand_query(inverted, item.value);
+	// Identifiers with punctuation, like vi.fn, are matched in order
+	if (item.kind === 'phrase' || words.length > 1) {
+		return (doc) => contains_phrase(inverted, doc, item.value);
+	}
+	if (words.length === 0) return () => false;
+	// Excluding a word leaves its synonyms and lookalikes alone
+	const terms = item.negated
+		? [...words[0].forms.keys()]
+		: [...words[0].forms.keys(), ...words[0].alternatives.keys()];
+	const docs = new Set(
+		terms.flatMap((term) =>
+			(inverted.postings.get(term) ?? []).map(({ doc }) => doc),
+		),
+	);
+	return (doc) => docs.has(doc);
+}
 
-			// Category match
-			if (item.category.toLowerCase().includes(query.toLowerCase())) {
-				score += 30;
-			}
+// A lone word only ranks results; everything else must match
+function group_matcher(
+	index: SearchIndex,
+	inverted: InvertedIndex,
+	group: QueryItem[],
+): ((doc: number) => boolean) | null {
+	const [first] = group;
+	if (group.length === 1 && first.kind === 'term' && !first.negated) {
+		return null;
+	}
+	const matchers = group.map((item) => {
+		const matches = item_matcher(index, inverted, item);
+		return item.negated ? (doc: number) => !matches(doc) : matches;
+	});
+	return (doc) => matchers.some((matches) => matches(doc));
+}
 
-			// Full content match (this is the key improvement!)
-			search_terms.forEach((term) => {
-				const content_matches = (
-					item.content.toLowerCase().match(new RegExp(term, 'g')) ||
-					[]
-				).length;
-				score += content_matches * 5; // Multiple matches in content boost score
-			});
+// One inverted index per generated index, built on its first search
+const inverted_indexes = new WeakMap<SearchIndex, InvertedIndex>();
 
-			// Keyword matches
-			search_terms.forEach((term) => {
-				if (item.keywords.some((keyword) => keyword.includes(term))) {
-					score += 15;
-				}
-			});
+let shared_index: Promise<SearchIndex> | null = null;
 
-			// Individual term matches in searchable text
-			search_terms.forEach((term) => {
-				if (searchable_text.includes(term)) {
-					score += 10;
-				}
-			});
+// The index every search entry point shares, generated once per
+// server instance (a failed build is retried on the next call)
+export function get_search_index(): Promise<SearchIndex> {
+	shared_index ??= generate_search_index().catch((error) => {
+		shared_index = null;
+		throw error;
+	});
+	return shared_index;
+}
 
-			return { ...item, score };
-		})
-		.filter((item) => item.score > 0)
-		.sort((a, b) => b.score - a.score)
-		.slice(0, 20); // Increase limit for better results
+// Server-side search: BM25F over the title, description, keywords and
+// full content of every item, tolerant of typos, word forms and
+// synonyms, narrowed by the phrases, exclusions and qualifiers of
+// the query syntax. Ties keep a stable order by id; excerpts are cut
+// around the first match and every result lists where it matched.
+// Throws a QueryError for malformed queries
+export function search_full_text(
+	query: string | ParsedQuery,
+	index: SearchIndex,
+): SearchResult[] {
+	let inverted = inverted_indexes.get(index);
+	if (!inverted) {
+		inverted = build_inverted_index(index.items);
+		inverted_indexes.set(index, inverted);
+	}
+	const parsed =
+		typeof query === 'string' ? parse_query(query) : query;
+	if (parsed.groups.length === 0) return [];
+
+	const text = ranking_text(parsed);
+	// Every indexed term the query matched, typos and synonyms included
+	const terms = new Set(
+		expand_query(inverted, text).flatMap(
+			({ forms, alternatives }) => [
+				...forms.keys(),
+				...alternatives.keys(),
+			],
+		),
+	);
+	const matchers = parsed.groups
+		.map((group) => group_matcher(index, inverted, group))
+		.filter((matcher) => matcher !== null);
+	// Qualifiers alone list everything they select
+	const candidates = text.trim()
+		? score_documents(inverted, text)
+		: index.items.map((_, doc) => ({ doc, score: 0 }));
+
+	return candidates
+		.filter(({ doc }) => matchers.every((matches) => matches(doc)))
+		.map(({ doc, score }) => ({ ...index.items[doc], score }))
+		.sort(
+			(a, b) =>
+				b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+		)
+		.slice(0, 20)
+		.map((item) => {
+			// Show the part of the item that matched
+			const excerpt =
+				excerpt_around(item.content, terms) ?? item.excerpt;
+			return {
+				...item,
+				excerpt,
+				highlights: {
+					title: match_ranges(item.title, terms),
+					description: match_ranges(item.description, terms),
+					excerpt: excerpt ? match_ranges(excerpt, terms) : [],
+				},
+			};
+		});
 }
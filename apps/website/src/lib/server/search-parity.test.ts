@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { search_index } from '$cli/search';
+import { parse_query as parse_cli_query } from '$cli/search-query';
+import {
+	generate_search_index,
+	search_full_text,
+} from './search-index';
+import { parse_query, type QueryError } from './search-query';
+
+// The CLI answers bundle searches with its own copy of the engine,
+// the index search and the query parser. Both copies run here over
+// the same generated index, so a change to one that is not made to
+// the other fails this test instead of drifting silently.
+
+const QUERIES = [
+	'mock',
+	'mocking functions',
+	'expect element',
+	'locatr',
+	'spy',
+	'"expect.element"',
+	'form -playwright',
+	'type:example',
+	'type:docs runes',
+	'category:"Component Testing"',
+	'topic:mocking',
+	'button OR modal',
+	'state type:examples OR type:components',
+];
+
+const INVALID = [
+	'"strict mode',
+	'mock type:',
+	'type:snippets',
+	'mock OR',
+	'OR mock',
+	'-playwright',
+	'-svelte',
+];
+
+describe('CLI search parity', () => {
+	it.each(QUERIES)('ranks %s the same as the site', async (query) => {
+		const index = await generate_search_index();
+
+		expect(search_index(query, index)).toEqual(
+			search_full_text(query, index),
+		);
+	});
+
+	it.each([...QUERIES, ...INVALID])(
+		'parses %s the same as the site',
+		(query) => {
+			const outcome = (parse: typeof parse_query) => {
+				try {
+					return parse(query);
+				} catch (error) {
+					const { message, code, position } = error as QueryError;
+					return { message, code, position };
+				}
+			};
+
+			expect(outcome(parse_cli_query)).toEqual(outcome(parse_query));
+		},
+	);
+});
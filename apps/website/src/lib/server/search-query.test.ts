@@ -0,0 +1,118 @@
+import { describe, expect, test } from 'vitest';
+import {
+	parse_query,
+	QueryError,
+	ranking_text,
+} from './search-query';
+
+function error_of(query: string): QueryError {
+	try {
+		parse_query(query);
+	} catch (error) {
+		return error as QueryError;
+	}
+	throw new Error(`'${query}' parsed without an error`);
+}
+
+describe('Search Query', () => {
+	describe('parse_query', () => {
+		test('should parse terms, phrases, exclusions and qualifiers', () => {
+			const { groups } = parse_query(
+				'"expect.element" -playwright type:example category:"Unit Testing"',
+			);
+
+			expect(groups).toEqual([
+				[
+					{
+						kind: 'phrase',
+						value: 'expect.element',
+						negated: false,
+						position: 0,
+					},
+				],
+				[
+					{
+						kind: 'term',
+						value: 'playwright',
+						negated: true,
+						position: 17,
+					},
+				],
+				[
+					{
+						kind: 'qualifier',
+						field: 'type',
+						value: 'example',
+						negated: false,
+						position: 29,
+					},
+				],
+				[
+					{
+						kind: 'qualifier',
+						field: 'category',
+						value: 'Unit Testing',
+						negated: false,
+						position: 42,
+					},
+				],
+			]);
+		});
+
+		test('should group parts joined by OR', () => {
+			const { groups } = parse_query('mock OR "vi.fn" runes');
+
+			expect(
+				groups.map((group) => group.map(({ value }) => value)),
+			).toEqual([['mock', 'vi.fn'], ['runes']]);
+		});
+
+		test('should treat unknown prefixes and lower-case or as words', () => {
+			const { groups } = parse_query('test:e2e or Topic:ssr-testing');
+
+			expect(groups.flat().map(({ kind }) => kind)).toEqual([
+				'term',
+				'term',
+				'qualifier',
+			]);
+		});
+
+		test('should parse an empty query to no groups', () => {
+			expect(parse_query('   ').groups).toEqual([]);
+		});
+	});
+
+	describe('errors', () => {
+		test.each([
+			['"strict mode', 'unterminated_quote', 0],
+			['category:"Unit', 'unterminated_quote', 9],
+			['mock ""', 'empty_phrase', 5],
+			['mock type:', 'missing_value', 5],
+			['type:snippets', 'unknown_value', 0],
+			['OR mock', 'dangling_or', 0],
+			['mock OR', 'dangling_or', 5],
+			['mock OR OR spy', 'dangling_or', 8],
+			['mock - spy', 'empty_negation', 5],
+			['-playwright -"e2e"', 'only_exclusions', 0],
+		])('should reject %s as %s', (query, code, position) => {
+			const error = error_of(query);
+
+			expect(error).toBeInstanceOf(QueryError);
+			expect(error.toJSON()).toEqual({
+				code,
+				message: expect.any(String),
+				position,
+			});
+		});
+	});
+
+	describe('ranking_text', () => {
+		test('should keep the words that are not excluded', () => {
+			expect(
+				ranking_text(
+					parse_query('mock OR "vi.fn" -spy type:docs -"e2e"'),
+				),
+			).toBe('mock vi.fn');
+		});
+	});
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { highlight_segments } from './search-highlight';
+
+describe('highlight_segments', () => {
+	it('should split text around matched ranges', () => {
+		expect(
+			highlight_segments('Mock the store', [
+				{ start: 0, end: 4 },
+				{ start: 9, end: 14 },
+			]),
+		).toEqual([
+			{ text: 'Mock', match: true },
+			{ text: ' the ', match: false },
+			{ text: 'store', match: true },
+		]);
+	});
+
+	it('should return the whole text when nothing matched', () => {
+		expect(highlight_segments('Plain text')).toEqual([
+			{ text: 'Plain text', match: false },
+		]);
+		expect(highlight_segments('')).toEqual([]);
+	});
+
+	it('should tolerate unsorted, overlapping and stray ranges', () => {
+		expect(
+			highlight_segments('abcdef', [
+				{ start: 3, end: 5 },
+				{ start: 1, end: 4 },
+				{ start: 4, end: 99 },
+				{ start: -2, end: Number.NaN },
+			]),
+		).toEqual([
+			{ text: 'a', match: false },
+			{ text: 'bcdef', match: true },
+		]);
+	});
+});
@@ -0,0 +1,48 @@
+import type { MatchRange } from '$lib/server/search-engine';
+
+export interface HighlightSegment {
+	text: string;
+	match: boolean;
+}
+
+/**
+ * Split `text` into plain and matched segments for rendering. Ranges
+ * come from the search API, so overlapping, unsorted or out-of-bounds
+ * ones are tolerated rather than trusted.
+ */
+export function highlight_segments(
+	text: string,
+	ranges: MatchRange[] = [],
+): HighlightSegment[] {
+	const segments: HighlightSegment[] = [];
+	let position = 0;
+
+	const valid = ranges
+		.filter(
+			({ start, end }) =>
+				Number.isInteger(start) && Number.isInteger(end),
+		)
+		.sort((a, b) => a.start - b.start);
+	for (const { start, end } of valid) {
+		const from = Math.max(start, position);
+		const to = Math.min(end, text.length);
+		if (from >= to) continue;
+		if (from > position) {
+			segments.push({
+				text: text.slice(position, from),
+				match: false,
+			});
+		}
+		const previous = segments.at(-1);
+		if (previous?.match && from === position) {
+			previous.text += text.slice(from, to);
+		} else {
+			segments.push({ text: text.slice(from, to), match: true });
+		}
+		position = to;
+	}
+	if (position < text.length) {
+		segments.push({ text: text.slice(position), match: false });
+	}
+	return segments;
+}
@@ -1,4 +1,6 @@
+import { existsSync } from 'node:fs';
 import { describe, expect, it } from 'vitest';
+import { topics } from '$lib/data/topics';
 import type { TestingScenario } from './+server';
 import { GET } from './+server';
 
@@ -138,6 +140,23 @@ describe('Testing Scenarios Index Endpoint', () => {
 				);
 			});
 		});
+
+		it('should link every scenario to a readable site page', async () => {
+			const request = new Request('http://localhost/api/examples');
+
+			const response = await GET({ request } as any);
+			const data = await response.json();
+
+			data.scenarios.forEach((scenario: TestingScenario) => {
+				const path = scenario.page.split('#')[0];
+				expect(path).not.toMatch(/^\/api\//);
+				expect(
+					existsSync(
+						new URL(`../..${path}/+page.svelte`, import.meta.url),
+					),
+				).toBe(true);
+			});
+		});
 	});
 
 	describe('Categories', () => {
@@ -161,7 +180,9 @@ describe('Testing Scenarios Index Endpoint', () => {
 			const data = await response.json();
 
 			const categories = data.categories;
-			const sortedCategories = [...categories].sort();
+			const sortedCategories = [...categories].sort((a, b) =>
+				a.localeCompare(b),
+			);
 
 			expect(categories).toEqual(sortedCategories);
 		});
@@ -434,4 +455,56 @@ describe('Testing Scenarios Index Endpoint', () => {
 			expect(svelte5Scenarios.length).toBeGreaterThan(0);
 		});
 	});
+
+	describe('Related Graph', () => {
+		it('should link only to scenarios and topics that exist', async () => {
+			const request = new Request('http://localhost/api/examples');
+
+			const response = await GET({ request } as any);
+			const data = await response.json();
+
+			const scenario_slugs = data.scenarios.map(
+				(s: TestingScenario) => s.endpoint.split('/').pop(),
+			);
+			const topic_slugs = topics.map((topic) => topic.slug);
+
+			data.scenarios.forEach((scenario: TestingScenario) => {
+				scenario.related.forEach((link) => {
+					const known =
+						link.kind === 'scenario' ? scenario_slugs : topic_slugs;
+					expect(known).toContain(link.slug);
+					expect(link.reason.length).toBeGreaterThan(0);
+				});
+			});
+		});
+
+		it('should never link a scenario to itself', async () => {
+			const request = new Request('http://localhost/api/examples');
+
+			const response = await GET({ request } as any);
+			const data = await response.json();
+
+			data.scenarios.forEach((scenario: TestingScenario) => {
+				const slug = scenario.endpoint.split('/').pop();
+				expect(
+					scenario.related.filter(
+						(link) => link.kind === 'scenario' && link.slug === slug,
+					),
+				).toEqual([]);
+			});
+		});
+
+		it('should give every scenario at least one related scenario', async () => {
+			const request = new Request('http://localhost/api/examples');
+
+			const response = await GET({ request } as any);
+			const data = await response.json();
+
+			data.scenarios.forEach((scenario: TestingScenario) => {
+				expect(
+					scenario.related.some((link) => link.kind === 'scenario'),
+				).toBe(true);
+			});
+		});
+	});
 });
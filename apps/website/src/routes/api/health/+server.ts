@@ -1,3 +1,4 @@
+import { API_VERSION } from '$lib/server/api-version';
 import { json } from '@sveltejs/kit';
 
 export async function GET() {
@@ -5,5 +6,6 @@ export async function GET() {
 		status: 'ok',
 		timestamp: new Date().toISOString(),
 		uptime: process.uptime(),
+		api_version: API_VERSION,
 	});
 }
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { API_VERSION } from '$lib/server/api-version';
 import { GET } from './+server';
 
 describe('Health API', () => {
@@ -26,4 +27,11 @@ describe('Health API', () => {
 		expect(typeof result.uptime).toBe('number');
 		expect(result.uptime).toBeGreaterThanOrEqual(0);
 	});
+
+	it('should report the API version', async () => {
+		const response = await GET();
+		const result = await response.json();
+
+		expect(result.api_version).toBe(API_VERSION);
+	});
 });
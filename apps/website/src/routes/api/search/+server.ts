@@ -1,9 +1,14 @@
 import {
-	generate_search_index,
+	get_search_index,
 	search_full_text,
-	type SearchIndex,
-	type SearchIndexItem,
+	type SearchHighlights,
 } from '$lib/server/search-index';
+import {
+	parse_query,
+	QueryError,
+	TYPE_VALUES,
+	type ParsedQuery,
+} from '$lib/server/search-query';
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 
@@ -15,35 +20,47 @@ export interface SearchResult {
 	type: 'topic' | 'example' | 'code';
 	category?: string;
 	excerpt?: string;
+	// Topic and parent headings, for docs sections
+	breadcrumb?: string[];
+	// Matched words in the title, description and excerpt
+	highlights: SearchHighlights;
 }
 
-// Full-text search index
-let full_search_index: SearchIndex | null = null;
-
 export const GET: RequestHandler = async ({ url }) => {
 	const query = url.searchParams.get('q') || '';
-	const filter = url.searchParams.get('filter') || 'all'; // 'all', 'docs', 'examples', 'components'
+	// 'docs', 'examples' or 'components' scope the search like a type:
+	// qualifier, kept out of the query so errors point at what was typed
+	const filter = url.searchParams.get('filter') || 'all';
 
-	// Build full-text search index once per server instance
-	if (!full_search_index) {
-		full_search_index = await generate_search_index();
+	let parsed: ParsedQuery;
+	try {
+		parsed = parse_query(query);
+		if (TYPE_VALUES[filter]) {
+			parsed.groups.push(...parse_query(`type:${filter}`).groups);
+		}
+	} catch (error) {
+		if (!(error instanceof QueryError)) throw error;
+		return json({ query, filter, error }, { status: 400 });
 	}
 
+	// Shared with search_site and the docs search action
+	const search_index = await get_search_index();
+
 	// Perform full-text search
-	const results = search_full_text(query, full_search_index, filter);
+	const results = search_full_text(parsed, search_index);
 
 	// Convert to API format for compatibility with existing components
-	const api_results: SearchResult[] = results.map(
-		(item: SearchIndexItem) => ({
-			id: item.id,
-			title: item.title,
-			description: item.description,
-			url: item.url,
-			type: item.type,
-			category: item.category,
-			excerpt: item.excerpt,
-		}),
-	);
+	const api_results: SearchResult[] = results.map((item) => ({
+		id: item.id,
+		title: item.title,
+		description: item.description,
+		url: item.url,
+		type: item.type,
+		category: item.category,
+		excerpt: item.excerpt,
+		breadcrumb: item.breadcrumb,
+		highlights: item.highlights,
+	}));
 
 	return json({
 		query,
@@ -22,12 +22,12 @@ describe('/api/search', () => {
 			expect(data.query).toBe('mock');
 			expect(data.results.length).toBeGreaterThan(0);
 
-			// Should find API Reference and Best Practices (both contain mock content)
-			const api_reference = data.results.find(
-				(r: any) => r.id === 'topic-api-reference',
+			// Should find sections of API Reference and Best Practices (both contain mock content)
+			const api_reference = data.results.find((r: any) =>
+				r.url.startsWith('/docs/api-reference#'),
 			);
-			const best_practices = data.results.find(
-				(r: any) => r.id === 'topic-best-practices',
+			const best_practices = data.results.find((r: any) =>
+				r.url.startsWith('/docs/best-practices#'),
 			);
 
 			expect(api_reference || best_practices).toBeDefined();
@@ -110,5 +110,70 @@ describe('/api/search', () => {
 				expect(typeof data.results[0].excerpt).toBe('string');
 			}
 		});
+
+		test('should accept the query syntax', async () => {
+			const url = new URL(
+				`http://localhost/api/search?q=${encodeURIComponent('mock -playwright type:docs')}`,
+			);
+			const response = await GET({ url } as any);
+			const data = await response.json();
+
+			expect(data.results.length).toBeGreaterThan(0);
+			for (const result of data.results) {
+				expect(
+					result.type === 'topic' ||
+						['Documentation', 'Quick Start'].includes(
+							result.category,
+						),
+				).toBe(true);
+			}
+		});
+
+		test('should report query errors at their position when filtered', async () => {
+			const url = new URL(
+				`http://localhost/api/search?q=${encodeURIComponent('OR mock')}&filter=docs`,
+			);
+			const response = await GET({ url } as any);
+			const data = await response.json();
+
+			expect(response.status).toBe(400);
+			expect(data.error).toMatchObject({
+				code: 'dangling_or',
+				position: 0,
+			});
+		});
+
+		test('should return a structured error for malformed queries', async () => {
+			const url = new URL(
+				`http://localhost/api/search?q=${encodeURIComponent('mock type:snippets')}`,
+			);
+			const response = await GET({ url } as any);
+			const data = await response.json();
+
+			expect(response.status).toBe(400);
+			expect(data.error).toEqual({
+				code: 'unknown_value',
+				message: expect.stringContaining('snippets'),
+				position: 5,
+			});
+		});
+
+		test('should include match ranges for highlighting', async () => {
+			const url = new URL('http://localhost/api/search?q=component');
+			const response = await GET({ url } as any);
+			const data = await response.json();
+
+			const [first] = data.results;
+			expect(first.highlights).toEqual({
+				title: expect.any(Array),
+				description: expect.any(Array),
+				excerpt: expect.any(Array),
+			});
+			for (const { start, end } of first.highlights.excerpt) {
+				expect(
+					first.excerpt.slice(start, end).toLowerCase(),
+				).toContain('component');
+			}
+		});
 	});
 });
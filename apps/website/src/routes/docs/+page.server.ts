@@ -1,45 +1,50 @@
 import {
-	generate_search_index,
+	get_search_index,
 	search_full_text,
 } from '$lib/server/search-index';
+import { QueryError } from '$lib/server/search-query';
 import { fail } from '@sveltejs/kit';
 import type { Actions } from './$types';
 
 export const actions: Actions = {
 	search: async ({ request }) => {
 		const form_data = await request.formData();
+		// Query syntax included, e.g. `mock type:docs`
 		const query = form_data.get('q')?.toString() || '';
-		const filter = form_data.get('filter')?.toString() || 'all';
 
 		if (!query.trim()) {
 			return fail(400, {
 				error: 'Search query is required',
 				query,
-				filter,
 			});
 		}
 
 		try {
-			// Generate search index (cached in production)
-			const search_index = await generate_search_index();
+			// Built once and shared with /api/search
+			const search_index = await get_search_index();
 
 			// Perform full-text search
-			const results = search_full_text(query, search_index, filter);
+			const results = search_full_text(query, search_index);
 
 			return {
 				success: true,
 				query,
-				filter,
 				results: results.slice(0, 10), // Limit results for form response
 				total: results.length,
 				search_type: 'server_action',
 			};
 		} catch (error) {
+			if (error instanceof QueryError) {
+				return fail(400, {
+					error: error.message,
+					position: error.position,
+					query,
+				});
+			}
 			console.error('Search error:', error);
 			return fail(500, {
 				error: 'Search failed. Please try again.',
 				query,
-				filter,
 			});
 		}
 	},
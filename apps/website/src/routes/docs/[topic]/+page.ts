@@ -1,3 +1,4 @@
+import { scenarios_for_topic } from '$lib/data/scenarios';
 import { topics } from '$lib/data/topics';
 import { error } from '@sveltejs/kit';
 
@@ -15,6 +16,7 @@ export const load = async ({ params }) => {
 			Copy: Copy.default,
 			slug,
 			topic_info,
+			related_scenarios: scenarios_for_topic(slug),
 		};
 	} catch (e) {
 		error(404, `Documentation for "${slug}" not found`);
@@ -59,10 +59,9 @@ describe('Docs Search Action', () => {
 		expect(failure_response.status).toBe(400);
 	});
 
-	it('should respect filter parameter', async () => {
+	it('should apply qualifiers in the query', async () => {
 		const form_data = new FormData();
-		form_data.append('q', 'svelte');
-		form_data.append('filter', 'docs');
+		form_data.append('q', 'svelte type:docs');
 
 		const response = await actions.search({
 			request: new Request('http://localhost', {
@@ -73,9 +72,33 @@ describe('Docs Search Action', () => {
 
 		const success_response = response as {
 			success: boolean;
-			filter: string;
+			results: { type: string; category: string }[];
 		};
 		expect(success_response.success).toBe(true);
-		expect(success_response.filter).toBe('docs');
+		for (const result of success_response.results) {
+			expect(
+				result.type === 'topic' ||
+					['Documentation', 'Quick Start'].includes(result.category),
+			).toBe(true);
+		}
+	});
+
+	it('should reject malformed queries', async () => {
+		const form_data = new FormData();
+		form_data.append('q', 'svelte "unclosed');
+
+		const response = await actions.search({
+			request: new Request('http://localhost', {
+				method: 'POST',
+				body: form_data,
+			}),
+		} as any);
+
+		const failure_response = response as ActionFailure<{
+			error: string;
+			position: number;
+		}>;
+		expect(failure_response.status).toBe(400);
+		expect(failure_response.data.position).toBe(7);
 	});
 });
@@ -1,4 +1,4 @@
-import { generate_search_index } from '$lib/server/search-index';
+import { get_search_index } from '$lib/server/search-index';
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 
@@ -6,7 +6,7 @@ export const prerender = true;
 
 export const GET: RequestHandler = async () => {
 	try {
-		const search_index = await generate_search_index();
+		const search_index = await get_search_index();
 
 		return json(search_index, {
 			headers: {
@@ -28,6 +28,8 @@ const config = {
 	],
 	kit: {
 		adapter: adapter(),
+		// The CLI's copy of the search, for the parity test against ours
+		alias: { $cli: '../../packages/cli/src' },
 		experimental: { remoteFunctions: true },
 	},
 	compilerOptions: { experimental: { async: true } },
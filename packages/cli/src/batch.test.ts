@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { map_settled, run_batch } from './batch';
+
+function delay<T>(ms: number, value: T): Promise<T> {
+	return new Promise((resolve) =>
+		setTimeout(() => resolve(value), ms),
+	);
+}
+
+describe('map_settled', () => {
+	it('keeps the input order when tasks finish out of order', async () => {
+		const settled = await map_settled([30, 10, 20], (ms) =>
+			delay(ms, ms),
+		);
+
+		expect(
+			settled.map((s) => s.status === 'fulfilled' && s.value),
+		).toEqual([30, 10, 20]);
+	});
+
+	it('never runs more than the concurrency limit at once', async () => {
+		let active = 0;
+		let peak = 0;
+		await map_settled(
+			Array.from({ length: 10 }, (_, i) => i),
+			async () => {
+				active++;
+				peak = Math.max(peak, active);
+				await delay(5, null);
+				active--;
+			},
+			3,
+		);
+
+		expect(peak).toBe(3);
+	});
+});
+
+describe('run_batch', () => {
+	it('collects failures without dropping the other results', async () => {
+		const batch = await run_batch(
+			['a', 'missing', 'c'],
+			async (name) => {
+				if (name === 'missing')
+					throw new Error('HTTP error! status: 404');
+				return name.toUpperCase();
+			},
+		);
+
+		expect(batch.results).toEqual({ a: 'A', c: 'C' });
+		expect(Object.keys(batch.results)).toEqual(['a', 'c']);
+		expect(batch.errors).toEqual({
+			missing: 'HTTP error! status: 404',
+		});
+	});
+
+	it('runs a name asked for twice only once', async () => {
+		const calls: string[] = [];
+		let failed = false;
+		const batch = await run_batch(['a', 'b', 'a'], async (name) => {
+			calls.push(name);
+			if (name === 'a' && !failed) {
+				failed = true;
+				throw new Error('flaky');
+			}
+			return name.toUpperCase();
+		});
+
+		expect(calls).toEqual(['a', 'b']);
+		expect(batch.results).toEqual({ b: 'B' });
+		expect(batch.errors).toEqual({ a: 'flaky' });
+	});
+});
@@ -0,0 +1,69 @@
+export const DEFAULT_CONCURRENCY = 4;
+
+export interface BatchResult<T> {
+	// Keyed by the requested name, in request order
+	results: Record<string, T>;
+	// Error message for every name that failed
+	errors: Record<string, string>;
+}
+
+/**
+ * Run `task` for each item with at most `concurrency` in flight. The
+ * results keep the order of `items` no matter which finishes first,
+ * and a failure never stops the other items.
+ */
+export async function map_settled<T, R>(
+	items: T[],
+	task: (item: T) => Promise<R>,
+	concurrency = DEFAULT_CONCURRENCY,
+): Promise<PromiseSettledResult<R>[]> {
+	const settled: PromiseSettledResult<R>[] = [];
+	let next = 0;
+
+	async function worker() {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				settled[index] = {
+					status: 'fulfilled',
+					value: await task(items[index]),
+				};
+			} catch (reason) {
+				settled[index] = { status: 'rejected', reason };
+			}
+		}
+	}
+
+	await Promise.all(
+		Array.from(
+			{ length: Math.max(1, Math.min(concurrency, items.length)) },
+			worker,
+		),
+	);
+	return settled;
+}
+
+/**
+ * Run `task` once per distinct name, so a name asked for twice is
+ * fetched once and has one entry in the results or the errors.
+ */
+export async function run_batch<R>(
+	requested: string[],
+	task: (name: string) => Promise<R>,
+	concurrency?: number,
+): Promise<BatchResult<R>> {
+	const names = [...new Set(requested)];
+	const settled = await map_settled(names, task, concurrency);
+	const batch: BatchResult<R> = { results: {}, errors: {} };
+	settled.forEach((outcome, index) => {
+		if (outcome.status === 'fulfilled') {
+			batch.results[names[index]] = outcome.value;
+		} else {
+			batch.errors[names[index]] =
+				outcome.reason instanceof Error
+					? outcome.reason.message
+					: String(outcome.reason);
+		}
+	});
+	return batch;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+	estimate_tokens,
+	fit_documents,
+	fit_example,
+	omission_footer,
+	parse_max_tokens,
+} from './budget';
+
+const doc = [
+	'# Forms',
+	'',
+	'Intro prose about forms.',
+	'',
+	'## Validation',
+	'',
+	'Validate on blur.',
+	'',
+	'```ts',
+	"await input.fill('x');",
+	'await expect.element(error).toBeVisible();',
+	'```',
+	'',
+	'## Submission',
+	'',
+	'Submit with the button.',
+	'',
+].join('\n');
+
+describe('estimate_tokens', () => {
+	it('counts about four characters per token', () => {
+		expect(estimate_tokens('')).toBe(0);
+		expect(estimate_tokens('abcd')).toBe(1);
+		expect(estimate_tokens('abcde')).toBe(2);
+	});
+});
+
+describe('parse_max_tokens', () => {
+	it('accepts positive whole numbers only', () => {
+		expect(parse_max_tokens(undefined)).toBeUndefined();
+		expect(parse_max_tokens('2000')).toBe(2000);
+		expect(() => parse_max_tokens('0')).toThrow('--max-tokens');
+		expect(() => parse_max_tokens('1e3x')).toThrow('--max-tokens');
+	});
+});
+
+describe('fit_documents', () => {
+	it('leaves documents within budget untouched', () => {
+		const fitted = fit_documents(
+			[{ name: 'forms', text: doc }],
+			1000,
+		);
+
+		expect(fitted.texts).toEqual([doc]);
+		expect(fitted.omitted).toEqual([]);
+	});
+
+	it('drops code examples before prose', () => {
+		const long = doc.replace(
+			"await input.fill('x');",
+			"await input.fill('x');\n".repeat(30),
+		);
+		const budget = estimate_tokens(long) - 100;
+		const fitted = fit_documents(
+			[{ name: 'forms', text: long }],
+			budget,
+		);
+
+		expect(fitted.texts[0]).not.toContain('```');
+		expect(fitted.texts[0]).toContain('Validate on blur.');
+		expect(fitted.omitted).toEqual([
+			'forms › Validation: code examples',
+		]);
+	});
+
+	it('keeps every document title when nearly everything goes', () => {
+		const fitted = fit_documents(
+			[
+				{ name: 'forms', text: doc },
+				{ name: 'modals', text: '# Modals\n\nOpen and close.\n' },
+			],
+			20,
+		);
+
+		expect(fitted.texts[0]).toMatch(/^# Forms\n/);
+		expect(fitted.texts[1]).toMatch(/^# Modals\n/);
+		expect(fitted.texts.join('')).not.toContain('Intro prose');
+	});
+
+	it('keeps headings inside code fences as code', () => {
+		const text = '# Title\n\n```md\n# not a heading\n```\n';
+		const fitted = fit_documents([{ name: 'a', text }], 3);
+
+		expect(fitted.texts[0]).toBe('# Title\n\n');
+	});
+});
+
+describe('omission_footer', () => {
+	it('lists what was left out', () => {
+		expect(omission_footer(['a › b: prose'], 500)).toBe(
+			'\n---\nOmitted to fit 500 tokens:\n- a › b: prose\nRun without --max-tokens for the full text.\n',
+		);
+		expect(omission_footer([], 500)).toBe('');
+	});
+});
+
+describe('fit_example', () => {
+	const example = {
+		title: 'Button Variants',
+		description: 'Buttons',
+		testing_patterns: { example: 'one\ntwo\nthree', rule: 'await' },
+		test_scenarios: ['primary', 'secondary'],
+		_related: ['modal-states'],
+	};
+
+	it('drops code, then sections from the end, and lists them', () => {
+		const fitted = fit_example(example, 60);
+
+		expect(fitted).toMatchObject({
+			title: 'Button Variants',
+			_related: ['modal-states'],
+		});
+		expect(fitted._omitted).toContain(
+			'testing_patterns.example (code)',
+		);
+		expect(
+			JSON.stringify(fitted, null, 2).length / 4,
+		).toBeLessThanOrEqual(60);
+	});
+
+	it('returns the example unchanged when it fits', () => {
+		expect(fit_example(example, 1000)).toEqual(example);
+	});
+});
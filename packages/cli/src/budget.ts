@@ -0,0 +1,272 @@
+import { SveltestError } from './errors';
+
+// Rough but stable across models: English prose and code average
+// about four characters per token
+const CHARS_PER_TOKEN = 4;
+
+// Footer lines beyond this are summarised as a count
+const MAX_FOOTER_ENTRIES = 20;
+
+export function estimate_tokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function parse_max_tokens(
+	value: string | undefined,
+): number | undefined {
+	if (value === undefined) return undefined;
+	const tokens = Number(value);
+	if (!Number.isInteger(tokens) || tokens <= 0) {
+		throw new SveltestError(
+			'usage',
+			`--max-tokens must be a positive whole number, got '${value}'`,
+		);
+	}
+	return tokens;
+}
+
+type BlockKind = 'heading' | 'prose' | 'code';
+
+interface Block {
+	kind: BlockKind;
+	// Heading depth; 0 for prose and code
+	level: number;
+	// The block's lines including trailing blank lines, so joining
+	// every block reproduces the document
+	text: string;
+	document: string;
+	section: string;
+	dropped: boolean;
+}
+
+export interface Document {
+	// Topic slug or file name, used in the omission footer
+	name: string;
+	text: string;
+}
+
+export interface FittedDocuments {
+	texts: string[];
+	// `document › section: what` lines for the footer
+	omitted: string[];
+}
+
+function parse_blocks(document: Document): Block[] {
+	const blocks: Block[] = [];
+	let section = '(intro)';
+	let fence: string | null = null;
+	let current: Block | undefined;
+
+	const start = (kind: BlockKind, text: string, level = 0) => {
+		const block: Block = {
+			kind,
+			level,
+			text,
+			document: document.name,
+			section,
+			dropped: false,
+		};
+		blocks.push(block);
+		return block;
+	};
+
+	for (const line of document.text.split(/(?<=\n)/)) {
+		const trimmed = line.trimEnd();
+		const fence_open = trimmed.match(/^\s*(`{3,}|~{3,})/);
+		const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+
+		if (fence && current) {
+			current.text += line;
+			if (trimmed.trimStart().startsWith(fence)) fence = null;
+		} else if (fence_open) {
+			fence = fence_open[1];
+			current = start('code', line);
+		} else if (heading) {
+			section = heading[2].trim();
+			current = start('heading', line, heading[1].length);
+		} else if (
+			current &&
+			(trimmed === '' ||
+				(current.kind === 'prose' && !current.text.endsWith('\n\n')))
+		) {
+			current.text += line;
+		} else {
+			current = start('prose', line);
+		}
+	}
+	return blocks;
+}
+
+// Code goes first, then prose, then subheadings; the later a block
+// appears the sooner it goes. Top-level headings always stay.
+function drop_order(blocks: Block[]): Block[] {
+	const rank = (block: Block) =>
+		block.kind === 'code' ? 0 : block.kind === 'prose' ? 1 : 2;
+	return blocks
+		.map((block, index) => ({ block, index }))
+		.filter(
+			({ block }) => !(block.kind === 'heading' && block.level === 1),
+		)
+		.sort(
+			(a, b) => rank(a.block) - rank(b.block) || b.index - a.index,
+		)
+		.map(({ block }) => block);
+}
+
+function describe_omissions(blocks: Block[]): string[] {
+	const sections = new Map<string, Set<string>>();
+	for (const block of blocks) {
+		if (!block.dropped) continue;
+		const key = `${block.document} › ${block.section}`;
+		const kinds = sections.get(key) ?? new Set<string>();
+		kinds.add(
+			block.kind === 'code'
+				? 'code examples'
+				: block.kind === 'prose'
+					? 'prose'
+					: 'heading',
+		);
+		sections.set(key, kinds);
+	}
+	const lines = [...sections].map(
+		([key, kinds]) => `${key}: ${[...kinds].join(', ')}`,
+	);
+	return lines.length > MAX_FOOTER_ENTRIES
+		? [
+				...lines.slice(0, MAX_FOOTER_ENTRIES),
+				`...and ${lines.length - MAX_FOOTER_ENTRIES} more sections`,
+			]
+		: lines;
+}
+
+export function omission_footer(
+	omitted: string[],
+	max_tokens: number,
+): string {
+	if (omitted.length === 0) return '';
+	return [
+		'',
+		'---',
+		`Omitted to fit ${max_tokens} tokens:`,
+		...omitted.map((line) => `- ${line}`),
+		'Run without --max-tokens for the full text.',
+		'',
+	].join('\n');
+}
+
+/**
+ * Trim markdown documents to roughly `max_tokens` by dropping whole
+ * blocks: code examples first, then prose, then subheadings, working
+ * back from the end. Each document keeps its title, so the reader
+ * still sees every requested topic. `reserved` covers text the caller
+ * adds around the documents, such as the context header.
+ */
+export function fit_documents(
+	documents: Document[],
+	max_tokens: number,
+	reserved = 0,
+): FittedDocuments {
+	const parsed = documents.map(parse_blocks);
+	const blocks = parsed.flat();
+	let total =
+		reserved +
+		blocks.reduce(
+			(sum, block) => sum + estimate_tokens(block.text),
+			0,
+		);
+
+	let omitted: string[] = [];
+	for (const block of drop_order(blocks)) {
+		const footer = estimate_tokens(
+			omission_footer(omitted, max_tokens),
+		);
+		if (total + footer <= max_tokens) break;
+		block.dropped = true;
+		total -= estimate_tokens(block.text);
+		omitted = describe_omissions(blocks);
+	}
+
+	return {
+		texts: parsed.map((document) =>
+			document
+				.filter((block) => !block.dropped)
+				.map((block) => block.text)
+				.join(''),
+		),
+		omitted,
+	};
+}
+
+// Always kept: what the example is and where it came from
+const KEPT_KEYS = new Set([
+	'title',
+	'description',
+	'_meta',
+	'_related',
+]);
+
+function json_tokens(data: unknown): number {
+	return estimate_tokens(JSON.stringify(data, null, 2));
+}
+
+// Paths to multi-line strings, the code samples of an example
+function code_paths(value: unknown, path: string[] = []): string[][] {
+	if (typeof value === 'string') {
+		return value.includes('\n') ? [path] : [];
+	}
+	if (value === null || typeof value !== 'object') return [];
+	// Strings inside arrays go with their section; deleting them would
+	// leave holes
+	return Object.entries(value).flatMap(([key, child]) =>
+		Array.isArray(value) && typeof child === 'string'
+			? []
+			: code_paths(child, [...path, key]),
+	);
+}
+
+function delete_path(data: Record<string, unknown>, path: string[]) {
+	let parent = data;
+	for (const key of path.slice(0, -1)) {
+		parent = parent[key] as Record<string, unknown>;
+	}
+	delete parent[path[path.length - 1]];
+}
+
+/**
+ * Trim an example response to roughly `max_tokens`: code samples go
+ * first, then whole sections from the last one back. What was removed
+ * is listed under `_omitted`.
+ */
+export function fit_example(
+	data: Record<string, unknown>,
+	max_tokens: number,
+): Record<string, unknown> {
+	const fitted = structuredClone(data);
+	const omitted: string[] = [];
+	const fits = () =>
+		json_tokens(
+			omitted.length > 0 ? { ...fitted, _omitted: omitted } : fitted,
+		) <= max_tokens;
+
+	const sections = Object.keys(fitted).filter(
+		(key) => !KEPT_KEYS.has(key),
+	);
+	const code = sections.flatMap((key) =>
+		code_paths(fitted[key], [key]),
+	);
+
+	for (const path of code.reverse()) {
+		if (fits()) break;
+		delete_path(fitted, path);
+		omitted.push(`${path.join('.')} (code)`);
+	}
+	for (const key of sections.reverse()) {
+		if (fits()) break;
+		delete fitted[key];
+		omitted.push(key);
+	}
+
+	return omitted.length > 0
+		? { ...fitted, _omitted: omitted }
+		: fitted;
+}
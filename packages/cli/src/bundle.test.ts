@@ -0,0 +1,128 @@
+import {
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import {
+	BUNDLE_FORMAT_VERSION,
+	bundle_path_for,
+	configure_bundle,
+	get_bundle_dir,
+	read_bundle_text,
+} from './bundle';
+
+describe('bundle_path_for', () => {
+	it.each([
+		['https://sveltest.dev/api/examples', 'api/examples/index.json'],
+		[
+			'https://sveltest.dev/api/examples/button-variants',
+			'api/examples/button-variants.json',
+		],
+		['https://sveltest.dev/api/docs', 'api/docs/index.json'],
+		[
+			'https://sveltest.dev/api/docs/troubleshooting',
+			'api/docs/troubleshooting.md',
+		],
+		[
+			'https://sveltest.dev/api/docs/troubleshooting?format=json',
+			'api/docs/troubleshooting.json',
+		],
+		['https://sveltest.dev/llms-full.txt', 'llms-full.txt'],
+		['https://sveltest.dev/search-index.json', 'search-index.json'],
+	])('maps %s to %s', (url, path) => {
+		expect(bundle_path_for(url)).toBe(path);
+	});
+});
+
+describe('get_bundle_dir', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'sveltest-bundle-'));
+	});
+
+	afterEach(() => {
+		configure_bundle(null);
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	function write_manifest(format_version = BUNDLE_FORMAT_VERSION) {
+		writeFileSync(
+			join(dir, 'manifest.json'),
+			JSON.stringify({
+				format_version,
+				source: 'https://sveltest.dev',
+				cli_version: '0.0.8',
+				created_at: new Date().toISOString(),
+				scenarios: [],
+				topics: [],
+			}),
+		);
+	}
+
+	it('returns null when no bundle is configured', () => {
+		configure_bundle(null);
+		expect(get_bundle_dir()).toBeNull();
+	});
+
+	it('reads files from a bundle directory', () => {
+		write_manifest();
+		mkdirSync(join(dir, 'api', 'docs'), { recursive: true });
+		writeFileSync(join(dir, 'api', 'docs', 'ci-cd.md'), '# CI/CD');
+
+		configure_bundle(dir);
+		const bundle = get_bundle_dir()!;
+
+		expect(
+			read_bundle_text(bundle, 'https://sveltest.dev/api/docs/ci-cd'),
+		).toBe('# CI/CD');
+		expect(() =>
+			read_bundle_text(bundle, 'https://sveltest.dev/llms.txt'),
+		).toThrow('llms.txt');
+	});
+
+	it('rejects directories without a manifest', () => {
+		configure_bundle(dir);
+		expect(() => get_bundle_dir()).toThrow('no manifest');
+	});
+
+	it('leaves nothing behind when an archive fails to extract', () => {
+		const archive = join(dir, 'broken.tar.gz');
+		writeFileSync(archive, 'not a tarball');
+		vi.stubEnv('XDG_CACHE_HOME', join(dir, 'cache'));
+		configure_bundle(archive);
+
+		try {
+			expect(() => get_bundle_dir()).toThrow(
+				'Could not extract bundle',
+			);
+			// Retried rather than mistaken for an extracted bundle
+			expect(() => get_bundle_dir()).toThrow(
+				'Could not extract bundle',
+			);
+			expect(
+				readdirSync(join(dir, 'cache', 'sveltest', 'bundles')),
+			).toEqual([]);
+		} finally {
+			vi.unstubAllEnvs();
+		}
+	});
+
+	it('rejects bundles from a newer format', () => {
+		write_manifest(BUNDLE_FORMAT_VERSION + 1);
+		configure_bundle(dir);
+		expect(() => get_bundle_dir()).toThrow('Update sveltest');
+	});
+});
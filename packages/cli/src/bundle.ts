@@ -0,0 +1,161 @@
+import { spawnSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	rmSync,
+	statSync,
+} from 'node:fs';
+import { join, resolve } from 'node:path';
+import { get_cache_dir } from './cache';
+import { get_site_base } from './config';
+import { SveltestError } from './errors';
+
+export const BUNDLE_FORMAT_VERSION = 1;
+
+export interface BundleManifest {
+	format_version: number;
+	source: string;
+	cli_version: string;
+	created_at: string;
+	scenarios: string[];
+	topics: string[];
+}
+
+let bundle_path: string | null = process.env.SVELTEST_BUNDLE || null;
+let bundle_dir: string | null = null;
+
+export function configure_bundle(path: string | null | undefined) {
+	if (path === undefined) return;
+	bundle_path = path;
+	bundle_dir = null;
+}
+
+/**
+ * Map an API or site URL to its file inside a snapshot. Index
+ * endpoints become `index.json` so they can sit next to the
+ * per-item files. URLs are taken relative to the site base so
+ * snapshots of a mirror hosted under a sub-path still line up.
+ */
+export function bundle_path_for(
+	url: string,
+	site_base = get_site_base(),
+): string {
+	const relative = url.startsWith(`${site_base}/`)
+		? url.slice(site_base.length)
+		: url.replace(/^[a-z]+:\/\/[^/]+/i, '');
+	const [pathname, search = ''] = relative.split('?');
+	const searchParams = new URLSearchParams(search);
+	const path = pathname.replace(/^\/+/, '');
+
+	if (path === 'api/examples' || path === 'api/docs') {
+		return `${path}/index.json`;
+	}
+	if (path.startsWith('api/examples/')) {
+		return `${path}.json`;
+	}
+	if (path.startsWith('api/docs/')) {
+		return searchParams.get('format') === 'json'
+			? `${path}.json`
+			: `${path}.md`;
+	}
+	return path;
+}
+
+function extract_archive(archive: string): string {
+	const stat = statSync(archive);
+	const key = createHash('sha256')
+		.update(`${archive}:${stat.size}:${stat.mtimeMs}`)
+		.digest('hex')
+		.slice(0, 16);
+	const target = join(get_cache_dir(), 'bundles', key);
+
+	// Extracted next to the target and renamed into place, so a failed
+	// extraction never leaves a half-filled directory that later runs
+	// would take for a finished one
+	if (!existsSync(target)) {
+		const partial = `${target}.${process.pid}.partial`;
+		mkdirSync(partial, { recursive: true });
+		const result = spawnSync('tar', ['-xzf', archive, '-C', partial]);
+		if (result.status !== 0) {
+			rmSync(partial, { recursive: true, force: true });
+			throw new SveltestError(
+				'usage',
+				`Could not extract bundle ${archive}: ${result.stderr?.toString().trim() || 'tar failed'}`,
+			);
+		}
+		try {
+			renameSync(partial, target);
+		} catch (error) {
+			rmSync(partial, { recursive: true, force: true });
+			// Another process extracted the same archive first
+			if (!existsSync(target)) throw error;
+		}
+	}
+
+	if (existsSync(join(target, 'manifest.json'))) return target;
+	const nested = readdirSync(target).find((entry) =>
+		existsSync(join(target, entry, 'manifest.json')),
+	);
+	if (!nested) {
+		throw new SveltestError(
+			'usage',
+			`${archive} does not contain a sveltest bundle`,
+		);
+	}
+	return join(target, nested);
+}
+
+/**
+ * Resolve the active bundle to a directory, extracting `.tar.gz`
+ * archives into the cache on first use. Returns null when commands
+ * should go to the network.
+ */
+export function get_bundle_dir(): string | null {
+	if (!bundle_path) return null;
+	if (bundle_dir) return bundle_dir;
+
+	const path = resolve(bundle_path);
+	if (!existsSync(path)) {
+		throw new SveltestError('usage', `Bundle not found: ${path}`);
+	}
+	const dir = statSync(path).isDirectory()
+		? path
+		: extract_archive(path);
+
+	const manifest = read_manifest(dir);
+	if (manifest.format_version > BUNDLE_FORMAT_VERSION) {
+		throw new SveltestError(
+			'incompatible',
+			`Bundle format ${manifest.format_version} is newer than this CLI supports (${BUNDLE_FORMAT_VERSION}). Update sveltest.`,
+		);
+	}
+	bundle_dir = dir;
+	return dir;
+}
+
+export function read_manifest(dir: string): BundleManifest {
+	const path = join(dir, 'manifest.json');
+	if (!existsSync(path)) {
+		throw new SveltestError(
+			'usage',
+			`${dir} is not a sveltest bundle (no manifest)`,
+		);
+	}
+	return JSON.parse(readFileSync(path, 'utf-8')) as BundleManifest;
+}
+
+export function read_bundle_text(dir: string, url: string): string {
+	const relative = bundle_path_for(url);
+	const path = join(dir, relative);
+	if (!existsSync(path)) {
+		throw new SveltestError(
+			'not_found',
+			`'${relative}' is not in bundle ${dir}`,
+		);
+	}
+	return readFileSync(path, 'utf-8');
+}
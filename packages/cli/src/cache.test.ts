@@ -0,0 +1,100 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+	cache_info,
+	clear_cache,
+	configure_cache,
+	get_cache_dir,
+	is_fresh,
+	read_cache_entry,
+	write_cache_entry,
+} from './cache';
+
+describe('cache', () => {
+	let cache_home: string;
+	const original_xdg = process.env.XDG_CACHE_HOME;
+
+	beforeEach(() => {
+		cache_home = mkdtempSync(join(tmpdir(), 'sveltest-cache-'));
+		process.env.XDG_CACHE_HOME = cache_home;
+		configure_cache({ offline: false, ttl_seconds: 3600 });
+	});
+
+	afterEach(() => {
+		rmSync(cache_home, { recursive: true, force: true });
+		if (original_xdg === undefined) {
+			delete process.env.XDG_CACHE_HOME;
+		} else {
+			process.env.XDG_CACHE_HOME = original_xdg;
+		}
+	});
+
+	it('stores entries under the XDG cache directory', () => {
+		expect(get_cache_dir()).toBe(join(cache_home, 'sveltest'));
+	});
+
+	it('round-trips an entry by url', () => {
+		const entry = {
+			url: 'https://sveltest.dev/api/examples',
+			etag: '"abc"',
+			fetched_at: Date.now(),
+			body: '{"scenarios":[]}',
+		};
+		write_cache_entry(entry);
+
+		expect(read_cache_entry(entry.url)).toEqual(entry);
+		expect(read_cache_entry('https://sveltest.dev/other')).toBeNull();
+	});
+
+	it('treats entries older than the ttl as stale', () => {
+		const now = Date.now();
+		const entry = {
+			url: 'https://sveltest.dev/llms.txt',
+			etag: null,
+			fetched_at: now - 10_000,
+			body: '',
+		};
+
+		configure_cache({ ttl_seconds: 60 });
+		expect(is_fresh(entry, now)).toBe(true);
+
+		configure_cache({ ttl_seconds: 5 });
+		expect(is_fresh(entry, now)).toBe(false);
+	});
+
+	it('reports and clears cached entries', () => {
+		write_cache_entry({
+			url: 'https://sveltest.dev/a',
+			etag: null,
+			fetched_at: 1000,
+			body: 'a',
+		});
+		write_cache_entry({
+			url: 'https://sveltest.dev/b',
+			etag: null,
+			fetched_at: 2000,
+			body: 'b',
+		});
+
+		const info = cache_info();
+		expect(info.entries).toBe(2);
+		expect(info.size_bytes).toBeGreaterThan(0);
+		expect(info.oldest).toBe(new Date(1000).toISOString());
+		expect(info.newest).toBe(new Date(2000).toISOString());
+
+		expect(clear_cache()).toBe(2);
+		expect(cache_info().entries).toBe(0);
+	});
+
+	it('reports an empty cache when the directory is missing', () => {
+		expect(clear_cache()).toBe(0);
+		expect(cache_info()).toMatchObject({
+			entries: 0,
+			size_bytes: 0,
+			oldest: null,
+			newest: null,
+		});
+	});
+});
@@ -0,0 +1,138 @@
+import { createHash } from 'node:crypto';
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	rmSync,
+	statSync,
+	writeFileSync,
+} from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+export interface CacheEntry {
+	url: string;
+	etag: string | null;
+	fetched_at: number;
+	body: string;
+}
+
+export interface CacheOptions {
+	offline: boolean;
+	ttl_seconds: number;
+}
+
+export interface CacheInfo {
+	dir: string;
+	entries: number;
+	size_bytes: number;
+	oldest: string | null;
+	newest: string | null;
+}
+
+const cache_options: CacheOptions = {
+	offline: process.env.SVELTEST_OFFLINE === '1',
+	ttl_seconds: parse_ttl(process.env.SVELTEST_CACHE_TTL),
+};
+
+function parse_ttl(value: string | undefined): number {
+	const ttl = Number(value);
+	return value && Number.isFinite(ttl) && ttl >= 0
+		? ttl
+		: DEFAULT_TTL_SECONDS;
+}
+
+export function configure_cache(options: Partial<CacheOptions>) {
+	if (options.offline !== undefined) {
+		cache_options.offline = options.offline;
+	}
+	if (options.ttl_seconds !== undefined) {
+		cache_options.ttl_seconds = options.ttl_seconds;
+	}
+}
+
+export function get_cache_options(): CacheOptions {
+	return { ...cache_options };
+}
+
+// Follows the XDG base directory spec, falling back to ~/.cache
+export function get_cache_dir(): string {
+	const base =
+		process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+	return join(base, 'sveltest');
+}
+
+function entry_path(url: string): string {
+	const key = createHash('sha256').update(url).digest('hex');
+	return join(get_cache_dir(), `${key}.json`);
+}
+
+export function read_cache_entry(url: string): CacheEntry | null {
+	try {
+		const entry = JSON.parse(
+			readFileSync(entry_path(url), 'utf-8'),
+		) as CacheEntry;
+		return entry.url === url ? entry : null;
+	} catch {
+		return null;
+	}
+}
+
+export function write_cache_entry(entry: CacheEntry) {
+	try {
+		mkdirSync(get_cache_dir(), { recursive: true });
+		writeFileSync(entry_path(entry.url), JSON.stringify(entry));
+	} catch {
+		// A read-only or full disk should never break a command
+	}
+}
+
+export function is_fresh(entry: CacheEntry, now = Date.now()) {
+	return now - entry.fetched_at < cache_options.ttl_seconds * 1000;
+}
+
+export function clear_cache(): number {
+	const dir = get_cache_dir();
+	if (!existsSync(dir)) return 0;
+	const files = readdirSync(dir).filter((f) => f.endsWith('.json'));
+	rmSync(dir, { recursive: true, force: true });
+	return files.length;
+}
+
+export function cache_info(): CacheInfo {
+	const dir = get_cache_dir();
+	const info: CacheInfo = {
+		dir,
+		entries: 0,
+		size_bytes: 0,
+		oldest: null,
+		newest: null,
+	};
+	if (!existsSync(dir)) return info;
+
+	let oldest = Infinity;
+	let newest = -Infinity;
+	for (const file of readdirSync(dir)) {
+		if (!file.endsWith('.json')) continue;
+		const path = join(dir, file);
+		info.entries++;
+		info.size_bytes += statSync(path).size;
+		try {
+			const entry = JSON.parse(
+				readFileSync(path, 'utf-8'),
+			) as CacheEntry;
+			oldest = Math.min(oldest, entry.fetched_at);
+			newest = Math.max(newest, entry.fetched_at);
+		} catch {
+			// Ignore corrupt entries, they are overwritten on next fetch
+		}
+	}
+	if (Number.isFinite(oldest)) {
+		info.oldest = new Date(oldest).toISOString();
+		info.newest = new Date(newest).toISOString();
+	}
+	return info;
+}
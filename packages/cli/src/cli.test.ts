@@ -0,0 +1,728 @@
+import { execFile } from 'node:child_process';
+import {
+	mkdirSync,
+	mkdtempSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+
+const CLI_PATH = join(import.meta.dirname, '..', 'dist', 'cli.js');
+
+interface CliResult {
+	stdout: string;
+	stderr: string;
+	code: number | null;
+}
+
+function run_cli_in(
+	cwd: string,
+	...args: string[]
+): Promise<CliResult> {
+	return new Promise((resolve) => {
+		execFile(
+			'node',
+			[CLI_PATH, ...args],
+			{ cwd },
+			(error, stdout, stderr) => {
+				resolve({
+					stdout,
+					stderr,
+					code: error ? Number(error.code ?? 1) : 0,
+				});
+			},
+		);
+	});
+}
+
+function run_cli(...args: string[]): Promise<CliResult> {
+	return run_cli_in(process.cwd(), ...args);
+}
+
+// Citty writes help/usage to stderr and exits with code 1
+// when no subcommand is given or --help is used
+function get_output(result: CliResult): string {
+	return result.stdout + result.stderr;
+}
+
+describe('sveltest CLI', () => {
+	describe('help output', () => {
+		it('shows help with no args', async () => {
+			const result = await run_cli();
+			const output = get_output(result);
+			expect(output).toContain('sveltest');
+			expect(output).toContain('USAGE');
+			expect(output).toContain('COMMANDS');
+		});
+
+		it('shows help with --help flag', async () => {
+			const result = await run_cli('--help');
+			const output = get_output(result);
+			expect(output).toContain('sveltest');
+			expect(output).toContain('COMMANDS');
+		});
+
+		it('lists all subcommands in help', async () => {
+			const result = await run_cli('--help');
+			const output = get_output(result);
+			expect(output).toContain('llms');
+			expect(output).toContain('docs');
+			expect(output).toContain('list');
+			expect(output).toContain('get');
+			expect(output).toContain('search');
+			expect(output).toContain('cache');
+			expect(output).toContain('mirror');
+			expect(output).toContain('config');
+			expect(output).toContain('mcp');
+			expect(output).toContain('init');
+			expect(output).toContain('context');
+			expect(output).toContain('troubleshoot');
+			expect(output).toContain('related');
+			expect(output).toContain('self-check');
+			expect(output).toContain('completions');
+			expect(output).not.toContain('__complete');
+		});
+
+		it('shows subcommand help for llms', async () => {
+			const result = await run_cli('llms', '--help');
+			const output = get_output(result);
+			expect(output).toContain('--full');
+			expect(output).toContain('--context');
+		});
+
+		it('shows subcommand help for docs', async () => {
+			const result = await run_cli('docs', '--help');
+			const output = get_output(result);
+			expect(output).toContain('TOPIC');
+			expect(output).toContain('--json');
+			expect(output).toContain('--context');
+		});
+
+		it('shows subcommand help for get', async () => {
+			const result = await run_cli('get', '--help');
+			const output = get_output(result);
+			expect(output).toContain('SCENARIO');
+			expect(output).toContain('--json');
+			expect(output).toContain('--compact');
+			expect(output).toContain('--filter');
+			expect(output).toContain('--sections');
+			expect(output).toContain('--plain');
+		});
+
+		it('shows subcommand help for search', async () => {
+			const result = await run_cli('search', '--help');
+			const output = get_output(result);
+			expect(output).toContain('QUERY');
+			expect(output).toContain('--filter');
+		});
+
+		it('shows subcommand help for list', async () => {
+			const result = await run_cli('list', '--help');
+			const output = get_output(result);
+			expect(output).toContain('--plain');
+		});
+
+		it('shows --offline on network commands', async () => {
+			for (const command of [
+				'llms',
+				'docs',
+				'list',
+				'get',
+				'search',
+			]) {
+				const result = await run_cli(command, '--help');
+				expect(get_output(result)).toContain('--offline');
+			}
+		});
+
+		it('shows --bundle on network commands', async () => {
+			for (const command of [
+				'llms',
+				'docs',
+				'list',
+				'get',
+				'search',
+			]) {
+				const result = await run_cli(command, '--help');
+				expect(get_output(result)).toContain('--bundle');
+			}
+		});
+
+		it('shows --api-base on network commands', async () => {
+			for (const command of [
+				'llms',
+				'docs',
+				'list',
+				'get',
+				'search',
+			]) {
+				const result = await run_cli(command, '--help');
+				expect(get_output(result)).toContain('--api-base');
+			}
+		});
+
+		it('shows --format on every output command', async () => {
+			for (const command of [
+				'llms',
+				'docs',
+				'list',
+				'get',
+				'search',
+				'doctor',
+				'config',
+			]) {
+				const result = await run_cli(command, '--help');
+				expect(get_output(result)).toContain('--format');
+			}
+		});
+
+		it('shows --section and --outline on docs', async () => {
+			const output = get_output(await run_cli('docs', '--help'));
+			expect(output).toContain('--section');
+			expect(output).toContain('--outline');
+		});
+
+		it('shows --max-tokens on llms, docs and get', async () => {
+			for (const command of ['llms', 'docs', 'get']) {
+				const result = await run_cli(command, '--help');
+				expect(get_output(result)).toContain('--max-tokens');
+			}
+		});
+
+		it('shows subcommand help for mirror', async () => {
+			const result = await run_cli('mirror', '--help');
+			const output = get_output(result);
+			expect(output).toContain('--out');
+			expect(output).toContain('--archive');
+			expect(output).toContain('--api-base');
+		});
+
+		it('shows subcommand help for init', async () => {
+			const result = await run_cli('init', '--help');
+			const output = get_output(result);
+			expect(output).toContain('--yes');
+			expect(output).toContain('--dry-run');
+		});
+
+		it('shows subcommand help for generate', async () => {
+			const result = await run_cli('generate', '--help');
+			const output = get_output(result);
+			expect(output).toContain('COMPONENT');
+			expect(output).toContain('--ssr');
+			expect(output).toContain('--force');
+		});
+
+		it('shows subcommand help for migrate', async () => {
+			const result = await run_cli('migrate', '--help');
+			const output = get_output(result);
+			expect(output).toContain('PATH');
+			expect(output).toContain('--dry-run');
+		});
+
+		it('shows subcommand help for cache', async () => {
+			const result = await run_cli('cache', '--help');
+			const output = get_output(result);
+			expect(output).toContain('clear');
+			expect(output).toContain('info');
+		});
+	});
+
+	describe('version output', () => {
+		it('prints version with --version', async () => {
+			const result = await run_cli('--version');
+			expect(result.stdout.trim()).toMatch(/^\d+\.\d+\.\d+$/);
+		});
+	});
+
+	describe('config output', () => {
+		it('resolves --api-base and derives the site base', async () => {
+			const result = await run_cli(
+				'config',
+				'--api-base',
+				'http://localhost:4173/api',
+			);
+			const config = JSON.parse(result.stdout);
+			expect(config.api_base).toBe('http://localhost:4173/api');
+			expect(config.site_base).toBe('http://localhost:4173');
+		});
+
+		it('reports an invalid config file in one line', async () => {
+			const project = mkdtempSync(join(tmpdir(), 'sveltest-rc-'));
+			writeFileSync(join(project, '.sveltestrc'), '[]');
+
+			try {
+				const result = await run_cli_in(project, 'config');
+				expect(result.code).toBe(1);
+				expect(result.stderr.trim()).toBe(
+					`Error: Invalid config file ${join(project, '.sveltestrc')}: expected an object`,
+				);
+			} finally {
+				rmSync(project, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('batch output', () => {
+		it('reports partial failures in _errors and exits 1', async () => {
+			const bundle = mkdtempSync(join(tmpdir(), 'sveltest-batch-'));
+			mkdirSync(join(bundle, 'api', 'examples'), { recursive: true });
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			writeFileSync(
+				join(bundle, 'api', 'examples', 'button-variants.json'),
+				JSON.stringify({ title: 'Button Variants' }),
+			);
+
+			try {
+				const result = await run_cli(
+					'get',
+					'missing,button-variants',
+					'--bundle',
+					bundle,
+				);
+				const output = JSON.parse(result.stdout);
+
+				expect(result.code).toBe(1);
+				expect(Object.keys(output)).toEqual([
+					'button-variants',
+					'_errors',
+					'_meta',
+				]);
+				expect(output._errors.missing).toBe(
+					"Unknown scenario 'missing'.",
+				);
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('unknown names', () => {
+		it('suggests close names and exits 2', async () => {
+			const bundle = mkdtempSync(join(tmpdir(), 'sveltest-suggest-'));
+			mkdirSync(join(bundle, 'api', 'examples'), { recursive: true });
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			writeFileSync(
+				join(bundle, 'api', 'examples', 'index.json'),
+				JSON.stringify({
+					scenarios: [{ endpoint: '/api/examples/modal-states' }],
+				}),
+			);
+
+			try {
+				const result = await run_cli(
+					'get',
+					'modal-stats',
+					'--bundle',
+					bundle,
+				);
+				expect(result.code).toBe(2);
+				expect(result.stderr.trim()).toBe(
+					"Error: Unknown scenario 'modal-stats'. Did you mean 'modal-states'?",
+				);
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('docs sections', () => {
+		it('prints an outline and a single section', async () => {
+			const bundle = mkdtempSync(join(tmpdir(), 'sveltest-section-'));
+			mkdirSync(join(bundle, 'api', 'docs'), { recursive: true });
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			const content =
+				'# Forms\n\n## Validation\n\nOn blur.\n\n## Submission\n\nClick.\n';
+			writeFileSync(join(bundle, 'api', 'docs', 'forms.md'), content);
+			writeFileSync(
+				join(bundle, 'api', 'docs', 'forms.json'),
+				JSON.stringify({ slug: 'forms', title: 'Forms', content }),
+			);
+
+			try {
+				const outline = await run_cli(
+					'docs',
+					'forms',
+					'--outline',
+					'--bundle',
+					bundle,
+				);
+				expect(outline.stdout).toBe(
+					'Forms  #forms\n  Validation  #validation\n  Submission  #submission\n',
+				);
+
+				const section = await run_cli(
+					'docs',
+					'forms',
+					'--section',
+					'valid',
+					'--bundle',
+					bundle,
+				);
+				expect(section.stdout).toBe('## Validation\n\nOn blur.\n');
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('context output', () => {
+		it('builds a context document with its manifest', async () => {
+			const bundle = mkdtempSync(join(tmpdir(), 'sveltest-context-'));
+			const project = join(bundle, 'project');
+			mkdirSync(join(bundle, 'api', 'docs'), { recursive: true });
+			mkdirSync(project);
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			writeFileSync(
+				join(bundle, 'api', 'docs', 'getting-started.md'),
+				'# Getting Started\n',
+			);
+			writeFileSync(join(project, 'package.json'), '{}');
+
+			try {
+				const result = await run_cli(
+					'context',
+					'--cwd',
+					project,
+					'--bundle',
+					bundle,
+				);
+				expect(result.code).toBe(0);
+				expect(result.stdout).toMatch(/^# Context: Svelte 5 Testing/);
+				expect(result.stdout).toContain(
+					'- docs `getting-started`: always included',
+				);
+				expect(result.stdout).toMatch(/---\n\n# Getting Started\n$/);
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('troubleshoot output', () => {
+		it('links the matching troubleshooting entry', async () => {
+			const bundle = mkdtempSync(join(tmpdir(), 'sveltest-trouble-'));
+			mkdirSync(join(bundle, 'api', 'docs'), { recursive: true });
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			writeFileSync(
+				join(bundle, 'api', 'docs', 'troubleshooting.md'),
+				'# Troubleshooting\n\n## Errors\n\n### "strict mode violation"\n\n**Cause**: Two matches.\n',
+			);
+
+			try {
+				const result = await run_cli(
+					'troubleshoot',
+					'Error: strict mode violation: getByRole resolved to 2 elements',
+					'--bundle',
+					bundle,
+				);
+				expect(result.code).toBe(0);
+				expect(result.stdout).toContain(
+					'1. "strict mode violation" (Errors)\n   Two matches.\n   https://sveltest.dev/docs/troubleshooting#strict-mode-violation',
+				);
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('related output', () => {
+		it('walks the related graph from the catalog', async () => {
+			const bundle = mkdtempSync(join(tmpdir(), 'sveltest-related-'));
+			mkdirSync(join(bundle, 'api', 'examples'), { recursive: true });
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			writeFileSync(
+				join(bundle, 'api', 'examples', 'index.json'),
+				JSON.stringify({
+					scenarios: [
+						{
+							endpoint: '/api/examples/modal-states',
+							related: [
+								{
+									kind: 'scenario',
+									slug: 'button-variants',
+									reason: 'Modals open from buttons',
+								},
+							],
+						},
+						{
+							endpoint: '/api/examples/button-variants',
+							related: [
+								{
+									kind: 'topic',
+									slug: 'component-testing',
+									reason: 'Component patterns',
+								},
+							],
+						},
+					],
+				}),
+			);
+
+			try {
+				const result = await run_cli(
+					'related',
+					'modal-states',
+					'--depth',
+					'2',
+					'--bundle',
+					bundle,
+				);
+				expect(result.stdout).toBe(
+					'modal-states\n  button-variants  Modals open from buttons\n    docs/component-testing  Component patterns\n',
+				);
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('completions', () => {
+		it('completes scenario names from the catalog', async () => {
+			const bundle = mkdtempSync(
+				join(tmpdir(), 'sveltest-complete-'),
+			);
+			mkdirSync(join(bundle, 'api', 'examples'), { recursive: true });
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			writeFileSync(
+				join(bundle, 'api', 'examples', 'index.json'),
+				JSON.stringify({
+					scenarios: [
+						{ endpoint: '/api/examples/button-variants' },
+						{ endpoint: '/api/examples/modal-states' },
+					],
+				}),
+			);
+
+			try {
+				const result = await run_cli(
+					'__complete',
+					'--',
+					'get',
+					'--bundle',
+					bundle,
+					'button-variants,',
+				);
+				expect(result.stdout).toBe('button-variants,modal-states\n');
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+
+		it('prints a script for each shell', async () => {
+			const result = await run_cli('completions', 'zsh');
+			expect(result.stdout).toContain('compdef _sveltest sveltest');
+		});
+	});
+
+	describe('output formats', () => {
+		it('renders a scenario as markdown or ndjson', async () => {
+			const bundle = mkdtempSync(join(tmpdir(), 'sveltest-format-'));
+			mkdirSync(join(bundle, 'api', 'examples'), { recursive: true });
+			writeFileSync(
+				join(bundle, 'manifest.json'),
+				JSON.stringify({ format_version: 1 }),
+			);
+			writeFileSync(
+				join(bundle, 'api', 'examples', 'button-variants.json'),
+				JSON.stringify({
+					title: 'Button Variants',
+					test_scenarios: [{ variant: 'primary' }],
+				}),
+			);
+
+			try {
+				const markdown = await run_cli(
+					'get',
+					'button-variants',
+					'--format',
+					'markdown',
+					'--bundle',
+					bundle,
+				);
+				expect(markdown.stdout).toContain('# Button Variants');
+				expect(markdown.stdout).toContain('### primary');
+
+				const ndjson = await run_cli(
+					'get',
+					'missing,button-variants',
+					'--format',
+					'ndjson',
+					'--bundle',
+					bundle,
+				);
+				const lines = ndjson.stdout.trim().split('\n');
+				expect(
+					lines.map((line) => JSON.parse(line).scenario),
+				).toEqual(['button-variants', 'missing']);
+			} finally {
+				rmSync(bundle, { recursive: true, force: true });
+			}
+		});
+
+		it('rejects an unknown format', async () => {
+			const result = await run_cli('config', '--format', 'xml');
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				"Error: Unknown format 'xml'. Use one of: text, json, ndjson, yaml, markdown",
+			);
+		});
+	});
+
+	describe('error cases', () => {
+		it('exits 1 for unknown command', async () => {
+			const result = await run_cli('foobar');
+			expect(result.code).toBe(1);
+			const output = get_output(result);
+			expect(output).toContain('Unknown command');
+			expect(output).toContain('foobar');
+		});
+
+		it('exits 1 when "get" has no scenario', async () => {
+			const result = await run_cli('get');
+			expect(result.code).toBe(1);
+			const output = get_output(result);
+			expect(output).toContain('SCENARIO');
+		});
+
+		it('exits 1 when "search" has no query', async () => {
+			const result = await run_cli('search');
+			expect(result.code).toBe(1);
+			const output = get_output(result);
+			expect(output).toContain('QUERY');
+		});
+
+		it('reports a missing bundle in one line', async () => {
+			const result = await run_cli(
+				'list',
+				'--bundle',
+				join(import.meta.dirname, 'missing-bundle'),
+			);
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				`Error: Bundle not found: ${join(import.meta.dirname, 'missing-bundle')}`,
+			);
+		});
+
+		it('reports a project without package.json in one line', async () => {
+			const cwd = join(import.meta.dirname, 'does-not-exist');
+			const result = await run_cli('init', '--cwd', cwd);
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				`Error: No package.json found in ${cwd}`,
+			);
+		});
+
+		it('reports a missing component in one line', async () => {
+			const component = join(import.meta.dirname, 'missing.svelte');
+			const result = await run_cli('generate', component);
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				`Error: Component not found: ${component}`,
+			);
+		});
+
+		it('reports a missing migrate path in one line', async () => {
+			const path = join(import.meta.dirname, 'missing-tests');
+			const result = await run_cli('migrate', path);
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(`Error: Not found: ${path}`);
+		});
+
+		it('reports an invalid --max-tokens in one line', async () => {
+			const result = await run_cli('llms', '--max-tokens', 'lots');
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				"Error: --max-tokens must be a positive whole number, got 'lots'",
+			);
+		});
+
+		it('reports --outline with several topics in one line', async () => {
+			const result = await run_cli('docs', 'a,b', '--outline');
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				'Error: --section and --outline take a single topic',
+			);
+		});
+
+		it('reports a file that is not a Vitest report in one line', async () => {
+			const dir = mkdtempSync(join(tmpdir(), 'sveltest-report-'));
+			const report = join(dir, 'report.json');
+			writeFileSync(report, '{}');
+
+			try {
+				const result = await run_cli(
+					'troubleshoot',
+					'--report',
+					report,
+				);
+				expect(result.code).toBe(1);
+				expect(result.stderr.trim()).toBe(
+					'Error: Not a Vitest JSON report: expected a testResults array',
+				);
+			} finally {
+				rmSync(dir, { recursive: true, force: true });
+			}
+		});
+
+		it('reports a missing context directory in one line', async () => {
+			const cwd = join(import.meta.dirname, 'no-project');
+			const result = await run_cli('context', '--cwd', cwd);
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(`Error: Not found: ${cwd}`);
+		});
+
+		it('reports an invalid --depth in one line', async () => {
+			const result = await run_cli(
+				'related',
+				'button-variants',
+				'--depth',
+				'0',
+			);
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				"Error: --depth must be a positive whole number, got '0'",
+			);
+		});
+
+		it('reports an unknown completions shell in one line', async () => {
+			const result = await run_cli('completions', 'powershell');
+			expect(result.code).toBe(1);
+			expect(result.stderr.trim()).toBe(
+				"Error: Unknown shell 'powershell'. Use one of: bash, zsh, fish",
+			);
+		});
+
+		it('exits 1 when "doctor" finds failures', async () => {
+			const result = await run_cli(
+				'doctor',
+				'--cwd',
+				join(import.meta.dirname, 'does-not-exist'),
+			);
+			expect(result.code).toBe(1);
+			expect(result.stdout).toContain('FAIL  No package.json found');
+		});
+	});
+});
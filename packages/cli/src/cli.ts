@@ -0,0 +1,1697 @@
+#!/usr/bin/env node
+
+import {
+	defineCommand,
+	runMain,
+	showUsage,
+	type ArgsDef,
+	type CommandDef,
+} from 'citty';
+import { existsSync, readFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import {
+	estimate_tokens,
+	fit_documents,
+	fit_example,
+	omission_footer,
+	parse_max_tokens,
+	type Document,
+} from './budget';
+import { configure_bundle } from './bundle';
+import { cache_info, clear_cache, configure_cache } from './cache';
+import type { SearchFilter } from './client';
+import {
+	complete,
+	COMPLETE_COMMAND,
+	completion_script,
+	SHELLS,
+	type CompletionContext,
+	type CompletionProviders,
+} from './completions';
+import {
+	configure_api_base,
+	get_api_base,
+	get_config,
+	get_site_base,
+	get_user_config_path,
+	type ResolvedConfig,
+	type SveltestConfig,
+} from './config';
+import {
+	plan_context,
+	scan_project,
+	type ContextItem,
+} from './context';
+import { scenario_name, type GetExampleOptions } from './examples';
+import { review_changes } from './diff';
+import { docs_url, run_doctor, type Finding } from './doctor';
+import { SveltestError } from './errors';
+import {
+	get_formatter,
+	OUTPUT_FORMATS,
+	render_markdown,
+	render_output,
+	render_text,
+	type Output,
+} from './format';
+import { plan_generate } from './generate';
+import { plan_init } from './init';
+import { plan_migrate } from './migrate';
+import {
+	add_metadata,
+	CONTEXT_HEADER,
+	get_cli_version,
+} from './meta';
+import { start_mcp_server } from './mcp';
+import { create_mirror } from './mirror';
+import { parse_headings, select_section } from './outline';
+import { node_key, type RelatedNode } from './related';
+import { emphasize } from './search';
+import { QueryError } from './search-query';
+import { get_client } from './source';
+import {
+	clean_message,
+	error_terms,
+	parse_entries,
+	rank_entries,
+	read_vitest_report,
+	TROUBLESHOOTING_TOPIC,
+	type RankedEntry,
+} from './troubleshoot';
+import { start_tui } from './tui';
+import type { MatchRange, SearchResponse } from './types';
+import { run_self_check } from './version';
+
+function is_plain(explicit?: boolean): boolean {
+	return explicit || !process.stdout.isTTY;
+}
+
+const max_tokens_arg = {
+	'max-tokens': {
+		type: 'string',
+		description:
+			'Trim output to about this many tokens, dropping code examples first',
+	},
+} as const;
+
+const format_arg = {
+	format: {
+		type: 'string',
+		description: 'Output format: text, json, ndjson, yaml, markdown',
+	},
+} as const;
+
+// `--format` wins over `--json`, which stays as a shorthand; config
+// file settings apply only when neither flag is given
+function resolve_format(
+	args: { format?: string; json?: boolean },
+	config: SveltestConfig,
+	fallback: string,
+): string {
+	const format =
+		args.format ??
+		(args.json !== undefined
+			? args.json
+				? 'json'
+				: fallback
+			: (config.format ?? (config.json ? 'json' : fallback)));
+	get_formatter(format);
+	return format;
+}
+
+function print<T>(format: string, output: Output<T>) {
+	const text = render_output(format, output);
+	if (text) {
+		process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+	}
+}
+
+async function list_examples(format: string, plain?: boolean) {
+	const data = await get_client().list_examples();
+
+	print(format, {
+		data,
+		records: (d) => d.scenarios,
+		text: (d) => {
+			if (plain) {
+				return d.scenarios.map(scenario_name).join('\n');
+			}
+			const lines = ['\nAvailable Testing Scenarios:\n'];
+			for (const scenario of d.scenarios) {
+				lines.push(`  ${scenario_name(scenario)}`);
+				lines.push(`    Category: ${scenario.category}`);
+				lines.push(`    ${scenario.description}\n`);
+			}
+			return lines.join('\n');
+		},
+	});
+}
+
+async function get_example(
+	scenario: string,
+	format: string,
+	options: GetExampleOptions = {},
+	max_tokens?: number,
+) {
+	const data = add_metadata(
+		await get_client().get_example(scenario, options),
+	);
+	print(format, {
+		data: max_tokens ? fit_example(data, max_tokens) : data,
+	});
+}
+
+// Failed items are reported on stderr and fail the command, so
+// scripts can tell the context they received is incomplete
+function report_batch_errors(errors: Record<string, string>) {
+	for (const [name, message] of Object.entries(errors)) {
+		console.error(`Error fetching '${name}': ${message}`);
+	}
+	if (Object.keys(errors).length > 0) process.exitCode = 1;
+}
+
+function with_errors(
+	results: Record<string, unknown>,
+	errors: Record<string, string>,
+): Record<string, unknown> {
+	return Object.keys(errors).length > 0
+		? { ...results, _errors: errors }
+		: results;
+}
+
+// One ndjson line per requested item, failures included
+function batch_records(
+	key: string,
+	results: Record<string, object>,
+	errors: Record<string, string>,
+): unknown[] {
+	return [
+		...Object.entries(results).map(([name, item]) => ({
+			[key]: name,
+			...item,
+		})),
+		...Object.entries(errors).map(([name, error]) => ({
+			[key]: name,
+			error,
+		})),
+	];
+}
+
+async function batch_get_examples(
+	scenarios: string[],
+	format: string,
+	options: GetExampleOptions,
+	max_tokens?: number,
+) {
+	const batch = await get_client().get_examples(scenarios, options);
+	const { errors } = batch;
+	// The budget is shared equally between the requested scenarios
+	const results = max_tokens
+		? Object.fromEntries(
+				Object.entries(batch.results).map(([name, example]) => [
+					name,
+					fit_example(
+						example,
+						Math.floor(max_tokens / scenarios.length),
+					),
+				]),
+			)
+		: batch.results;
+
+	print(format, {
+		data: add_metadata(with_errors(results, errors)),
+		text: () => Object.values(results).map(render_text).join('\n\n'),
+		markdown: () =>
+			Object.values(results).map(render_markdown).join('\n\n---\n\n'),
+		records: () => batch_records('scenario', results, errors),
+	});
+	report_batch_errors(errors);
+}
+
+function related_url(node: RelatedNode): string {
+	return node.kind === 'topic'
+		? docs_url(node.slug)
+		: `${get_api_base()}/examples/${node.slug}`;
+}
+
+// Depth-first, so each node sits under the one that reached it
+function related_tree(
+	nodes: RelatedNode[],
+	line: (node: RelatedNode) => string,
+): string {
+	const lines: string[] = [];
+	const visit = (node: RelatedNode) => {
+		lines.push(line(node));
+		nodes
+			.filter((child) => child.from === node_key(node))
+			.forEach(visit);
+	};
+	visit(nodes[0]);
+	return lines.join('\n');
+}
+
+async function show_related(
+	name: string,
+	format: string,
+	depth: number,
+) {
+	const nodes = (await get_client().related(name, { depth })).map(
+		(node) => ({ ...node, url: related_url(node) }),
+	);
+	const label = (node: RelatedNode) =>
+		node.kind === 'topic' ? `docs/${node.slug}` : node.slug;
+
+	print(format, {
+		data: { start: nodes[0].slug, depth, nodes },
+		records: (d) => d.nodes,
+		text: (d) =>
+			related_tree(d.nodes, (node) =>
+				node.reason
+					? `${'  '.repeat(node.depth)}${label(node)}  ${node.reason}`
+					: label(node),
+			),
+		markdown: (d) =>
+			related_tree(d.nodes, (node) =>
+				node.reason
+					? `${'  '.repeat(node.depth - 1)}- [${label(node)}](${related_url(node)}) - ${node.reason}`
+					: `# ${label(node)}\n`,
+			),
+	});
+}
+
+async function search_docs(
+	query: string,
+	format: string,
+	filter?: string,
+) {
+	let response: SearchResponse;
+	try {
+		response = await get_client().search(
+			query,
+			filter as SearchFilter | undefined,
+		);
+	} catch (error) {
+		if (!(error instanceof QueryError)) throw error;
+		// Point at the problem in the query
+		console.error(
+			`Error: ${error.message}\n  ${query}\n  ${' '.repeat(error.position)}^`,
+		);
+		process.exitCode = 1;
+		return;
+	}
+
+	print(format, {
+		data: response,
+		records: (d) => d.results,
+		text: (d) => {
+			if (d.results.length === 0) {
+				return `\nNo results found for: "${query}"\n`;
+			}
+			// Matched words in bold, only when a terminal will show it
+			const mark = (text: string, ranges?: MatchRange[]) =>
+				is_plain() ? text : emphasize(text, ranges);
+			const lines = [`\nSearch Results for "${query}":\n`];
+			d.results.forEach((result, index) => {
+				const { highlights } = result;
+				lines.push(
+					`${index + 1}. ${mark(result.title, highlights?.title)}`,
+				);
+				lines.push(
+					`   ${mark(result.description, highlights?.description)}`,
+				);
+				lines.push(`   ${result.url}`);
+				lines.push(
+					result.excerpt
+						? `   ${mark(result.excerpt, highlights?.excerpt)}\n`
+						: '',
+				);
+			});
+			return lines.join('\n');
+		},
+		markdown: (d) =>
+			d.results.length === 0
+				? `No results found for: "${query}"`
+				: d.results
+						.map(
+							(result, index) =>
+								`${index + 1}. [${result.title}](${result.url}) - ${result.description}`,
+						)
+						.join('\n'),
+	});
+}
+
+function with_omitted<T extends object>(
+	data: T,
+	omitted: string[],
+): T & { _omitted?: string[] } {
+	return omitted.length > 0 ? { ...data, _omitted: omitted } : data;
+}
+
+// Trim markdown to the token budget. The context header is never
+// trimmed, so its share comes off the budget first.
+function budget_documents(
+	documents: Document[],
+	max_tokens: number | undefined,
+	context?: boolean,
+): { texts: string[]; omitted: string[]; footer: string } {
+	if (!max_tokens) {
+		return {
+			texts: documents.map((document) => document.text),
+			omitted: [],
+			footer: '',
+		};
+	}
+	const { texts, omitted } = fit_documents(
+		documents,
+		max_tokens,
+		context ? estimate_tokens(CONTEXT_HEADER) : 0,
+	);
+	return {
+		texts,
+		omitted,
+		footer: omission_footer(omitted, max_tokens),
+	};
+}
+
+async function fetch_llms(
+	format: string,
+	full?: boolean,
+	context?: boolean,
+	max_tokens?: number,
+) {
+	const file = full ? 'llms-full.txt' : 'llms.txt';
+	const text = await get_client().llms({ full });
+	const {
+		texts: [content],
+		omitted,
+		footer,
+	} = budget_documents([{ name: file, text }], max_tokens, context);
+	const document = `${context ? CONTEXT_HEADER : ''}${content}${footer}`;
+
+	print(format, {
+		data: with_omitted({ file, content }, omitted),
+		text: () => document,
+		markdown: () => document,
+	});
+}
+
+async function list_docs(format: string, plain?: boolean) {
+	const data = await get_client().list_docs();
+
+	print(format, {
+		data,
+		records: (d) => d.topics,
+		text: (d) => {
+			if (plain)
+				return d.topics.map((topic) => topic.slug).join('\n');
+			const lines = ['\nAvailable Documentation Topics:\n'];
+			let current_category = '';
+			for (const topic of d.topics) {
+				if (topic.category !== current_category) {
+					current_category = topic.category;
+					lines.push(`  ${current_category}:`);
+				}
+				lines.push(`    ${topic.slug}`);
+				lines.push(`      ${topic.description}\n`);
+			}
+			return lines.join('\n');
+		},
+		markdown: (d) => {
+			const blocks = [`# ${d.title}`];
+			let current_category = '';
+			let list: string[] = [];
+			for (const topic of d.topics) {
+				if (topic.category !== current_category) {
+					if (list.length > 0) blocks.push(list.join('\n'));
+					list = [];
+					current_category = topic.category;
+					blocks.push(`## ${current_category}`);
+				}
+				list.push(
+					`- **${topic.title}** (\`${topic.slug}\`) - ${topic.description}`,
+				);
+			}
+			if (list.length > 0) blocks.push(list.join('\n'));
+			return blocks.join('\n\n');
+		},
+	});
+}
+
+// Docs are written in markdown, so the text and markdown formats
+// both print the source as-is
+function is_document_format(format: string): boolean {
+	return format === 'text' || format === 'markdown';
+}
+
+async function get_doc(
+	topic: string,
+	format: string,
+	context?: boolean,
+	max_tokens?: number,
+	section?: string,
+) {
+	const client = get_client();
+
+	if (is_document_format(format)) {
+		const doc = await client.get_doc(topic);
+		const text = section
+			? select_section(doc, section, topic).text
+			: doc;
+		const {
+			texts: [content],
+			footer,
+		} = budget_documents(
+			[{ name: topic, text }],
+			max_tokens,
+			context,
+		);
+		if (context) {
+			process.stdout.write(CONTEXT_HEADER);
+		}
+		process.stdout.write(content);
+		process.stdout.write(footer);
+		return;
+	}
+
+	const data = await client.get_doc(topic, { format: 'json' });
+	const selected = section
+		? select_section(data.content, section, topic)
+		: undefined;
+	const {
+		texts: [content],
+		omitted,
+	} = budget_documents(
+		[{ name: topic, text: selected?.text ?? data.content }],
+		max_tokens,
+	);
+	print(format, {
+		data: add_metadata(
+			with_omitted(
+				selected
+					? { ...data, section: selected.heading.slug, content }
+					: { ...data, content },
+				omitted,
+			),
+		),
+	});
+}
+
+// The heading tree of a topic, so a reader can pick one section to
+// fetch with --section
+async function show_outline(
+	topic: string,
+	format: string,
+	section?: string,
+) {
+	const data = await get_client().get_doc(topic, { format: 'json' });
+	const content = section
+		? select_section(data.content, section, topic).text
+		: data.content;
+	const url = docs_url(data.slug);
+	const headings = parse_headings(content).map(
+		({ level, title, slug }) => ({
+			level,
+			title,
+			slug,
+			url: `${url}#${slug}`,
+		}),
+	);
+	const top = Math.min(...headings.map(({ level }) => level));
+
+	print(format, {
+		data: add_metadata({ topic: data.slug, url, headings }),
+		records: () => headings,
+		text: () =>
+			headings
+				.map(
+					({ level, title, slug }) =>
+						`${'  '.repeat(level - top)}${title}  #${slug}`,
+				)
+				.join('\n'),
+		markdown: () =>
+			headings
+				.map(
+					({ level, title, url }) =>
+						`${'  '.repeat(level - top)}- [${title}](${url})`,
+				)
+				.join('\n'),
+	});
+}
+
+async function get_docs_batch(
+	topics: string[],
+	format: string,
+	context?: boolean,
+	max_tokens?: number,
+) {
+	const client = get_client();
+
+	if (is_document_format(format)) {
+		const { results, errors } = await client.get_docs(topics);
+		const { texts, footer } = budget_documents(
+			Object.entries(results).map(([name, text]) => ({ name, text })),
+			max_tokens,
+			context,
+		);
+		if (context) {
+			process.stdout.write(CONTEXT_HEADER);
+		}
+		for (const text of texts) {
+			process.stdout.write(text);
+			process.stdout.write('\n');
+		}
+		process.stdout.write(footer);
+		report_batch_errors(errors);
+		return;
+	}
+
+	const { results, errors } = await client.get_docs_json(topics);
+	const { texts, omitted } = budget_documents(
+		Object.values(results).map((doc) => ({
+			name: doc.slug,
+			text: doc.content,
+		})),
+		max_tokens,
+	);
+	const trimmed = Object.fromEntries(
+		Object.entries(results).map(([name, doc], index) => [
+			name,
+			{ ...doc, content: texts[index] },
+		]),
+	);
+	print(format, {
+		data: add_metadata(
+			with_omitted(with_errors(trimmed, errors), omitted),
+		),
+		records: () => batch_records('slug', trimmed, errors),
+	});
+	report_batch_errors(errors);
+}
+
+function context_manifest(items: ContextItem[]): string {
+	const lines = items.map(
+		(item) =>
+			`- ${item.kind === 'topic' ? 'docs' : 'example'} \`${item.name}\`: ${item.reasons.join('; ')}`,
+	);
+	return `# Project context\n\nIncluded for this project:\n${lines.join('\n')}\n\n---\n\n`;
+}
+
+// One document of the docs topics and scenarios the project's source
+// calls for, led by a manifest of why each piece is there
+async function build_context(
+	cwd: string,
+	format: string,
+	manifest_only?: boolean,
+	max_tokens?: number,
+) {
+	const items = plan_context(scan_project(cwd));
+	const manifest = context_manifest(items);
+	if (manifest_only) {
+		print(format, {
+			data: add_metadata({ cwd, included: items }),
+			records: () => items,
+			text: () => manifest.replace(/\n---\n\n$/, ''),
+			markdown: () => manifest.replace(/\n---\n\n$/, ''),
+		});
+		return;
+	}
+
+	const names = (kind: ContextItem['kind']) =>
+		items
+			.filter((item) => item.kind === kind)
+			.map(({ name }) => name);
+	const client = get_client();
+	const [docs, examples] = await Promise.all([
+		client.get_docs(names('topic')),
+		client.get_examples(names('scenario')),
+	]);
+	// runes-testing is both a topic and a scenario, so pieces are keyed
+	// by their API path
+	const keyed = <T>(prefix: string, record: Record<string, T>) =>
+		Object.entries(record).map(
+			([name, value]) => [`${prefix}/${name}`, value] as const,
+		);
+	const documents: Document[] = [
+		...keyed('docs', docs.results).map(([name, text]) => ({
+			name,
+			text,
+		})),
+		...keyed('examples', examples.results).map(([name, example]) => ({
+			name,
+			text: `${render_markdown(example)}\n`,
+		})),
+	];
+	const errors = Object.fromEntries([
+		...keyed('docs', docs.errors),
+		...keyed('examples', examples.errors),
+	]);
+	const { texts, omitted } = max_tokens
+		? fit_documents(
+				documents,
+				max_tokens,
+				estimate_tokens(CONTEXT_HEADER + manifest),
+			)
+		: { texts: documents.map(({ text }) => text), omitted: [] };
+	const footer = max_tokens
+		? omission_footer(omitted, max_tokens)
+		: '';
+	const document = `${CONTEXT_HEADER}${manifest}${texts.join('\n')}${footer}`;
+	const contents = documents.map(({ name }, index) => ({
+		name,
+		content: texts[index],
+	}));
+
+	print(format, {
+		data: add_metadata(
+			with_omitted(
+				with_errors(
+					{ cwd, included: items, documents: contents },
+					errors,
+				),
+				omitted,
+			),
+		),
+		records: () => contents,
+		text: () => document,
+		markdown: () => document,
+	});
+	report_batch_errors(errors);
+}
+
+async function troubleshooting_entries() {
+	return parse_entries(
+		await get_client().get_doc(TROUBLESHOOTING_TOPIC),
+	);
+}
+
+function with_url(entry: RankedEntry) {
+	return {
+		...entry,
+		url: `${docs_url(TROUBLESHOOTING_TOPIC)}#${entry.slug}`,
+	};
+}
+
+// Docs pages beyond troubleshooting.md that mention the same words.
+// Search is a bonus, so a failed lookup leaves the list empty.
+async function related_pages(message: string) {
+	const query = error_terms(message).slice(0, 8).join(' ');
+	if (!query) return [];
+	const response = await get_client()
+		.search(query, 'docs')
+		.catch(() => ({ results: [] }));
+	return response.results
+		.filter(
+			(result) => !result.url.endsWith(`/${TROUBLESHOOTING_TOPIC}`),
+		)
+		.slice(0, 3)
+		.map(({ title, url }) => ({
+			title,
+			url: url.startsWith('/') ? `${get_site_base()}${url}` : url,
+		}));
+}
+
+async function troubleshoot_message(message: string, format: string) {
+	const [entries, related] = await Promise.all([
+		troubleshooting_entries(),
+		related_pages(message),
+	]);
+	const matches = rank_entries(entries, message).map(with_url);
+	const first_line = clean_message(message).split('\n')[0];
+
+	print(format, {
+		data: { message: first_line, matches, related },
+		records: (d) => d.matches,
+		text: (d) => {
+			const lines = [`Likely fixes for: ${d.message}\n`];
+			if (d.matches.length === 0) {
+				lines.push('  No troubleshooting entry matched.\n');
+			}
+			d.matches.forEach((match, index) => {
+				lines.push(`${index + 1}. ${match.title} (${match.section})`);
+				if (match.summary) lines.push(`   ${match.summary}`);
+				lines.push(`   ${match.url}\n`);
+			});
+			if (d.related.length > 0) {
+				lines.push('See also:');
+				d.related.forEach(({ title, url }) =>
+					lines.push(`  ${title}: ${url}`),
+				);
+			}
+			return lines.join('\n');
+		},
+		markdown: (d) =>
+			[
+				`Likely fixes for: \`${d.message}\``,
+				d.matches.length > 0
+					? d.matches
+							.map(
+								(match, index) =>
+									`${index + 1}. [${match.title}](${match.url}) - ${match.summary}`,
+							)
+							.join('\n')
+					: 'No troubleshooting entry matched.',
+				...(d.related.length > 0
+					? [
+							`See also: ${d.related.map(({ title, url }) => `[${title}](${url})`).join(', ')}`,
+						]
+					: []),
+			].join('\n\n'),
+	});
+}
+
+// Annotate every failed test in a Vitest JSON report with the
+// troubleshooting entries its error matches
+async function troubleshoot_report(path: string, format: string) {
+	if (!existsSync(path)) {
+		throw new SveltestError('usage', `Report not found: ${path}`);
+	}
+	const failures = read_vitest_report(readFileSync(path, 'utf-8'));
+	const entries = await troubleshooting_entries();
+	const annotated = failures.map((failure) => ({
+		file: failure.file,
+		test: failure.test,
+		message: clean_message(failure.message).split('\n')[0] ?? '',
+		matches: rank_entries(entries, failure.message).map(with_url),
+	}));
+	const name = (failure: { file: string; test: string }) =>
+		failure.test ? `${failure.file} > ${failure.test}` : failure.file;
+	const matched = annotated.filter((f) => f.matches.length > 0);
+	const summary = `${annotated.length} failed test(s), ${matched.length} with suggested fixes`;
+
+	print(format, {
+		data: { report: path, failures: annotated },
+		records: (d) => d.failures,
+		text: (d) => {
+			const lines = d.failures.flatMap((failure) => [
+				`FAIL  ${name(failure)}`,
+				`      ${failure.message}`,
+				...failure.matches.map(
+					(match) => `      → ${match.title}: ${match.url}`,
+				),
+				'',
+			]);
+			return `${lines.join('\n')}\n${summary}`;
+		},
+		markdown: (d) => {
+			const lines = d.failures.flatMap((failure) => [
+				`- **${name(failure)}**: \`${failure.message}\``,
+				...failure.matches.map(
+					(match) => `  - [${match.title}](${match.url})`,
+				),
+			]);
+			return `${lines.join('\n')}\n\n${summary}`;
+		},
+	});
+}
+
+// --- Command definitions ---
+
+// citty prints whatever a command throws with its stack trace and
+// exits 1. Errors we can explain get one line and their own exit code.
+function define_command<const T extends ArgsDef = ArgsDef>(
+	def: CommandDef<T>,
+): CommandDef<T> {
+	const { run } = def;
+	if (!run) return defineCommand(def);
+	return defineCommand({
+		...def,
+		async run(context) {
+			try {
+				return (await run(context)) as unknown;
+			} catch (error) {
+				if (!(error instanceof SveltestError)) throw error;
+				console.error(`Error: ${error.message}`);
+				process.exitCode = error.exit_code;
+			}
+		},
+	});
+}
+
+const source_args = {
+	offline: {
+		type: 'boolean',
+		description: 'Serve responses from the local cache only',
+	},
+	bundle: {
+		type: 'string',
+		description:
+			'Read from a snapshot created by `sveltest mirror` (or SVELTEST_BUNDLE)',
+	},
+	'api-base': {
+		type: 'string',
+		description:
+			'API base URL (or SVELTEST_API_BASE, default https://sveltest.dev/api)',
+	},
+} as const;
+
+function configure_source(args: {
+	offline?: boolean;
+	bundle?: string;
+	'api-base'?: string;
+}): ResolvedConfig {
+	configure_api_base(args['api-base']);
+	configure_cache({ offline: args.offline });
+	configure_bundle(args.bundle);
+	return get_config();
+}
+
+const llms_command = define_command({
+	meta: {
+		name: 'llms',
+		description: 'Fetch llms.txt documentation for LLM consumption',
+	},
+	args: {
+		full: {
+			type: 'boolean',
+			description: 'Fetch complete documentation (130KB)',
+		},
+		context: {
+			type: 'boolean',
+			description: 'Prepend testing context header',
+		},
+		...max_tokens_arg,
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		await fetch_llms(
+			resolve_format(args, config, 'text'),
+			args.full,
+			args.context ?? config.context,
+			parse_max_tokens(args['max-tokens']),
+		);
+	},
+});
+
+const docs_command = define_command({
+	meta: {
+		name: 'docs',
+		description: 'Browse documentation topics',
+	},
+	args: {
+		topic: {
+			type: 'positional',
+			description: 'Topic slug (or comma-separated for batch)',
+			required: false,
+		},
+		json: {
+			type: 'boolean',
+			description: 'Output as structured JSON',
+		},
+		context: {
+			type: 'boolean',
+			description: 'Prepend testing context header',
+		},
+		plain: {
+			type: 'boolean',
+			description: 'Force plain output',
+		},
+		section: {
+			type: 'string',
+			description:
+				'Only print this heading and what is under it (anchor or title)',
+		},
+		outline: {
+			type: 'boolean',
+			description: 'Print the heading tree with anchors',
+		},
+		...max_tokens_arg,
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		const context = args.context ?? config.context;
+		const format = resolve_format(args, config, 'text');
+		const max_tokens = parse_max_tokens(args['max-tokens']);
+		if (!args.topic) {
+			await list_docs(format, is_plain(args.plain ?? config.plain));
+			return;
+		}
+		if (args.topic.includes(',')) {
+			if (args.section || args.outline) {
+				throw new SveltestError(
+					'usage',
+					'--section and --outline take a single topic',
+				);
+			}
+			const topics = args.topic.split(',').map((t) => t.trim());
+			await get_docs_batch(topics, format, context, max_tokens);
+		} else if (args.outline) {
+			await show_outline(args.topic, format, args.section);
+		} else {
+			await get_doc(
+				args.topic,
+				format,
+				context,
+				max_tokens,
+				args.section,
+			);
+		}
+	},
+});
+
+const list_command = define_command({
+	meta: {
+		name: 'list',
+		description: 'List all available testing examples',
+	},
+	args: {
+		plain: {
+			type: 'boolean',
+			description: 'Force plain output',
+		},
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		await list_examples(
+			resolve_format(args, config, 'text'),
+			is_plain(args.plain ?? config.plain),
+		);
+	},
+});
+
+const get_command = define_command({
+	meta: {
+		name: 'get',
+		description: 'Get a specific testing example',
+	},
+	args: {
+		scenario: {
+			type: 'positional',
+			description: 'Scenario name (or comma-separated for batch)',
+			required: true,
+		},
+		json: {
+			type: 'boolean',
+			description: 'Output in JSON format',
+		},
+		compact: {
+			type: 'boolean',
+			description: 'Minimal JSON output (~50% fewer tokens)',
+		},
+		filter: {
+			type: 'string',
+			description: 'Get only specific field',
+		},
+		sections: {
+			type: 'string',
+			description: 'Get specific sections (comma-separated)',
+		},
+		plain: {
+			type: 'boolean',
+			description: 'Force plain output',
+		},
+		...max_tokens_arg,
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		const max_tokens = parse_max_tokens(args['max-tokens']);
+		const plain = is_plain(args.plain ?? config.plain);
+		const batch = args.scenario.includes(',');
+		const format = resolve_format(
+			args,
+			config,
+			plain || batch ? 'json' : 'text',
+		);
+		const compact = (args.compact ?? config.compact) || plain;
+		const sections = args.sections
+			? args.sections.split(',')
+			: undefined;
+		const options: GetExampleOptions = {
+			compact,
+			filter: args.filter,
+			sections,
+		};
+
+		if (batch) {
+			const scenarios = args.scenario.split(',').map((s) => s.trim());
+			await batch_get_examples(
+				scenarios,
+				format,
+				options,
+				max_tokens,
+			);
+		} else {
+			await get_example(args.scenario, format, options, max_tokens);
+		}
+	},
+});
+
+const related_command = define_command({
+	meta: {
+		name: 'related',
+		description:
+			'Show scenarios and docs topics related to a scenario or topic',
+	},
+	args: {
+		slug: {
+			type: 'positional',
+			description: 'Scenario or docs topic',
+			required: true,
+		},
+		depth: {
+			type: 'string',
+			description: 'How many links to follow (default 1)',
+		},
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		const depth = Number(args.depth ?? 1);
+		if (!Number.isInteger(depth) || depth <= 0) {
+			throw new SveltestError(
+				'usage',
+				`--depth must be a positive whole number, got '${args.depth}'`,
+			);
+		}
+		await show_related(
+			args.slug,
+			resolve_format(args, config, 'text'),
+			depth,
+		);
+	},
+});
+
+const search_command = define_command({
+	meta: {
+		name: 'search',
+		description: 'Search documentation and examples',
+	},
+	args: {
+		query: {
+			type: 'positional',
+			description:
+				'Search query: words, "phrases", -exclusions, type:, category:, topic: and OR',
+			required: true,
+		},
+		filter: {
+			type: 'string',
+			description:
+				'Deprecated, use type: in the query. One of: all, docs, examples, components',
+		},
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		// One JSON result per line when piped
+		const format = resolve_format(
+			args,
+			config,
+			process.stdout.isTTY ? 'text' : 'ndjson',
+		);
+		await search_docs(args.query, format, args.filter);
+	},
+});
+
+const init_command = define_command({
+	meta: {
+		name: 'init',
+		description:
+			'Set up the client/ssr/server Vitest projects in a SvelteKit app',
+	},
+	args: {
+		cwd: {
+			type: 'string',
+			description: 'Project directory (default: current directory)',
+		},
+		yes: {
+			type: 'boolean',
+			description: 'Write changes without asking',
+		},
+		'dry-run': {
+			type: 'boolean',
+			description: 'Only print the diff',
+		},
+	},
+	async run({ args }) {
+		const cwd = resolve(args.cwd ?? process.cwd());
+		const plan = plan_init(cwd);
+		plan.notes.forEach((note) => console.error(`Note: ${note}`));
+
+		const applied = await review_changes(plan.changes, {
+			cwd,
+			yes: args.yes,
+			dry_run: args['dry-run'],
+		});
+		if (applied) {
+			const pm = plan.package_manager;
+			console.error('\nNext steps:');
+			console.error(`  ${pm} install`);
+			console.error(
+				`  ${pm === 'npm' ? 'npx' : `${pm} exec`} playwright install chromium`,
+			);
+			console.error(`  ${pm} run test:unit`);
+		}
+	},
+});
+
+const generate_command = define_command({
+	meta: {
+		name: 'generate',
+		description:
+			"Write a test skeleton from a component's Props interface",
+	},
+	args: {
+		component: {
+			type: 'positional',
+			description: 'Path to a .svelte component',
+			required: true,
+		},
+		ssr: {
+			type: 'boolean',
+			description: 'Also write a .ssr.test.ts companion',
+		},
+		force: {
+			type: 'boolean',
+			description: 'Replace existing test files',
+		},
+		yes: {
+			type: 'boolean',
+			description: 'Write files without asking',
+		},
+		'dry-run': {
+			type: 'boolean',
+			description: 'Only print the generated files',
+		},
+	},
+	async run({ args }) {
+		const changes = plan_generate(resolve(args.component), {
+			ssr: args.ssr,
+			force: args.force,
+		});
+		await review_changes(changes, {
+			cwd: process.cwd(),
+			yes: args.yes,
+			dry_run: args['dry-run'],
+		});
+	},
+});
+
+const migrate_command = define_command({
+	meta: {
+		name: 'migrate',
+		description:
+			'Rewrite @testing-library/svelte tests to vitest-browser-svelte',
+	},
+	args: {
+		path: {
+			type: 'positional',
+			description: 'Test file or directory (default: src)',
+			required: false,
+		},
+		yes: {
+			type: 'boolean',
+			description: 'Write changes without asking',
+		},
+		'dry-run': {
+			type: 'boolean',
+			description: 'Only print the diff and report',
+		},
+	},
+	async run({ args }) {
+		const cwd = process.cwd();
+		const plan = plan_migrate([resolve(args.path ?? 'src')]);
+
+		await review_changes(plan.changes, {
+			cwd,
+			yes: args.yes,
+			dry_run: args['dry-run'],
+		});
+		if (plan.reports.length > 0) {
+			console.error('\nNeeds manual changes:');
+			for (const { path, issues } of plan.reports) {
+				for (const issue of issues) {
+					console.error(
+						`  ${relative(cwd, path)}:${issue.line}  ${issue.message}`,
+					);
+					console.error(`    ${issue.code}`);
+				}
+			}
+			console.error(
+				'\nSee `sveltest docs migration-guide` for the manual steps.',
+			);
+		}
+	},
+});
+
+const DOCTOR_LABELS = { pass: 'PASS', warn: 'WARN', fail: 'FAIL' };
+
+// doctor and self-check report the same way and both exit 1 on a
+// failure
+function print_findings(
+	format: string,
+	findings: (Finding & { url?: string })[],
+) {
+	const count = (status: string) =>
+		findings.filter((f) => f.status === status).length;
+	const summary = `${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failure(s)`;
+
+	print(format, {
+		data: findings,
+		text: (data) => {
+			const lines = data.flatMap((finding) =>
+				finding.url && finding.status !== 'pass'
+					? [
+							`${DOCTOR_LABELS[finding.status]}  ${finding.message}`,
+							`      ${finding.url}`,
+						]
+					: [`${DOCTOR_LABELS[finding.status]}  ${finding.message}`],
+			);
+			return `${lines.join('\n')}\n\n${summary}`;
+		},
+		markdown: (data) => {
+			const lines = data.map((finding) =>
+				finding.url && finding.status !== 'pass'
+					? `- **${DOCTOR_LABELS[finding.status]}** ${finding.message} ([docs](${finding.url}))`
+					: `- **${DOCTOR_LABELS[finding.status]}** ${finding.message}`,
+			);
+			return `${lines.join('\n')}\n\n${summary}`;
+		},
+	});
+
+	if (findings.some((finding) => finding.status === 'fail')) {
+		process.exitCode = 1;
+	}
+}
+
+const doctor_command = define_command({
+	meta: {
+		name: 'doctor',
+		description:
+			"Check a project's Svelte testing setup for common misconfigurations",
+	},
+	args: {
+		cwd: {
+			type: 'string',
+			description: 'Project directory (default: current directory)',
+		},
+		json: {
+			type: 'boolean',
+			description: 'Output findings as JSON',
+		},
+		...format_arg,
+	},
+	run({ args }) {
+		const format = resolve_format(args, get_config(), 'text');
+		const findings = run_doctor(
+			resolve(args.cwd ?? process.cwd()),
+		).map((finding) => ({
+			...finding,
+			url: finding.topic ? docs_url(finding.topic) : undefined,
+		}));
+		print_findings(format, findings);
+	},
+});
+
+const self_check_command = define_command({
+	meta: {
+		name: 'self-check',
+		description:
+			'Compare this CLI with the latest release and the API version it talks to',
+	},
+	args: {
+		'api-base': source_args['api-base'],
+		registry: {
+			type: 'string',
+			description:
+				'Registry metadata URL (or SVELTEST_REGISTRY_URL, default https://registry.npmjs.org/sveltest/latest)',
+		},
+		...format_arg,
+	},
+	async run({ args }) {
+		configure_api_base(args['api-base']);
+		const config = get_config();
+		const findings = await run_self_check({
+			cli_version: get_cli_version(),
+			api_base: config.api_base,
+			registry_url: args.registry ?? config.registry_url,
+		});
+		print_findings(resolve_format(args, config, 'text'), findings);
+	},
+});
+
+const troubleshoot_command = define_command({
+	meta: {
+		name: 'troubleshoot',
+		description:
+			'Match a test failure to known fixes in the troubleshooting docs',
+	},
+	args: {
+		message: {
+			type: 'positional',
+			description: 'Error message (or pipe it on stdin)',
+			required: false,
+		},
+		report: {
+			type: 'string',
+			description:
+				'Vitest JSON report file (vitest --reporter=json --outputFile=...)',
+		},
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		const format = resolve_format(args, config, 'text');
+		if (args.report) {
+			await troubleshoot_report(args.report, format);
+			return;
+		}
+		const message =
+			args.message ??
+			(process.stdin.isTTY ? '' : readFileSync(0, 'utf-8'));
+		if (!message.trim()) {
+			throw new SveltestError(
+				'usage',
+				'Pass an error message, pipe one on stdin or use --report',
+			);
+		}
+		await troubleshoot_message(message, format);
+	},
+});
+
+const context_command = define_command({
+	meta: {
+		name: 'context',
+		description:
+			'Build an LLM context document from the docs and examples a project needs',
+	},
+	args: {
+		cwd: {
+			type: 'string',
+			description: 'Project directory (default: current directory)',
+		},
+		manifest: {
+			type: 'boolean',
+			description:
+				'Only list what would be included and why, without fetching',
+		},
+		...max_tokens_arg,
+		...format_arg,
+		...source_args,
+	},
+	async run({ args }) {
+		const config = configure_source(args);
+		await build_context(
+			resolve(args.cwd ?? process.cwd()),
+			resolve_format(args, config, 'text'),
+			args.manifest,
+			parse_max_tokens(args['max-tokens']),
+		);
+	},
+});
+
+const mcp_command = define_command({
+	meta: {
+		name: 'mcp',
+		description: 'Run as a Model Context Protocol server over stdio',
+	},
+	args: {
+		...source_args,
+	},
+	run({ args }) {
+		configure_source(args);
+		start_mcp_server();
+	},
+});
+
+const mirror_command = define_command({
+	meta: {
+		name: 'mirror',
+		description:
+			'Download all examples, docs and llms files for offline use',
+	},
+	args: {
+		out: {
+			type: 'string',
+			description:
+				'Output directory (default: sveltest-snapshot-<date>)',
+		},
+		archive: {
+			type: 'boolean',
+			description: 'Also pack the snapshot into a .tar.gz',
+		},
+		'api-base': source_args['api-base'],
+		...format_arg,
+	},
+	async run({ args }) {
+		configure_api_base(args['api-base']);
+		const format = resolve_format(args, get_config(), 'text');
+		configure_bundle(null);
+		const result = await create_mirror({
+			out: args.out,
+			archive: args.archive,
+			api_base: get_api_base(),
+			site_base: get_site_base(),
+			cli_version: get_cli_version(),
+		});
+		const bundle = result.archive ?? result.dir;
+		print(format, {
+			data: {
+				bundle,
+				scenarios: result.manifest.scenarios.length,
+				topics: result.manifest.topics.length,
+				files: result.files,
+			},
+			text: (data) =>
+				[
+					`\nMirrored ${data.scenarios} scenarios and ${data.topics} topics (${data.files} files)`,
+					`Bundle: ${data.bundle}`,
+					`Use it with: sveltest get <scenario> --bundle ${data.bundle}`,
+				].join('\n'),
+		});
+	},
+});
+
+const config_command = define_command({
+	meta: {
+		name: 'config',
+		description: 'Show the resolved configuration and its sources',
+	},
+	args: {
+		'api-base': source_args['api-base'],
+		...format_arg,
+	},
+	run({ args }) {
+		configure_api_base(args['api-base']);
+		const { files, ...config } = get_config();
+		print(resolve_format(args, config, 'json'), { data: config });
+		console.error(
+			files.length > 0
+				? `\nLoaded from: ${files.join(', ')}`
+				: `\nNo config files found (user config: ${get_user_config_path()})`,
+		);
+	},
+});
+
+const cache_clear_command = define_command({
+	meta: {
+		name: 'clear',
+		description: 'Delete all cached responses',
+	},
+	args: {
+		...format_arg,
+	},
+	run({ args }) {
+		const removed = clear_cache();
+		print(resolve_format(args, get_config(), 'text'), {
+			data: { removed },
+			text: () => `Removed ${removed} cached response(s)`,
+		});
+	},
+});
+
+const cache_info_command = define_command({
+	meta: {
+		name: 'info',
+		description: 'Show cache location, size and age',
+	},
+	args: {
+		json: {
+			type: 'boolean',
+			description: 'Output as structured JSON',
+		},
+		...format_arg,
+	},
+	run({ args }) {
+		const format = resolve_format(
+			args,
+			get_config(),
+			is_plain() ? 'json' : 'text',
+		);
+		print(format, {
+			data: cache_info(),
+			text: (info) => {
+				const lines = [
+					`\nCache directory: ${info.dir}`,
+					`Entries: ${info.entries}`,
+					`Size: ${(info.size_bytes / 1024).toFixed(1)} KB`,
+				];
+				if (info.oldest && info.newest) {
+					lines.push(`Oldest: ${info.oldest}`);
+					lines.push(`Newest: ${info.newest}`);
+				}
+				return lines.join('\n');
+			},
+		});
+	},
+});
+
+const cache_command = define_command({
+	meta: {
+		name: 'cache',
+		description: 'Manage the local response cache',
+	},
+	subCommands: {
+		clear: cache_clear_command,
+		info: cache_info_command,
+	},
+});
+
+// Values come from the cached catalog so tab stays fast; only the
+// first completion, with nothing cached yet, goes to the network
+async function from_cache<T>(
+	context: CompletionContext,
+	load: () => Promise<T>,
+): Promise<T> {
+	configure_source({
+		offline: true,
+		bundle: context.flags.bundle,
+		'api-base': context.flags['api-base'],
+	});
+	try {
+		return await load();
+	} catch {
+		configure_cache({ offline: false });
+		return load();
+	}
+}
+
+const scenario_names = (context: CompletionContext) =>
+	from_cache(context, async () =>
+		(await get_client().list_examples()).scenarios.map(scenario_name),
+	);
+
+const topic_slugs = (context: CompletionContext) =>
+	from_cache(context, async () =>
+		(await get_client().list_docs()).topics.map(
+			(topic) => topic.slug,
+		),
+	);
+
+// Fields of the scenario on the command line, or of the first one in
+// the catalog; every scenario shares the same top-level shape
+async function example_fields(context: CompletionContext) {
+	const name =
+		context.positionals[0]?.split(',')[0] ??
+		(await scenario_names(context))[0];
+	if (!name) return [];
+	const example = await from_cache(context, () =>
+		get_client().get_example(name),
+	);
+	return Object.keys(example).filter((key) => !key.startsWith('_'));
+}
+
+const COMPLETIONS: CompletionProviders = {
+	'get scenario': { values: scenario_names, list: true },
+	'get --filter': { values: example_fields },
+	'get --sections': { values: example_fields, list: true },
+	'docs topic': { values: topic_slugs, list: true },
+	'related slug': {
+		values: async (context) => [
+			...(await scenario_names(context)),
+			...(await topic_slugs(context)),
+		],
+	},
+	'search --filter': {
+		values: () => ['all', 'docs', 'examples', 'components'],
+	},
+	'completions shell': { values: () => [...SHELLS] },
+	'--format': { values: () => [...OUTPUT_FORMATS] },
+};
+
+const completions_command = define_command({
+	meta: {
+		name: 'completions',
+		description:
+			'Print a shell completion script (bash, zsh or fish)',
+	},
+	args: {
+		shell: {
+			type: 'positional',
+			description: 'bash, zsh or fish',
+			required: true,
+		},
+	},
+	run({ args }) {
+		process.stdout.write(completion_script(args.shell));
+	},
+});
+
+const complete_command = define_command({
+	meta: {
+		name: COMPLETE_COMMAND,
+		description: 'Print completion candidates for a command line',
+		hidden: true,
+	},
+	async run({ rawArgs }) {
+		const words = rawArgs[0] === '--' ? rawArgs.slice(1) : rawArgs;
+		const candidates = await complete(main, words, COMPLETIONS);
+		if (candidates.length > 0) console.log(candidates.join('\n'));
+	},
+});
+
+const main = define_command({
+	meta: {
+		name: 'sveltest',
+		version: get_cli_version(),
+		description:
+			'Fetch Svelte testing patterns and examples from sveltest.dev',
+	},
+	subCommands: {
+		llms: llms_command,
+		docs: docs_command,
+		list: list_command,
+		get: get_command,
+		search: search_command,
+		related: related_command,
+		init: init_command,
+		generate: generate_command,
+		migrate: migrate_command,
+		doctor: doctor_command,
+		'self-check': self_check_command,
+		context: context_command,
+		troubleshoot: troubleshoot_command,
+		mcp: mcp_command,
+		mirror: mirror_command,
+		config: config_command,
+		cache: cache_command,
+		completions: completions_command,
+		[COMPLETE_COMMAND]: complete_command,
+	},
+	// citty also calls this after a subcommand has run
+	async run({ rawArgs }) {
+		if (rawArgs.some((arg) => !arg.startsWith('-'))) return;
+		if (
+			rawArgs.length === 0 &&
+			process.stdin.isTTY &&
+			process.stdout.isTTY
+		) {
+			await start_tui(get_client());
+			return;
+		}
+		await showUsage(main);
+		console.error('No command specified.');
+		process.exitCode = 1;
+	},
+});
+
+runMain(main);
@@ -0,0 +1,298 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SveltestClient, type FetchLike } from './client';
+
+function mock_fetch(routes: Record<string, unknown>) {
+	return vi.fn<FetchLike>(async (url) => {
+		const body = routes[url];
+		if (body === undefined) return new Response('', { status: 404 });
+		return new Response(
+			typeof body === 'string' ? body : JSON.stringify(body),
+		);
+	});
+}
+
+describe('SveltestClient', () => {
+	it('defaults to sveltest.dev', () => {
+		const client = new SveltestClient();
+
+		expect(client.api_base).toBe('https://sveltest.dev/api');
+		expect(client.site_base).toBe('https://sveltest.dev');
+	});
+
+	it('derives the site base from a custom api base', () => {
+		const client = new SveltestClient({
+			api_base: 'http://localhost:4173/api/',
+		});
+
+		expect(client.api_base).toBe('http://localhost:4173/api');
+		expect(client.site_base).toBe('http://localhost:4173');
+	});
+
+	it('shapes examples with compact and sections', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/examples': {
+				scenarios: [
+					{
+						endpoint: '/api/examples/button-variants',
+						related: [
+							{
+								kind: 'scenario',
+								slug: 'locator-patterns',
+								reason: 'Role queries',
+							},
+							{
+								kind: 'topic',
+								slug: 'component-testing',
+								reason: 'Browser patterns',
+							},
+							{
+								kind: 'scenario',
+								slug: 'modal-states',
+								reason: 'Buttons open modals',
+							},
+						],
+					},
+				],
+			},
+			'https://sveltest.dev/api/examples/button-variants': {
+				title: 'Button Variants',
+				description: 'verbose',
+				variants: ['primary'],
+				test_scenarios: ['click'],
+			},
+		});
+		const client = new SveltestClient({ fetch });
+
+		const example = await client.get_example('button-variants', {
+			compact: true,
+			sections: ['variants'],
+		});
+
+		expect(example).toEqual({
+			variants: ['primary'],
+			_related: ['locator-patterns', 'modal-states'],
+		});
+	});
+
+	it('returns examples without _related when the catalog fails', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/examples/button-variants': {
+				title: 'Button Variants',
+			},
+		});
+		const client = new SveltestClient({ fetch });
+
+		expect(await client.get_example('button-variants')).toEqual({
+			title: 'Button Variants',
+		});
+	});
+
+	it('walks the related graph from a scenario or topic', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/examples': {
+				scenarios: [
+					{
+						endpoint: '/api/examples/modal-states',
+						related: [
+							{
+								kind: 'topic',
+								slug: 'component-testing',
+								reason: 'Focus',
+							},
+						],
+					},
+				],
+			},
+		});
+		const client = new SveltestClient({ fetch });
+
+		const nodes = await client.related('component');
+		expect(nodes.map(({ kind, slug }) => `${kind}:${slug}`)).toEqual([
+			'topic:component-testing',
+			'scenario:modal-states',
+		]);
+		await expect(client.related('modle-states')).rejects.toThrow(
+			"Unknown scenario or topic 'modle-states'. Did you mean 'modal-states'?",
+		);
+		// Both walks read the same catalog
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('passes the search filter as a query parameter', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/search?q=runes+testing&filter=docs': {
+				query: 'runes testing',
+				filter: 'docs',
+				results: [],
+				total: 0,
+			},
+		});
+		const client = new SveltestClient({ fetch });
+
+		const response = await client.search('runes testing', 'docs');
+		expect(response.filter).toBe('docs');
+	});
+
+	it('rejects malformed queries before making a request', async () => {
+		const fetch = vi.fn<FetchLike>();
+		const client = new SveltestClient({ fetch });
+
+		await expect(client.search('type:')).rejects.toThrow(
+			'type: needs a value, e.g. type:example',
+		);
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	it('returns docs as markdown or JSON', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/docs/ci-cd': '# CI/CD',
+			'https://sveltest.dev/api/docs/ci-cd?format=json': {
+				slug: 'ci-cd',
+				content: '# CI/CD',
+			},
+		});
+		const client = new SveltestClient({ fetch });
+
+		expect(await client.get_doc('ci-cd')).toBe('# CI/CD');
+		expect(
+			await client.get_doc('ci-cd', { format: 'json' }),
+		).toMatchObject({ slug: 'ci-cd' });
+	});
+
+	it('fetches llms files from the site base', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/llms-full.txt': 'everything',
+		});
+		const client = new SveltestClient({ fetch });
+
+		expect(await client.llms({ full: true })).toBe('everything');
+	});
+
+	it('batches examples in order with per-item errors', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/examples/a': { title: 'A' },
+			'https://sveltest.dev/api/examples/c': { title: 'C' },
+		});
+		const client = new SveltestClient({ fetch, concurrency: 2 });
+
+		const batch = await client.get_examples(['c', 'b', 'a']);
+
+		expect(Object.keys(batch.results)).toEqual(['c', 'a']);
+		expect(batch.errors).toEqual({ b: "Unknown scenario 'b'." });
+	});
+
+	it('fetches the examples catalog once per client', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/examples': {
+				scenarios: [
+					{ endpoint: '/api/examples/a' },
+					{ endpoint: '/api/examples/b' },
+				],
+			},
+			'https://sveltest.dev/api/examples/a': { title: 'A' },
+			'https://sveltest.dev/api/examples/b': { title: 'B' },
+		});
+		const client = new SveltestClient({ fetch });
+
+		await client.get_examples(['a', 'b', 'a']);
+
+		expect(
+			fetch.mock.calls.filter(
+				([url]) => url === 'https://sveltest.dev/api/examples',
+			),
+		).toHaveLength(1);
+	});
+
+	it('times out requests that never answer', async () => {
+		const client = new SveltestClient({
+			timeout: 10,
+			fetch: (_, init) =>
+				new Promise((_, reject) => {
+					init?.signal?.addEventListener('abort', () =>
+						reject(init.signal?.reason),
+					);
+				}),
+		});
+
+		await expect(client.list_docs()).rejects.toMatchObject({
+			kind: 'timeout',
+		});
+	});
+
+	it('keeps the concurrency option', () => {
+		expect(new SveltestClient({ concurrency: 2 }).concurrency).toBe(
+			2,
+		);
+	});
+
+	it('resolves prefixes and suggests close names', async () => {
+		const fetch = mock_fetch({
+			'https://sveltest.dev/api/examples': {
+				scenarios: [
+					{ endpoint: '/api/examples/authentication' },
+					{ endpoint: '/api/examples/button-variants' },
+				],
+			},
+			'https://sveltest.dev/api/examples/authentication': {
+				title: 'Authentication',
+			},
+		});
+		const client = new SveltestClient({ fetch });
+
+		expect(await client.get_example('auth')).toMatchObject({
+			title: 'Authentication',
+		});
+		await expect(
+			client.get_example('buton-variants'),
+		).rejects.toThrow(
+			"Unknown scenario 'buton-variants'. Did you mean 'button-variants'?",
+		);
+	});
+
+	it('classifies failures for exit codes', async () => {
+		const client = new SveltestClient({
+			fetch: async () => new Response('', { status: 503 }),
+		});
+		await expect(client.list_docs()).rejects.toMatchObject({
+			kind: 'server',
+			status: 503,
+			exit_code: 5,
+		});
+
+		const offline = new SveltestClient({
+			fetch: () => Promise.reject(new TypeError('fetch failed')),
+		});
+		await expect(offline.list_docs()).rejects.toMatchObject({
+			kind: 'network',
+			exit_code: 3,
+		});
+	});
+
+	it('sends its version and refuses a newer API', async () => {
+		const fetch = vi.fn<FetchLike>(
+			async () =>
+				new Response('{"topics":[]}', {
+					headers: { 'X-Sveltest-Api-Version': '2' },
+				}),
+		);
+		const client = new SveltestClient({ fetch });
+
+		await expect(client.list_docs()).rejects.toMatchObject({
+			kind: 'incompatible',
+			exit_code: 6,
+		});
+		const headers = fetch.mock.calls[0][1]?.headers as Record<
+			string,
+			string
+		>;
+		expect(headers['X-Sveltest-Client-Version']).toBeDefined();
+	});
+
+	it('throws on HTTP errors', async () => {
+		const client = new SveltestClient({ fetch: mock_fetch({}) });
+
+		await expect(client.list_examples()).rejects.toThrow(
+			'HTTP error! status: 404',
+		);
+	});
+});
@@ -0,0 +1,292 @@
+import { run_batch, type BatchResult } from './batch';
+import { DEFAULT_API_BASE, site_base_for } from './config';
+import {
+	http_error,
+	is_not_found,
+	request_error,
+	SveltestError,
+} from './errors';
+import {
+	related_scenarios,
+	scenario_name,
+	shape_example,
+	type GetExampleOptions,
+} from './examples';
+import { get_cli_version } from './meta';
+import {
+	graph_nodes,
+	walk_related,
+	type RelatedNode,
+} from './related';
+import { parse_query } from './search-query';
+import { did_you_mean, match_name } from './suggest';
+import type {
+	DocResponse,
+	DocsIndexResponse,
+	ExamplesResponse,
+	SearchResponse,
+} from './types';
+import {
+	API_VERSION_HEADER,
+	check_api_version,
+	CLIENT_VERSION_HEADER,
+} from './version';
+
+export type FetchLike = (
+	input: string,
+	init?: RequestInit,
+) => Promise<Response>;
+
+export interface SveltestClientOptions {
+	// Defaults to https://sveltest.dev/api
+	api_base?: string;
+	// Where llms.txt lives; defaults to api_base without the trailing /api
+	site_base?: string;
+	// Defaults to the global fetch
+	fetch?: FetchLike;
+	// Requests in flight at once for the batch methods (default 4)
+	concurrency?: number;
+	// Milliseconds before a request is abandoned (default 30000)
+	timeout?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Superseded by `type:` in the query; still sent for older servers
+export type SearchFilter = 'all' | 'docs' | 'examples' | 'components';
+
+/**
+ * Typed access to the sveltest.dev API. Holds no state beyond its
+ * options and the examples catalog it resolves scenario names and
+ * related links against, which is fetched once per instance, so one
+ * instance can be shared across an application.
+ * Responses from an API newer than this package understands throw an
+ * `incompatible` SveltestError rather than being misread.
+ *
+ * @example
+ * const client = new SveltestClient();
+ * const example = await client.get_example('button-variants', {
+ * 	compact: true,
+ * });
+ */
+export class SveltestClient {
+	readonly api_base: string;
+	readonly site_base: string;
+	readonly concurrency: number | undefined;
+	readonly timeout: number;
+	readonly #fetch: FetchLike;
+	#catalog: Promise<ExamplesResponse> | undefined;
+
+	constructor(options: SveltestClientOptions = {}) {
+		this.api_base = (options.api_base ?? DEFAULT_API_BASE).replace(
+			/\/+$/,
+			'',
+		);
+		this.site_base = (
+			options.site_base ?? site_base_for(this.api_base)
+		).replace(/\/+$/, '');
+		this.concurrency = options.concurrency;
+		this.timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+		this.#fetch =
+			options.fetch ?? ((input, init) => fetch(input, init));
+	}
+
+	async #text(url: string): Promise<string> {
+		let response: Response;
+		try {
+			response = await this.#fetch(url, {
+				headers: { [CLIENT_VERSION_HEADER]: get_cli_version() },
+				signal: AbortSignal.timeout(this.timeout),
+			});
+		} catch (error) {
+			throw request_error(error, url);
+		}
+		if (!response.ok) throw http_error(response.status);
+		check_api_version(response.headers.get(API_VERSION_HEADER), url);
+		return response.text();
+	}
+
+	async #json<T>(url: string): Promise<T> {
+		return JSON.parse(await this.#text(url)) as T;
+	}
+
+	// Shared by every lookup on this instance, so a batch costs one
+	// catalog request; a failed one is retried on the next lookup
+	#examples_catalog(): Promise<ExamplesResponse> {
+		this.#catalog ??= this.list_examples().catch((error: unknown) => {
+			this.#catalog = undefined;
+			throw error;
+		});
+		return this.#catalog;
+	}
+
+	async #names(kind: 'scenario' | 'topic'): Promise<string[]> {
+		return kind === 'scenario'
+			? (await this.#examples_catalog()).scenarios.map(scenario_name)
+			: (await this.list_docs()).topics.map((topic) => topic.slug);
+	}
+
+	// A 404 is retried with the name the catalog resolves `name` to
+	// (an alias or unambiguous prefix); otherwise the error lists the
+	// closest names
+	async #resolve<T>(
+		name: string,
+		kind: 'scenario' | 'topic',
+		fetch_one: (name: string) => Promise<T>,
+	): Promise<T> {
+		try {
+			return await fetch_one(name);
+		} catch (error) {
+			if (!is_not_found(error)) throw error;
+			const names = await this.#names(kind).catch(() => []);
+			const { match, suggestions } = match_name(name, names);
+			if (match && match !== name) return fetch_one(match);
+			throw new SveltestError(
+				'not_found',
+				`Unknown ${kind} '${name}'.${did_you_mean(suggestions)}`,
+				{ status: error.status, suggestions, cause: error },
+			);
+		}
+	}
+
+	list_examples(): Promise<ExamplesResponse> {
+		return this.#json(`${this.api_base}/examples`);
+	}
+
+	/**
+	 * Fetch one scenario. `compact`, `filter` and `sections` trim the
+	 * response the same way the CLI flags do, and `_related` lists
+	 * the scenarios the catalog links it to. Aliases and unambiguous
+	 * prefixes (`auth`) resolve to the full name; unknown names throw a
+	 * `not_found` SveltestError with suggestions.
+	 */
+	get_example(
+		name: string,
+		options: GetExampleOptions = {},
+	): Promise<Record<string, unknown>> {
+		return this.#resolve(name, 'scenario', async (scenario) => {
+			// The links are a bonus; the example stands without them
+			const [data, catalog] = await Promise.all([
+				this.#json<Record<string, unknown>>(
+					`${this.api_base}/examples/${encodeURIComponent(scenario)}`,
+				),
+				this.#examples_catalog().catch(() => undefined),
+			]);
+			return shape_example(
+				data,
+				options,
+				related_scenarios(catalog?.scenarios ?? [], scenario),
+			);
+		});
+	}
+
+	/**
+	 * Fetch several scenarios concurrently. Results keep the requested
+	 * order and failures are collected in `errors` rather than thrown.
+	 */
+	get_examples(
+		names: string[],
+		options: GetExampleOptions = {},
+	): Promise<BatchResult<Record<string, unknown>>> {
+		return run_batch(
+			names,
+			(name) => this.get_example(name, options),
+			this.concurrency,
+		);
+	}
+
+	/**
+	 * Search docs and examples. `query` takes the site's query syntax
+	 * (`"exact phrase" -excluded type:example`); a malformed one throws
+	 * a QueryError before any request is made.
+	 */
+	async search(
+		query: string,
+		filter?: SearchFilter,
+	): Promise<SearchResponse> {
+		parse_query(query);
+		const params = new URLSearchParams({ q: query });
+		if (filter) params.append('filter', filter);
+		return this.#json(`${this.api_base}/search?${params.toString()}`);
+	}
+
+	list_docs(): Promise<DocsIndexResponse> {
+		return this.#json(`${this.api_base}/docs`);
+	}
+
+	get_doc(
+		slug: string,
+		options?: { format?: 'markdown' },
+	): Promise<string>;
+	get_doc(
+		slug: string,
+		options: { format: 'json' },
+	): Promise<DocResponse>;
+	get_doc(
+		slug: string,
+		options: { format?: 'markdown' | 'json' } = {},
+	): Promise<string | DocResponse> {
+		return this.#resolve<string | DocResponse>(
+			slug,
+			'topic',
+			(topic) => {
+				const url = `${this.api_base}/docs/${encodeURIComponent(topic)}`;
+				return options.format === 'json'
+					? this.#json<DocResponse>(`${url}?format=json`)
+					: this.#text(url);
+			},
+		);
+	}
+
+	get_docs(slugs: string[]): Promise<BatchResult<string>> {
+		return run_batch(
+			slugs,
+			(slug) => this.get_doc(slug),
+			this.concurrency,
+		);
+	}
+
+	get_docs_json(slugs: string[]): Promise<BatchResult<DocResponse>> {
+		return run_batch(
+			slugs,
+			(slug) => this.get_doc(slug, { format: 'json' }),
+			this.concurrency,
+		);
+	}
+
+	/**
+	 * Walk the related graph the examples catalog publishes, from a
+	 * scenario or docs topic up to `depth` links away (default 1). The
+	 * first node is the start; a name that is both a scenario and a
+	 * topic starts from the scenario.
+	 */
+	async related(
+		name: string,
+		options: { depth?: number } = {},
+	): Promise<RelatedNode[]> {
+		const { scenarios } = await this.#examples_catalog();
+		const keys = graph_nodes(scenarios);
+		const slugs = [...new Set(keys.map((key) => key.split(':')[1]))];
+		const { match, suggestions } = match_name(name, slugs);
+		if (!match) {
+			throw new SveltestError(
+				'not_found',
+				`Unknown scenario or topic '${name}'.${did_you_mean(suggestions)}`,
+				{ suggestions },
+			);
+		}
+		const kind = keys.includes(`scenario:${match}`)
+			? 'scenario'
+			: 'topic';
+		return walk_related(
+			scenarios,
+			{ kind, slug: match },
+			options.depth ?? 1,
+		);
+	}
+
+	llms(options: { full?: boolean } = {}): Promise<string> {
+		const file = options.full ? 'llms-full.txt' : 'llms.txt';
+		return this.#text(`${this.site_base}/${file}`);
+	}
+}
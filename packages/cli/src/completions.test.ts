@@ -0,0 +1,118 @@
+import { defineCommand } from 'citty';
+import { describe, expect, it } from 'vitest';
+import {
+	complete,
+	completion_script,
+	type CompletionProviders,
+} from './completions';
+
+const root = defineCommand({
+	meta: { name: 'sveltest' },
+	subCommands: {
+		get: defineCommand({
+			args: {
+				scenario: { type: 'positional' },
+				compact: { type: 'boolean' },
+				filter: { type: 'string' },
+				format: { type: 'string' },
+			},
+		}),
+		cache: defineCommand({
+			subCommands: {
+				info: defineCommand({}),
+				clear: defineCommand({}),
+			},
+		}),
+		secret: defineCommand({ meta: { hidden: true } }),
+	},
+});
+
+const providers: CompletionProviders = {
+	'get scenario': {
+		values: () => [
+			'button-variants',
+			'modal-states',
+			'runes-testing',
+		],
+		list: true,
+	},
+	'get --filter': {
+		values: (context) =>
+			context.positionals[0] === 'modal-states'
+				? ['title', 'test_scenarios']
+				: ['title'],
+	},
+	'--format': { values: () => ['json', 'yaml'] },
+};
+
+describe('complete', () => {
+	it('lists visible subcommands, nested ones included', async () => {
+		expect(await complete(root, [''], providers)).toEqual([
+			'get',
+			'cache',
+		]);
+		expect(await complete(root, ['cache', 'c'], providers)).toEqual([
+			'clear',
+		]);
+	});
+
+	it('lists the flags of the current command', async () => {
+		expect(await complete(root, ['get', '--f'], providers)).toEqual([
+			'--filter',
+			'--format',
+		]);
+	});
+
+	it('completes each item of a comma-separated list', async () => {
+		expect(
+			await complete(root, ['get', 'modal-states,'], providers),
+		).toEqual([
+			'modal-states,button-variants',
+			'modal-states,runes-testing',
+		]);
+	});
+
+	it('completes flag values with the words typed so far', async () => {
+		expect(
+			await complete(
+				root,
+				['get', 'modal-states', '--filter', 't'],
+				providers,
+			),
+		).toEqual(['title', 'test_scenarios']);
+		expect(
+			await complete(root, ['get', '--format', ''], providers),
+		).toEqual(['json', 'yaml']);
+		// Boolean flags take no value
+		expect(
+			await complete(root, ['get', '--compact', 'b'], providers),
+		).toEqual(['button-variants']);
+	});
+
+	it('returns nothing when a provider fails', async () => {
+		const failing: CompletionProviders = {
+			'get scenario': {
+				values: () => Promise.reject(new Error('offline')),
+			},
+		};
+		expect(await complete(root, ['get', ''], failing)).toEqual([]);
+	});
+});
+
+describe('completion_script', () => {
+	it('calls back into the CLI for candidates', () => {
+		expect(completion_script('bash')).toContain(
+			'complete -o default -F _sveltest_completions sveltest',
+		);
+		expect(completion_script('zsh')).toContain('#compdef sveltest');
+		expect(completion_script('fish')).toContain(
+			'sveltest __complete -- $words[2..-1]',
+		);
+	});
+
+	it('rejects unknown shells', () => {
+		expect(() => completion_script('powershell')).toThrow(
+			"Unknown shell 'powershell'. Use one of: bash, zsh, fish",
+		);
+	});
+});
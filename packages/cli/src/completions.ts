@@ -0,0 +1,228 @@
+import type { ArgsDef, CommandDef } from 'citty';
+import { SveltestError } from './errors';
+
+export const SHELLS = ['bash', 'zsh', 'fish'] as const;
+export type Shell = (typeof SHELLS)[number];
+
+// The hidden command the scripts call back into on every tab
+export const COMPLETE_COMMAND = '__complete';
+
+export interface CompletionContext {
+	// Subcommands leading to the one being completed, e.g. ['cache']
+	path: string[];
+	// Positional words already typed for that command
+	positionals: string[];
+	// String flags already typed, by name without dashes
+	flags: Record<string, string>;
+}
+
+export interface CompletionValues {
+	values: (
+		context: CompletionContext,
+	) => Promise<string[]> | string[];
+	// Comma-separated lists complete the item after the last comma
+	list?: boolean;
+}
+
+// Keyed by command path and argument, `get scenario` for a positional
+// or `get --filter` for a flag; `--format` alone applies to every
+// command
+export type CompletionProviders = Record<string, CompletionValues>;
+
+type Resolvable<T> = T | Promise<T> | (() => T) | (() => Promise<T>);
+
+async function resolve_value<T>(value: Resolvable<T>): Promise<T> {
+	return typeof value === 'function'
+		? (value as () => T | Promise<T>)()
+		: value;
+}
+
+async function command_args(command: CommandDef): Promise<ArgsDef> {
+	return (await resolve_value(command.args)) ?? {};
+}
+
+async function visible_subcommands(
+	command: CommandDef,
+): Promise<[string, CommandDef][]> {
+	const subcommands = await resolve_value(command.subCommands);
+	const entries = await Promise.all(
+		Object.entries(subcommands ?? {}).map(
+			async ([name, sub]) =>
+				[name, await resolve_value(sub)] as [string, CommandDef],
+		),
+	);
+	const hidden = await Promise.all(
+		entries.map(
+			async ([, sub]) => (await resolve_value(sub.meta))?.hidden,
+		),
+	);
+	return entries.filter((_, index) => !hidden[index]);
+}
+
+async function provided(
+	providers: CompletionProviders,
+	key: string,
+	fallback: string,
+	current: string,
+	context: CompletionContext,
+): Promise<string[]> {
+	const provider = providers[key] ?? providers[fallback];
+	if (!provider) return [];
+	let values: string[];
+	try {
+		values = await provider.values(context);
+	} catch {
+		// A catalog that cannot be read just means no suggestions
+		return [];
+	}
+	if (!provider.list) {
+		return values.filter((value) => value.startsWith(current));
+	}
+	const cut = current.lastIndexOf(',') + 1;
+	const done = current.slice(0, cut);
+	const taken = new Set(done.split(','));
+	return values
+		.filter(
+			(value) =>
+				!taken.has(value) && value.startsWith(current.slice(cut)),
+		)
+		.map((value) => `${done}${value}`);
+}
+
+/**
+ * Candidates for the last of `words` (the command line after the
+ * program name, with the word being typed last, possibly empty):
+ * subcommands, flags of the current command, or the values a
+ * provider lists for the positional or flag being filled in.
+ */
+export async function complete(
+	root: CommandDef,
+	words: string[],
+	providers: CompletionProviders,
+): Promise<string[]> {
+	const current = words.at(-1) ?? '';
+	const context: CompletionContext = {
+		path: [],
+		positionals: [],
+		flags: {},
+	};
+	let command = root;
+	let args = await command_args(command);
+	let pending: string | undefined;
+
+	for (const word of words.slice(0, -1)) {
+		if (pending) {
+			context.flags[pending] = word;
+			pending = undefined;
+		} else if (word.startsWith('-')) {
+			const name = word.replace(/^-+/, '');
+			if (args[name]?.type === 'string') pending = name;
+		} else {
+			const sub = (await visible_subcommands(command)).find(
+				([name]) => name === word,
+			);
+			if (sub && context.positionals.length === 0) {
+				command = sub[1];
+				args = await command_args(command);
+				context.path.push(word);
+			} else {
+				context.positionals.push(word);
+			}
+		}
+	}
+
+	const path = context.path.join(' ');
+	if (pending) {
+		return provided(
+			providers,
+			`${path} --${pending}`,
+			`--${pending}`,
+			current,
+			context,
+		);
+	}
+	if (current.startsWith('-')) {
+		return [
+			...Object.entries(args)
+				.filter(([, arg]) => arg.type !== 'positional')
+				.map(([name]) => `--${name}`),
+			'--help',
+		].filter((flag) => flag.startsWith(current));
+	}
+
+	const subcommands = await visible_subcommands(command);
+	if (subcommands.length > 0) {
+		return subcommands
+			.map(([name]) => name)
+			.filter((name) => name.startsWith(current));
+	}
+	const positional = Object.entries(args).filter(
+		([, arg]) => arg.type === 'positional',
+	)[context.positionals.length];
+	return positional
+		? provided(
+				providers,
+				`${path} ${positional[0]}`,
+				positional[0],
+				current,
+				context,
+			)
+		: [];
+}
+
+const SCRIPTS: Record<Shell, (program: string) => string> = {
+	bash: (program) => `# ${program} bash completion. Add to ~/.bashrc:
+#   source <(${program} completions bash)
+_${program}_completions() {
+	local IFS=$'\\n'
+	COMPREPLY=($(${program} ${COMPLETE_COMMAND} -- "\${COMP_WORDS[@]:1:COMP_CWORD}" 2>/dev/null))
+}
+complete -o default -F _${program}_completions ${program}
+`,
+	zsh: (program) => `#compdef ${program}
+# ${program} zsh completion. Add to ~/.zshrc after compinit:
+#   source <(${program} completions zsh)
+_${program}() {
+	local -a candidates
+	candidates=(\${(f)"$(${program} ${COMPLETE_COMMAND} -- "\${(@)words[2,CURRENT]}" 2>/dev/null)"})
+	if (( \${#candidates} )); then
+		compadd -- "\${candidates[@]}"
+	else
+		_files
+	fi
+}
+compdef _${program} ${program}
+`,
+	fish: (program) => `# ${program} fish completion. Save as
+# ~/.config/fish/completions/${program}.fish:
+#   ${program} completions fish > ~/.config/fish/completions/${program}.fish
+function __${program}_complete
+	set -l words (commandline -opc) (commandline -ct)
+	set -l candidates (${program} ${COMPLETE_COMMAND} -- $words[2..-1] 2>/dev/null)
+	if test (count $candidates) -eq 0
+		__fish_complete_path (commandline -ct)
+	else
+		printf '%s\\n' $candidates
+	end
+end
+complete -c ${program} -f -a '(__${program}_complete)'
+`,
+};
+
+/**
+ * A completion script for `shell`. Scripts hold no names themselves;
+ * they ask the CLI on every tab, so new commands, scenarios and
+ * topics are picked up without regenerating them.
+ */
+export function completion_script(
+	shell: string,
+	program = 'sveltest',
+): string {
+	if (!(SHELLS as readonly string[]).includes(shell)) {
+		throw new SveltestError(
+			'usage',
+			`Unknown shell '${shell}'. Use one of: ${SHELLS.join(', ')}`,
+		);
+	}
+	return SCRIPTS[shell as Shell](program);
+}
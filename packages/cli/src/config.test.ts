@@ -0,0 +1,151 @@
+import {
+	mkdirSync,
+	mkdtempSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import {
+	DEFAULT_API_BASE,
+	find_project_config,
+	load_config,
+	read_config_file,
+	site_base_for,
+} from './config';
+import { DEFAULT_REGISTRY_URL } from './version';
+
+describe('config', () => {
+	let root: string;
+	let project: string;
+	const original_env = { ...process.env };
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), 'sveltest-config-'));
+		project = join(root, 'project', 'packages', 'app');
+		mkdirSync(project, { recursive: true });
+		mkdirSync(join(root, 'xdg', 'sveltest'), { recursive: true });
+		process.env.XDG_CONFIG_HOME = join(root, 'xdg');
+		delete process.env.SVELTEST_API_BASE;
+	});
+
+	afterEach(() => {
+		process.env = { ...original_env };
+		vi.restoreAllMocks();
+		rmSync(root, { recursive: true, force: true });
+	});
+
+	function write_user_config(config: object) {
+		writeFileSync(
+			join(root, 'xdg', 'sveltest', 'config.json'),
+			JSON.stringify(config),
+		);
+	}
+
+	function write_project_config(config: object) {
+		writeFileSync(
+			join(root, 'project', '.sveltestrc'),
+			JSON.stringify(config),
+		);
+	}
+
+	it('uses the built-in defaults without config files', () => {
+		const config = load_config(project);
+
+		expect(config.api_base).toBe(DEFAULT_API_BASE);
+		expect(config.site_base).toBe('https://sveltest.dev');
+		expect(config.files).toEqual([]);
+	});
+
+	it('finds the nearest .sveltestrc walking up', () => {
+		write_project_config({});
+		expect(find_project_config(project)).toBe(
+			join(root, 'project', '.sveltestrc'),
+		);
+	});
+
+	it('lets project config override user config', () => {
+		write_user_config({ json: true, compact: true });
+		write_project_config({ compact: false, plain: true });
+
+		const config = load_config(project);
+
+		expect(config).toMatchObject({
+			json: true,
+			compact: false,
+			plain: true,
+		});
+		expect(config.files).toHaveLength(2);
+	});
+
+	it('lets SVELTEST_API_BASE override config files', () => {
+		write_project_config({ api_base: 'https://staging.example/api' });
+		expect(load_config(project).api_base).toBe(
+			'https://staging.example/api',
+		);
+
+		process.env.SVELTEST_API_BASE = 'http://localhost:4173/api/';
+		const config = load_config(project);
+		expect(config.api_base).toBe('http://localhost:4173/api');
+		expect(config.site_base).toBe('http://localhost:4173');
+	});
+
+	it('reads the self-check registry URL from config', () => {
+		expect(load_config(project).registry_url).toBe(
+			DEFAULT_REGISTRY_URL,
+		);
+
+		write_project_config({
+			registry_url: 'https://npm.internal/sveltest/latest',
+		});
+		expect(load_config(project).registry_url).toBe(
+			'https://npm.internal/sveltest/latest',
+		);
+	});
+
+	it('warns about unknown keys and wrong types', () => {
+		const warn = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => {});
+		write_project_config({ json: 'yes', colour: true });
+
+		expect(
+			read_config_file(join(root, 'project', '.sveltestrc')),
+		).toEqual({});
+		expect(warn).toHaveBeenCalledTimes(2);
+	});
+
+	it('accepts known output formats only', () => {
+		const warn = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => {});
+		write_project_config({ format: 'yaml' });
+		expect(load_config(project).format).toBe('yaml');
+
+		write_project_config({ format: 'xml' });
+		expect(load_config(project).format).toBeUndefined();
+		expect(warn).toHaveBeenCalledOnce();
+	});
+
+	it('rejects invalid JSON', () => {
+		writeFileSync(join(root, 'project', '.sveltestrc'), '{ json: ');
+		expect(() => load_config(project)).toThrow('Invalid config file');
+	});
+
+	it('derives the site base from the api base', () => {
+		expect(
+			site_base_for('https://mirror.internal/sveltest/api'),
+		).toBe('https://mirror.internal/sveltest');
+		expect(site_base_for('http://localhost:4173')).toBe(
+			'http://localhost:4173',
+		);
+	});
+});
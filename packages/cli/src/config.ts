@@ -0,0 +1,167 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { SveltestError } from './errors';
+import { OUTPUT_FORMATS, type OutputFormat } from './format';
+import { DEFAULT_REGISTRY_URL } from './version';
+
+export const DEFAULT_API_BASE = 'https://sveltest.dev/api';
+
+export const PROJECT_CONFIG_FILES = [
+	'.sveltestrc',
+	'.sveltestrc.json',
+];
+
+export interface SveltestConfig {
+	api_base?: string;
+	// Where `sveltest self-check` reads the latest release
+	registry_url?: string;
+	json?: boolean;
+	format?: OutputFormat;
+	compact?: boolean;
+	context?: boolean;
+	plain?: boolean;
+}
+
+export interface ResolvedConfig extends SveltestConfig {
+	api_base: string;
+	registry_url: string;
+	site_base: string;
+	files: string[];
+}
+
+const BOOLEAN_KEYS = ['json', 'compact', 'context', 'plain'] as const;
+
+let resolved: ResolvedConfig | null = null;
+let api_base_override: string | undefined;
+
+export function get_user_config_path(): string {
+	const base =
+		process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+	return join(base, 'sveltest', 'config.json');
+}
+
+export function find_project_config(
+	start = process.cwd(),
+): string | null {
+	let dir = resolve(start);
+	while (true) {
+		for (const name of PROJECT_CONFIG_FILES) {
+			const path = join(dir, name);
+			if (existsSync(path)) return path;
+		}
+		const parent = dirname(dir);
+		if (parent === dir) return null;
+		dir = parent;
+	}
+}
+
+export function read_config_file(path: string): SveltestConfig {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(readFileSync(path, 'utf-8'));
+	} catch (error) {
+		throw new SveltestError(
+			'usage',
+			`Invalid config file ${path}: ${(error as Error).message}`,
+		);
+	}
+	if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+		throw new SveltestError(
+			'usage',
+			`Invalid config file ${path}: expected an object`,
+		);
+	}
+
+	const source = raw as Record<string, unknown>;
+	const config: SveltestConfig = {};
+	for (const [key, value] of Object.entries(source)) {
+		if (
+			(key === 'api_base' || key === 'registry_url') &&
+			typeof value === 'string'
+		) {
+			config[key] = value;
+		} else if (
+			key === 'format' &&
+			(OUTPUT_FORMATS as readonly unknown[]).includes(value)
+		) {
+			config.format = value as OutputFormat;
+		} else if (
+			(BOOLEAN_KEYS as readonly string[]).includes(key) &&
+			typeof value === 'boolean'
+		) {
+			config[key as (typeof BOOLEAN_KEYS)[number]] = value;
+		} else {
+			console.error(
+				`Warning: ignoring unknown or invalid key '${key}' in ${path}`,
+			);
+		}
+	}
+	return config;
+}
+
+function strip_trailing_slash(url: string): string {
+	return url.replace(/\/+$/, '');
+}
+
+// The llms files live at the site root, next to /api
+export function site_base_for(api_base: string): string {
+	return api_base.replace(/\/api$/, '');
+}
+
+/**
+ * Resolve settings from, highest precedence first: command-line
+ * flags, environment variables, the nearest project `.sveltestrc`,
+ * the user config file and finally the built-in defaults.
+ */
+export function load_config(cwd = process.cwd()): ResolvedConfig {
+	const files: string[] = [];
+	let merged: SveltestConfig = {};
+
+	const user_path = get_user_config_path();
+	if (existsSync(user_path)) {
+		merged = { ...merged, ...read_config_file(user_path) };
+		files.push(user_path);
+	}
+	const project_path = find_project_config(cwd);
+	if (project_path && project_path !== user_path) {
+		merged = { ...merged, ...read_config_file(project_path) };
+		files.push(project_path);
+	}
+
+	const api_base = strip_trailing_slash(
+		api_base_override ||
+			process.env.SVELTEST_API_BASE ||
+			merged.api_base ||
+			DEFAULT_API_BASE,
+	);
+	return {
+		...merged,
+		api_base,
+		site_base: site_base_for(api_base),
+		registry_url:
+			process.env.SVELTEST_REGISTRY_URL ||
+			merged.registry_url ||
+			DEFAULT_REGISTRY_URL,
+		files,
+	};
+}
+
+export function get_config(): ResolvedConfig {
+	resolved ??= load_config();
+	return resolved;
+}
+
+export function configure_api_base(api_base: string | undefined) {
+	if (api_base === undefined) return;
+	api_base_override = api_base;
+	resolved = null;
+}
+
+export function get_api_base(): string {
+	return get_config().api_base;
+}
+
+export function get_site_base(): string {
+	return get_config().site_base;
+}
@@ -0,0 +1,124 @@
+import {
+	mkdirSync,
+	mkdtempSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { plan_context, scan_project } from './context';
+
+function write(dir: string, file: string, content: string) {
+	mkdirSync(join(dir, file, '..'), { recursive: true });
+	writeFileSync(join(dir, file), content);
+}
+
+function included(dir: string) {
+	return plan_context(scan_project(dir)).map(
+		({ kind, name }) => `${kind}:${name}`,
+	);
+}
+
+describe('plan_context', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'sveltest-context-'));
+		write(
+			dir,
+			'package.json',
+			JSON.stringify({ devDependencies: {} }),
+		);
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('includes only getting-started for an empty project', () => {
+		expect(included(dir)).toEqual(['topic:getting-started']);
+	});
+
+	it('maps what the source uses to topics and scenarios', () => {
+		write(
+			dir,
+			'src/lib/counter.svelte.ts',
+			'export const count = $state(0);',
+		);
+		write(
+			dir,
+			'src/routes/+page.server.ts',
+			'export const actions = { default: async () => {} };',
+		);
+		write(
+			dir,
+			'src/lib/theme.ts',
+			"import { setContext } from 'svelte';\nsetContext('theme', 'dark');",
+		);
+		write(
+			dir,
+			'package.json',
+			JSON.stringify({
+				devDependencies: { '@playwright/test': '1' },
+			}),
+		);
+
+		expect(included(dir)).toEqual([
+			'topic:getting-started',
+			'topic:runes-testing',
+			'topic:server-testing',
+			'topic:context-testing',
+			'topic:e2e-testing',
+			'scenario:runes-testing',
+			'scenario:form-validation',
+			'scenario:crud-patterns',
+		]);
+	});
+
+	it('records every reason with the file that showed it', () => {
+		write(
+			dir,
+			'src/lib/login.svelte',
+			'<form><button>Go</button></form>',
+		);
+
+		const form = plan_context(scan_project(dir)).find(
+			({ name }) => name === 'form-validation',
+		);
+
+		expect(form?.reasons).toEqual(['forms (src/lib/login.svelte)']);
+	});
+
+	it('ignores tests, dependencies and build output', () => {
+		write(dir, 'src/a.svelte.test.ts', 'const x = $state(0);');
+		write(dir, 'node_modules/x/index.svelte', '<button />');
+		write(dir, '.svelte-kit/output/+page.svelte', '<form />');
+
+		expect(included(dir)).toEqual(['topic:getting-started']);
+	});
+
+	it('reports a file given as the project as a usage error', () => {
+		const file = join(dir, 'package.json');
+
+		expect(() => scan_project(file)).toThrow(
+			expect.objectContaining({
+				kind: 'usage',
+				message: `Not a directory: ${file}`,
+			}),
+		);
+	});
+
+	it('names a malformed package.json in a usage error', () => {
+		write(dir, 'package.json', '{ "devDependencies": ');
+
+		expect(() => scan_project(dir)).toThrow(
+			expect.objectContaining({
+				kind: 'usage',
+				message: expect.stringContaining(
+					`Could not read ${join(dir, 'package.json')}:`,
+				),
+			}),
+		);
+	});
+});
@@ -0,0 +1,269 @@
+import {
+	existsSync,
+	readdirSync,
+	readFileSync,
+	statSync,
+} from 'node:fs';
+import { join, relative } from 'node:path';
+import { SveltestError } from './errors';
+
+export interface ProjectFile {
+	// Relative to the project root, with forward slashes
+	path: string;
+	source: string;
+}
+
+export interface Project {
+	files: ProjectFile[];
+	deps: Record<string, string>;
+}
+
+export interface ContextItem {
+	kind: 'topic' | 'scenario';
+	name: string;
+	// Why it was included, with the file that showed it
+	reasons: string[];
+}
+
+interface ContextRule {
+	reason: string;
+	topics: string[];
+	scenarios: string[];
+	// The file that shows the signal, or undefined when absent
+	detect: (project: Project) => string | undefined;
+}
+
+const SOURCE_FILE = /\.(svelte|[cm]?[jt]s|ya?ml)$/;
+const TEST_FILE = /\.(test|spec)\.[cm]?[jt]s$/;
+const SKIPPED_DIRS = new Set(['node_modules', 'build', 'dist']);
+// Large generated files say nothing about how the app is written
+const MAX_FILE_BYTES = 200_000;
+
+function find(
+	project: Project,
+	path: RegExp,
+	source?: RegExp,
+): string | undefined {
+	return project.files.find(
+		(file) =>
+			path.test(file.path) && (!source || source.test(file.source)),
+	)?.path;
+}
+
+function dependency(project: Project, name: string) {
+	return name in project.deps ? 'package.json' : undefined;
+}
+
+const COMPONENT = /\.svelte$/;
+
+// In the order the pieces should appear in the context document
+const RULES: ContextRule[] = [
+	{
+		reason: 'Svelte components',
+		topics: ['component-testing'],
+		scenarios: ['locator-patterns'],
+		detect: (project) => find(project, COMPONENT),
+	},
+	{
+		reason: 'runes in .svelte.ts modules',
+		topics: ['runes-testing'],
+		scenarios: ['runes-testing'],
+		detect: (project) =>
+			find(project, /\.svelte\.[jt]s$/, /\$(state|derived|effect)\b/),
+	},
+	{
+		reason: 'buttons',
+		topics: [],
+		scenarios: ['button-variants'],
+		detect: (project) => find(project, COMPONENT, /<button\b/),
+	},
+	{
+		reason: 'forms',
+		topics: [],
+		scenarios: ['form-validation'],
+		detect: (project) => find(project, COMPONENT, /<form\b/),
+	},
+	{
+		reason: 'dialogs',
+		topics: [],
+		scenarios: ['modal-states'],
+		detect: (project) =>
+			find(project, COMPONENT, /<dialog\b|role=["']dialog["']/),
+	},
+	{
+		reason: 'pages rendered on the server',
+		topics: ['ssr-testing'],
+		scenarios: [],
+		detect: (project) => find(project, /\+(page|layout)\.svelte$/),
+	},
+	{
+		reason: 'form actions',
+		topics: ['server-testing'],
+		scenarios: ['form-validation', 'crud-patterns'],
+		detect: (project) =>
+			find(
+				project,
+				/\+page\.server\.[jt]s$/,
+				/export\s+const\s+actions\b/,
+			),
+	},
+	{
+		reason: 'API routes',
+		topics: ['server-testing'],
+		scenarios: [],
+		detect: (project) => find(project, /\+server\.[jt]s$/),
+	},
+	{
+		reason: 'remote functions',
+		topics: ['remote-functions-testing'],
+		scenarios: [],
+		detect: (project) =>
+			find(project, /\.remote\.[jt]s$/) ??
+			find(
+				project,
+				/\.[jt]s$/,
+				/import\s*\{[^}]*\b(query|form|command|prerender)\b[^}]*\}\s*from\s*['"]\$app\/server['"]/,
+			),
+	},
+	{
+		reason: 'setContext/getContext',
+		topics: ['context-testing'],
+		scenarios: [],
+		detect: (project) =>
+			find(
+				project,
+				SOURCE_FILE,
+				/\b(setContext|getContext|createContext)\s*\(/,
+			),
+	},
+	{
+		reason: 'sign-in or sessions',
+		topics: [],
+		scenarios: ['authentication'],
+		detect: (project) =>
+			find(project, /(^|\/)(login|auth|signin)[^/]*\//i) ??
+			find(
+				project,
+				/hooks\.server\.[jt]s$/,
+				/\bcookies\b|locals\.user/,
+			),
+	},
+	{
+		reason: 'Playwright',
+		topics: ['e2e-testing'],
+		scenarios: [],
+		detect: (project) =>
+			dependency(project, '@playwright/test') ??
+			find(project, /(^|\/)playwright\.config\.[cm]?[jt]s$/),
+	},
+	{
+		reason: '@testing-library/svelte',
+		topics: ['migration-guide'],
+		scenarios: [],
+		detect: (project) =>
+			dependency(project, '@testing-library/svelte'),
+	},
+	{
+		reason: 'CI workflows',
+		topics: ['ci-cd'],
+		scenarios: [],
+		detect: (project) => find(project, /^\.github\/workflows\//),
+	},
+];
+
+function walk(root: string, dir: string, files: ProjectFile[]) {
+	for (const entry of readdirSync(dir, { withFileTypes: true })) {
+		// .github is the one dot directory worth reading
+		if (
+			SKIPPED_DIRS.has(entry.name) ||
+			(entry.name.startsWith('.') && entry.name !== '.github')
+		) {
+			continue;
+		}
+		const full = join(dir, entry.name);
+		if (entry.isDirectory()) {
+			walk(root, full, files);
+		} else if (
+			SOURCE_FILE.test(entry.name) &&
+			!TEST_FILE.test(entry.name) &&
+			statSync(full).size <= MAX_FILE_BYTES
+		) {
+			files.push({
+				path: relative(root, full).split('\\').join('/'),
+				source: readFileSync(full, 'utf-8'),
+			});
+		}
+	}
+}
+
+/**
+ * Read a project's source files (tests excluded) and dependencies.
+ * Files are sorted so detections point at the same file every run.
+ */
+export function scan_project(cwd: string): Project {
+	if (!existsSync(cwd)) {
+		throw new SveltestError('usage', `Not found: ${cwd}`);
+	}
+	if (!statSync(cwd).isDirectory()) {
+		throw new SveltestError('usage', `Not a directory: ${cwd}`);
+	}
+	const files: ProjectFile[] = [];
+	walk(cwd, cwd, files);
+	files.sort((a, b) => a.path.localeCompare(b.path));
+
+	const package_path = join(cwd, 'package.json');
+	let pkg: {
+		dependencies?: Record<string, string>;
+		devDependencies?: Record<string, string>;
+	} = {};
+	if (existsSync(package_path)) {
+		try {
+			pkg = JSON.parse(
+				readFileSync(package_path, 'utf-8'),
+			) as typeof pkg;
+		} catch (error) {
+			throw new SveltestError(
+				'usage',
+				`Could not read ${package_path}: ${(error as Error).message}`,
+			);
+		}
+	}
+	return {
+		files,
+		deps: { ...pkg.dependencies, ...pkg.devDependencies },
+	};
+}
+
+/**
+ * Decide which docs topics and scenarios describe how `project` is
+ * built. getting-started is always included; everything else needs a
+ * signal in the source, which is recorded as the reason.
+ */
+export function plan_context(project: Project): ContextItem[] {
+	const items = new Map<string, ContextItem>();
+	const add = (
+		kind: ContextItem['kind'],
+		name: string,
+		reason: string,
+	) => {
+		const key = `${kind}:${name}`;
+		const item = items.get(key) ?? { kind, name, reasons: [] };
+		item.reasons.push(reason);
+		items.set(key, item);
+	};
+
+	add('topic', 'getting-started', 'always included');
+	for (const rule of RULES) {
+		const file = rule.detect(project);
+		if (!file) continue;
+		const reason = `${rule.reason} (${file})`;
+		rule.topics.forEach((topic) => add('topic', topic, reason));
+		rule.scenarios.forEach((name) => add('scenario', name, reason));
+	}
+
+	const all = [...items.values()];
+	return [
+		...all.filter((item) => item.kind === 'topic'),
+		...all.filter((item) => item.kind === 'scenario'),
+	];
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { create_unified_diff } from './diff';
+
+describe('create_unified_diff', () => {
+	it('returns nothing for identical content', () => {
+		expect(create_unified_diff('a.ts', 'same\n', 'same\n')).toBe('');
+	});
+
+	it('shows new files against /dev/null', () => {
+		expect(create_unified_diff('new.ts', null, 'one\ntwo\n')).toBe(
+			[
+				'--- /dev/null',
+				'+++ b/new.ts',
+				'@@ -0,0 +1,2 @@',
+				'+one',
+				'+two',
+				'',
+			].join('\n'),
+		);
+	});
+
+	it('keeps three lines of context around a change', () => {
+		const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+		const after = [...before];
+		after[4] = 'five';
+
+		expect(
+			create_unified_diff(
+				'numbers.txt',
+				before.join('\n'),
+				after.join('\n'),
+			),
+		).toBe(
+			[
+				'--- a/numbers.txt',
+				'+++ b/numbers.txt',
+				'@@ -2,7 +2,7 @@',
+				' 2',
+				' 3',
+				' 4',
+				'-5',
+				'+five',
+				' 6',
+				' 7',
+				' 8',
+				'',
+			].join('\n'),
+		);
+	});
+
+	it('splits distant changes into separate hunks', () => {
+		const before = Array.from({ length: 20 }, (_, i) => `${i + 1}`);
+		const after = [...before];
+		after[0] = 'first';
+		after[19] = 'last';
+
+		const diff = create_unified_diff(
+			'lines.txt',
+			before.join('\n'),
+			after.join('\n'),
+		);
+		expect(diff.match(/^@@/gm)).toHaveLength(2);
+		expect(diff).toContain('@@ -1,4 +1,4 @@');
+		expect(diff).toContain('@@ -17,4 +17,4 @@');
+	});
+});
@@ -0,0 +1,181 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, relative } from 'node:path';
+import { createInterface } from 'node:readline/promises';
+
+const CONTEXT_LINES = 3;
+
+export interface FileChange {
+	path: string;
+	// null when the file is being created
+	before: string | null;
+	after: string;
+}
+
+type Op = { type: ' ' | '-' | '+'; line: string };
+
+function diff_lines(a: string[], b: string[]): Op[] {
+	// Longest common subsequence table, filled from the end
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+		Array.from({ length: b.length + 1 }, () => 0),
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] =
+				a[i] === b[j]
+					? lcs[i + 1][j + 1] + 1
+					: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const ops: Op[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			ops.push({ type: ' ', line: a[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			ops.push({ type: '-', line: a[i++] });
+		} else {
+			ops.push({ type: '+', line: b[j++] });
+		}
+	}
+	while (i < a.length) ops.push({ type: '-', line: a[i++] });
+	while (j < b.length) ops.push({ type: '+', line: b[j++] });
+	return ops;
+}
+
+function split_lines(text: string): string[] {
+	if (text === '') return [];
+	return text.replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Render a unified diff (as `git diff` would) between two versions of
+ * a file. Returns an empty string when nothing changed.
+ */
+export function create_unified_diff(
+	path: string,
+	before: string | null,
+	after: string,
+): string {
+	if (before === after) return '';
+
+	const ops = diff_lines(
+		split_lines(before ?? ''),
+		split_lines(after),
+	);
+	const header = [
+		`--- ${before === null ? '/dev/null' : `a/${path}`}`,
+		`+++ b/${path}`,
+	];
+
+	const hunks: string[] = [];
+	let index = 0;
+	while (index < ops.length) {
+		if (ops[index].type === ' ') {
+			index++;
+			continue;
+		}
+
+		// Grow the hunk until there is a long enough unchanged run
+		const start = Math.max(0, index - CONTEXT_LINES);
+		let end = index;
+		let unchanged = 0;
+		while (end < ops.length && unchanged <= CONTEXT_LINES * 2) {
+			unchanged = ops[end].type === ' ' ? unchanged + 1 : 0;
+			end++;
+		}
+		end = Math.min(
+			ops.length,
+			end - Math.max(0, unchanged - CONTEXT_LINES),
+		);
+
+		let old_start = 1;
+		let new_start = 1;
+		for (let k = 0; k < start; k++) {
+			if (ops[k].type !== '+') old_start++;
+			if (ops[k].type !== '-') new_start++;
+		}
+		const hunk = ops.slice(start, end);
+		const old_count = hunk.filter((op) => op.type !== '+').length;
+		const new_count = hunk.filter((op) => op.type !== '-').length;
+
+		hunks.push(
+			`@@ -${old_count === 0 ? old_start - 1 : old_start},${old_count} +${new_count === 0 ? new_start - 1 : new_start},${new_count} @@`,
+			...hunk.map((op) => `${op.type}${op.line}`),
+		);
+		index = end;
+	}
+
+	return [...header, ...hunks].join('\n') + '\n';
+}
+
+export function format_changes(changes: FileChange[], cwd: string) {
+	return changes
+		.map((change) =>
+			create_unified_diff(
+				relative(cwd, change.path),
+				change.before,
+				change.after,
+			),
+		)
+		.join('');
+}
+
+export function apply_changes(changes: FileChange[]) {
+	for (const change of changes) {
+		mkdirSync(dirname(change.path), { recursive: true });
+		writeFileSync(change.path, change.after);
+	}
+}
+
+export interface ReviewOptions {
+	cwd: string;
+	yes?: boolean;
+	dry_run?: boolean;
+}
+
+async function confirm(question: string): Promise<boolean> {
+	const rl = createInterface({
+		input: process.stdin,
+		output: process.stderr,
+	});
+	try {
+		const answer = await rl.question(`${question} [y/N] `);
+		return /^y(es)?$/i.test(answer.trim());
+	} finally {
+		rl.close();
+	}
+}
+
+/**
+ * Print the diff for a set of changes and write them only once the
+ * user agrees. Without a TTY to ask on, nothing is written unless
+ * `yes` is set. Returns whether the changes were applied.
+ */
+export async function review_changes(
+	changes: FileChange[],
+	options: ReviewOptions,
+): Promise<boolean> {
+	if (changes.length === 0) {
+		console.error('Nothing to change.');
+		return false;
+	}
+
+	process.stdout.write(format_changes(changes, options.cwd));
+
+	if (options.dry_run) return false;
+	if (!options.yes) {
+		if (!process.stdin.isTTY) {
+			console.error('\nRe-run with --yes to write these changes.');
+			return false;
+		}
+		if (!(await confirm('\nWrite these changes?'))) return false;
+	}
+
+	apply_changes(changes);
+	console.error(`\nUpdated ${changes.length} file(s).`);
+	return true;
+}
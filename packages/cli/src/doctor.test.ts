@@ -0,0 +1,162 @@
+import {
+	mkdirSync,
+	mkdtempSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { apply_changes } from './diff';
+import { run_doctor } from './doctor';
+import { plan_init } from './init';
+
+const VITE_CONFIG = `import { sveltekit } from '@sveltejs/kit/vite';
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+	plugins: [sveltekit()]
+});
+`;
+
+function write(dir: string, file: string, content: string) {
+	mkdirSync(join(dir, file, '..'), { recursive: true });
+	writeFileSync(join(dir, file), content);
+}
+
+function statuses(dir: string) {
+	return run_doctor(dir).map(
+		({ status, message }) => `${status}: ${message}`,
+	);
+}
+
+describe('run_doctor', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'sveltest-doctor-'));
+		write(
+			dir,
+			'package.json',
+			JSON.stringify({
+				devDependencies: {
+					'@sveltejs/kit': '^2.0.0',
+					svelte: '^5.0.0',
+				},
+			}),
+		);
+		write(dir, 'vite.config.ts', VITE_CONFIG);
+		write(dir, 'tsconfig.json', '{}');
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('passes a project set up by sveltest init', () => {
+		apply_changes(plan_init(dir).changes);
+		write(
+			dir,
+			'src/lib/button.svelte.test.ts',
+			"import { render } from 'vitest-browser-svelte';\n",
+		);
+
+		const findings = run_doctor(dir);
+		expect(findings.filter((f) => f.status !== 'pass')).toEqual([]);
+	});
+
+	it('fails without vitest-browser-svelte or a provider', () => {
+		const result = statuses(dir);
+
+		expect(result).toContain('fail: vitest is not installed');
+		expect(result).toContainEqual(
+			expect.stringMatching(/^fail: vitest-browser-svelte is not/),
+		);
+		expect(result).toContainEqual(
+			expect.stringMatching(/^fail: No browser provider/),
+		);
+		expect(result).toContainEqual(
+			expect.stringMatching(/^fail: .*no project with `browser/),
+		);
+	});
+
+	it('flags mismatched vitest-browser-svelte versions', () => {
+		write(
+			dir,
+			'package.json',
+			JSON.stringify({
+				devDependencies: {
+					vitest: '^4.1.0',
+					'vitest-browser-svelte': '^0.1.0',
+				},
+			}),
+		);
+
+		expect(statuses(dir)).toContainEqual(
+			expect.stringMatching(/^fail: .*does not match vitest \^4/),
+		);
+	});
+
+	it('flags node projects that pick up component tests', () => {
+		write(
+			dir,
+			'vite.config.ts',
+			`export default defineConfig({
+	test: {
+		projects: [
+			{ test: { name: 'ssr', environment: 'node', include: ['src/**/*.ssr.test.ts'] } },
+			{ test: { name: 'server', environment: 'node', include: ['src/**/*.test.ts'] } },
+		],
+	},
+});
+`,
+		);
+
+		expect(statuses(dir)).toContainEqual(
+			expect.stringMatching(/^fail: A node test project/),
+		);
+	});
+
+	it('flags missing setup files and string providers', () => {
+		write(
+			dir,
+			'vite.config.ts',
+			`export default defineConfig({
+	test: {
+		browser: { enabled: true, provider: 'playwright' },
+		setupFiles: ['./src/vitest-setup-client.ts'],
+	},
+});
+`,
+		);
+
+		const result = statuses(dir);
+		expect(result).toContain(
+			'fail: Setup file not found: ./src/vitest-setup-client.ts',
+		);
+		expect(result).toContainEqual(
+			expect.stringMatching(/^fail: Vitest 4 expects/),
+		);
+	});
+
+	it('checks test file naming', () => {
+		write(
+			dir,
+			'src/lib/button.test.ts',
+			"import { render } from 'vitest-browser-svelte';\n",
+		);
+		write(
+			dir,
+			'src/lib/card.svelte.test.ts',
+			"import { render } from 'svelte/server';\n",
+		);
+
+		const result = statuses(dir);
+		expect(result).toContain(
+			'fail: src/lib/button.test.ts renders in the browser but is not named *.svelte.test.ts',
+		);
+		expect(result).toContain(
+			'warn: src/lib/card.svelte.test.ts uses svelte/server but is not named *.ssr.test.ts',
+		);
+	});
+});
@@ -0,0 +1,334 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, join, relative } from 'node:path';
+import { get_site_base } from './config';
+import { VITE_CONFIG_FILES } from './init';
+import { find_test_files } from './migrate';
+
+export type FindingStatus = 'pass' | 'warn' | 'fail';
+
+export interface Finding {
+	status: FindingStatus;
+	message: string;
+	// Docs topic slug that explains the fix
+	topic?: string;
+}
+
+interface PackageJson {
+	dependencies?: Record<string, string>;
+	devDependencies?: Record<string, string>;
+}
+
+const CONFIG_FILES = [
+	'vitest.config.ts',
+	'vitest.config.mts',
+	'vitest.config.js',
+	'vitest.config.mjs',
+	...VITE_CONFIG_FILES,
+];
+
+const BROWSER_PROVIDERS = [
+	'@vitest/browser-playwright',
+	'@vitest/browser-webdriverio',
+	'@vitest/browser-preview',
+];
+
+// Major version from a semver range; null for tags and workspace links
+function major(range: string | undefined): number | null {
+	const match = range?.match(/^[\^~>=v\s]*(\d+)/);
+	return match ? Number(match[1]) : null;
+}
+
+function check_dependencies(
+	deps: Record<string, string>,
+	findings: Finding[],
+) {
+	const vitest = major(deps.vitest);
+	const browser_svelte = major(deps['vitest-browser-svelte']);
+	const svelte = major(deps.svelte);
+
+	if (!deps.vitest) {
+		findings.push({
+			status: 'fail',
+			message: 'vitest is not installed',
+			topic: 'getting-started',
+		});
+	} else {
+		findings.push({
+			status: 'pass',
+			message: `vitest ${deps.vitest}`,
+		});
+	}
+
+	if (!deps['vitest-browser-svelte']) {
+		findings.push({
+			status: 'fail',
+			message:
+				'vitest-browser-svelte is not installed, so components cannot be rendered in the browser',
+			topic: 'getting-started',
+		});
+	} else if (
+		vitest !== null &&
+		browser_svelte !== null &&
+		vitest >= 4 !== browser_svelte >= 2
+	) {
+		findings.push({
+			status: 'fail',
+			message: `vitest-browser-svelte ${deps['vitest-browser-svelte']} does not match vitest ${deps.vitest} (vitest 4 needs vitest-browser-svelte 2, vitest 3 needs 0.x/1.x)`,
+			topic: 'getting-started',
+		});
+	} else {
+		findings.push({
+			status: 'pass',
+			message: `vitest-browser-svelte ${deps['vitest-browser-svelte']}`,
+		});
+	}
+
+	if (vitest === null || vitest >= 4) {
+		const provider = BROWSER_PROVIDERS.find((name) => name in deps);
+		if (!provider) {
+			findings.push({
+				status: 'fail',
+				message:
+					'No browser provider installed; add @vitest/browser-playwright',
+				topic: 'getting-started',
+			});
+		} else if (provider.endsWith('playwright') && !deps.playwright) {
+			findings.push({
+				status: 'warn',
+				message:
+					'playwright is not a direct dependency; browser binaries may be missing in CI',
+				topic: 'troubleshooting',
+			});
+		} else {
+			findings.push({
+				status: 'pass',
+				message: `${provider} installed`,
+			});
+		}
+	}
+
+	if (svelte !== null && svelte < 5) {
+		findings.push({
+			status: 'warn',
+			message: `svelte ${deps.svelte} predates runes; the sveltest patterns target Svelte 5`,
+			topic: 'runes-testing',
+		});
+	}
+
+	if ('@testing-library/svelte' in deps) {
+		findings.push({
+			status: 'warn',
+			message:
+				'@testing-library/svelte is still installed; run `sveltest migrate` to move the tests over',
+			topic: 'migration-guide',
+		});
+	}
+}
+
+function string_array(config: string, key: string): string[][] {
+	return [
+		...config.matchAll(
+			new RegExp(`\\b${key}\\s*:\\s*\\[([^\\]]*)\\]`, 'g'),
+		),
+	].map(([, items]) =>
+		[...items.matchAll(/['"`]([^'"`]+)['"`]/g)].map(
+			([, item]) => item,
+		),
+	);
+}
+
+// The `{ ... }` object around each `environment: 'node'`
+function node_project_blocks(config: string): string[] {
+	return [...config.matchAll(/environment\s*:\s*['"]node['"]/g)].map(
+		({ index }) => {
+			let start = index;
+			for (let depth = 0; start > 0; start--) {
+				if (config[start] === '}') depth++;
+				if (config[start] === '{' && depth-- === 0) break;
+			}
+			let end = index;
+			for (let depth = 0; end < config.length; end++) {
+				if (config[end] === '{') depth++;
+				if (config[end] === '}' && depth-- === 0) break;
+			}
+			return config.slice(start, end + 1);
+		},
+	);
+}
+
+// Whether an include glob would also pick up `button.svelte.test.ts`
+function matches_svelte_tests(pattern: string): boolean {
+	return (
+		pattern.includes('.svelte.') ||
+		/\*\.\{?(test|spec)\b/.test(pattern)
+	);
+}
+
+function check_config(
+	cwd: string,
+	config_file: string | undefined,
+	vitest_major: number | null,
+	findings: Finding[],
+) {
+	if (!config_file) {
+		findings.push({
+			status: 'fail',
+			message: 'No vite.config or vitest.config file found',
+			topic: 'getting-started',
+		});
+		return;
+	}
+	const config = readFileSync(join(cwd, config_file), 'utf-8');
+
+	if (!/\bbrowser\s*:\s*\{[^}]*enabled\s*:\s*true/.test(config)) {
+		findings.push({
+			status: 'fail',
+			message: `${config_file} has no project with \`browser: { enabled: true }\`, so *.svelte.test.ts files run without a browser`,
+			topic: 'getting-started',
+		});
+	} else {
+		findings.push({
+			status: 'pass',
+			message: `${config_file} enables browser mode`,
+		});
+	}
+
+	if (
+		(vitest_major === null || vitest_major >= 4) &&
+		/\bbrowser\s*:\s*\{[^}]*provider\s*:\s*['"]/.test(config)
+	) {
+		findings.push({
+			status: 'fail',
+			message:
+				"Vitest 4 expects `provider: playwright()` from '@vitest/browser-playwright', not a string",
+			topic: 'getting-started',
+		});
+	}
+
+	const leaky = node_project_blocks(config).some((block) => {
+		const include = string_array(block, 'include').flat();
+		const exclude = string_array(block, 'exclude').flat();
+		return (
+			(include.length === 0 || include.some(matches_svelte_tests)) &&
+			!exclude.some((pattern) => pattern.includes('.svelte.'))
+		);
+	});
+	if (leaky) {
+		findings.push({
+			status: 'fail',
+			message: `A node test project in ${config_file} does not exclude *.svelte.test.ts, so component tests are picked up outside the browser`,
+			topic: 'troubleshooting',
+		});
+	}
+
+	const setup_files = string_array(config, 'setupFiles').flat();
+	const missing = setup_files.filter(
+		(file) => !existsSync(join(cwd, file)),
+	);
+	if (missing.length > 0) {
+		findings.push({
+			status: 'fail',
+			message: `Setup file not found: ${missing.join(', ')}`,
+			topic: 'getting-started',
+		});
+	} else if (setup_files.length === 0) {
+		findings.push({
+			status: 'warn',
+			message:
+				'No setupFiles configured; add src/vitest-setup-client.ts for the browser type references',
+			topic: 'getting-started',
+		});
+	} else {
+		findings.push({
+			status: 'pass',
+			message: `Setup files present: ${setup_files.join(', ')}`,
+		});
+	}
+
+	if (!/\btestTimeout\s*:/.test(config)) {
+		findings.push({
+			status: 'warn',
+			message:
+				'No testTimeout set; a locator that never resolves hangs until the default timeout',
+			topic: 'troubleshooting',
+		});
+	}
+}
+
+function imports(source: string, module: string): boolean {
+	return new RegExp(`from\\s*['"]${module}['"]`).test(source);
+}
+
+function check_test_files(cwd: string, findings: Finding[]) {
+	const src = join(cwd, 'src');
+	if (!existsSync(src)) return;
+
+	let misnamed = 0;
+	for (const file of find_test_files(src)) {
+		const name = basename(file);
+		const source = readFileSync(file, 'utf-8');
+		const path = relative(cwd, file);
+		const is_client = /\.svelte\.(test|spec)\./.test(name);
+		const is_ssr = /\.ssr\.(test|spec)\./.test(name);
+
+		if (!is_client && imports(source, 'vitest-browser-svelte')) {
+			misnamed++;
+			findings.push({
+				status: 'fail',
+				message: `${path} renders in the browser but is not named *.svelte.test.ts`,
+				topic: 'testing-patterns',
+			});
+		} else if (!is_ssr && imports(source, 'svelte/server')) {
+			misnamed++;
+			findings.push({
+				status: 'warn',
+				message: `${path} uses svelte/server but is not named *.ssr.test.ts`,
+				topic: 'ssr-testing',
+			});
+		}
+	}
+	if (misnamed === 0) {
+		findings.push({
+			status: 'pass',
+			message: 'Test files are named for their project',
+		});
+	}
+}
+
+/**
+ * Inspect a project's package.json, vite/vitest config and test file
+ * names for the misconfigurations that troubleshooting.md describes.
+ * Reads files only; nothing is fetched or run.
+ */
+export function run_doctor(cwd: string): Finding[] {
+	const package_path = join(cwd, 'package.json');
+	if (!existsSync(package_path)) {
+		return [
+			{
+				status: 'fail',
+				message: `No package.json found in ${cwd}`,
+				topic: 'getting-started',
+			},
+		];
+	}
+
+	const pkg = JSON.parse(
+		readFileSync(package_path, 'utf-8'),
+	) as PackageJson;
+	const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+	const findings: Finding[] = [];
+
+	check_dependencies(deps, findings);
+	check_config(
+		cwd,
+		CONFIG_FILES.find((file) => existsSync(join(cwd, file))),
+		major(deps.vitest),
+		findings,
+	);
+	check_test_files(cwd, findings);
+	return findings;
+}
+
+export function docs_url(topic: string): string {
+	return `${get_site_base()}/docs/${topic}`;
+}
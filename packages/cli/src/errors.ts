@@ -0,0 +1,88 @@
+export type ErrorKind =
+	| 'usage'
+	| 'not_found'
+	| 'network'
+	| 'timeout'
+	| 'server'
+	| 'incompatible';
+
+// 1 stays the generic failure (bad arguments, partial batches)
+export const EXIT_CODES: Record<ErrorKind, number> = {
+	usage: 1,
+	not_found: 2,
+	network: 3,
+	timeout: 4,
+	server: 5,
+	incompatible: 6,
+};
+
+export interface SveltestErrorOptions {
+	// HTTP status, when the error came from a response
+	status?: number;
+	// Closest known names for a not_found error
+	suggestions?: string[];
+	cause?: unknown;
+}
+
+/**
+ * Failures the CLI and client can explain: a bad flag, path or config
+ * file, a missing scenario or topic, an unreachable or slow host, a
+ * server error, or an API newer than this version understands. `kind`
+ * decides the process exit code.
+ */
+export class SveltestError extends Error {
+	readonly kind: ErrorKind;
+	readonly status: number | undefined;
+	readonly suggestions: string[];
+
+	constructor(
+		kind: ErrorKind,
+		message: string,
+		options: SveltestErrorOptions = {},
+	) {
+		super(message, { cause: options.cause });
+		this.name = 'SveltestError';
+		this.kind = kind;
+		this.status = options.status;
+		this.suggestions = options.suggestions ?? [];
+	}
+
+	get exit_code(): number {
+		return EXIT_CODES[this.kind];
+	}
+}
+
+export function is_not_found(error: unknown): error is SveltestError {
+	return error instanceof SveltestError && error.kind === 'not_found';
+}
+
+export function http_error(status: number): SveltestError {
+	const kind =
+		status === 404 || status === 410 ? 'not_found' : 'server';
+	return new SveltestError(kind, `HTTP error! status: ${status}`, {
+		status,
+	});
+}
+
+// fetch rejects with an AbortError on our timeout and a TypeError
+// (with the socket error as `cause`) when the host is unreachable
+export function request_error(
+	error: unknown,
+	url: string,
+): SveltestError {
+	if (error instanceof SveltestError) return error;
+
+	const { name, message, cause } =
+		error instanceof Error ? error : new Error(JSON.stringify(error));
+	if (name === 'AbortError' || name === 'TimeoutError') {
+		return new SveltestError('timeout', `Request timed out: ${url}`, {
+			cause: error,
+		});
+	}
+	const reason = cause instanceof Error ? cause.message : message;
+	return new SveltestError(
+		'network',
+		`Could not reach ${url}: ${reason}`,
+		{ cause: error },
+	);
+}
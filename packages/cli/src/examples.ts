@@ -0,0 +1,76 @@
+import type { ScenarioMeta } from './types';
+
+export interface GetExampleOptions {
+	compact?: boolean;
+	filter?: string;
+	sections?: string[];
+}
+
+export function scenario_name(scenario: ScenarioMeta): string {
+	return scenario.endpoint.split('/').pop() as string;
+}
+
+// Scenarios the catalog links to, in the order the server lists them
+export function related_scenarios(
+	scenarios: ScenarioMeta[],
+	scenario: string,
+): string[] {
+	const entry = scenarios.find(
+		(candidate) => scenario_name(candidate) === scenario,
+	);
+	return (entry?.related ?? [])
+		.filter((link) => link.kind === 'scenario')
+		.map((link) => link.slug);
+}
+
+export function add_related_patterns(
+	data: Record<string, unknown>,
+	related: string[],
+): Record<string, unknown> {
+	if (related.length > 0) {
+		return { ...data, _related: related };
+	}
+	return data;
+}
+
+export function compact_json(
+	data: Record<string, unknown>,
+): Record<string, unknown> {
+	const {
+		description,
+		source_file,
+		total_tests,
+		meta,
+		...essential
+	} = data;
+	return essential;
+}
+
+// Apply --compact, --filter and --sections, then link related scenarios
+export function shape_example(
+	data: Record<string, unknown>,
+	options: GetExampleOptions,
+	related: string[] = [],
+): Record<string, unknown> {
+	let output = data;
+
+	if (options.compact) {
+		output = compact_json(output);
+	}
+
+	if (options.filter && output[options.filter]) {
+		output = { [options.filter]: output[options.filter] };
+	}
+
+	if (options.sections && options.sections.length > 0) {
+		const filtered: Record<string, unknown> = {};
+		options.sections.forEach((section) => {
+			if (output[section]) {
+				filtered[section] = output[section];
+			}
+		});
+		output = filtered;
+	}
+
+	return add_related_patterns(output, related);
+}
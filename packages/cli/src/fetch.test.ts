@@ -0,0 +1,219 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import {
+	configure_cache,
+	read_cache_entry,
+	write_cache_entry,
+} from './cache';
+import { fetch_json, fetch_text } from './fetch';
+
+const URL = 'https://sveltest.dev/api/examples';
+
+describe('fetch_text', () => {
+	let cache_home: string;
+	const original_xdg = process.env.XDG_CACHE_HOME;
+	const fetch_mock = vi.fn();
+
+	beforeEach(() => {
+		cache_home = mkdtempSync(join(tmpdir(), 'sveltest-fetch-'));
+		process.env.XDG_CACHE_HOME = cache_home;
+		configure_cache({ offline: false, ttl_seconds: 3600 });
+		vi.stubGlobal('fetch', fetch_mock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		fetch_mock.mockReset();
+		rmSync(cache_home, { recursive: true, force: true });
+		if (original_xdg === undefined) {
+			delete process.env.XDG_CACHE_HOME;
+		} else {
+			process.env.XDG_CACHE_HOME = original_xdg;
+		}
+	});
+
+	it('fetches and caches the response with its etag', async () => {
+		fetch_mock.mockResolvedValue(
+			new Response('{"ok":true}', { headers: { etag: '"v1"' } }),
+		);
+
+		expect(await fetch_json(URL)).toEqual({ ok: true });
+		expect(read_cache_entry(URL)).toMatchObject({
+			etag: '"v1"',
+			body: '{"ok":true}',
+		});
+	});
+
+	it('serves fresh entries without a request', async () => {
+		write_cache_entry({
+			url: URL,
+			etag: null,
+			fetched_at: Date.now(),
+			body: 'cached',
+		});
+
+		expect(await fetch_text(URL)).toBe('cached');
+		expect(fetch_mock).not.toHaveBeenCalled();
+	});
+
+	it('revalidates stale entries with If-None-Match', async () => {
+		write_cache_entry({
+			url: URL,
+			etag: '"v1"',
+			fetched_at: 0,
+			body: 'cached',
+		});
+		fetch_mock.mockResolvedValue(new Response(null, { status: 304 }));
+
+		expect(await fetch_text(URL)).toBe('cached');
+		const [, init] = fetch_mock.mock.calls[0];
+		expect(init.headers['If-None-Match']).toBe('"v1"');
+		expect(read_cache_entry(URL)!.fetched_at).toBeGreaterThan(0);
+	});
+
+	it('falls back to a stale entry when the network fails', async () => {
+		write_cache_entry({
+			url: URL,
+			etag: null,
+			fetched_at: 0,
+			body: 'stale',
+		});
+		fetch_mock.mockRejectedValue(new TypeError('fetch failed'));
+		const error_spy = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => {});
+
+		expect(await fetch_text(URL)).toBe('stale');
+		expect(error_spy).toHaveBeenCalled();
+		error_spy.mockRestore();
+	});
+
+	it('revalidates fresh entries when asked and takes the new body', async () => {
+		write_cache_entry({
+			url: URL,
+			etag: '"v1"',
+			fetched_at: Date.now(),
+			body: 'cached',
+		});
+		fetch_mock.mockResolvedValue(
+			new Response('fresh', { headers: { etag: '"v2"' } }),
+		);
+
+		expect(await fetch_text(URL, { revalidate: true })).toBe('fresh');
+		const [, init] = fetch_mock.mock.calls[0];
+		expect(init.headers['If-None-Match']).toBe('"v1"');
+		expect(read_cache_entry(URL)!.body).toBe('fresh');
+	});
+
+	it('never falls back to the cache when revalidating', async () => {
+		write_cache_entry({
+			url: URL,
+			etag: null,
+			fetched_at: Date.now(),
+			body: 'cached',
+		});
+		fetch_mock.mockRejectedValue(new TypeError('fetch failed'));
+
+		await expect(
+			fetch_text(URL, { revalidate: true }),
+		).rejects.toMatchObject({ kind: 'network' });
+	});
+
+	it('times out a body that stops arriving', async () => {
+		vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+		fetch_mock.mockImplementation(
+			async (_url: string, { signal }: RequestInit) =>
+				new Response(
+					new ReadableStream({
+						start(controller) {
+							signal!.addEventListener('abort', () =>
+								controller.error(signal!.reason),
+							);
+						},
+					}),
+				),
+		);
+
+		const result = expect(fetch_text(URL)).rejects.toMatchObject({
+			kind: 'timeout',
+		});
+		await vi.advanceTimersByTimeAsync(30000);
+		await result;
+		vi.useRealTimers();
+	});
+
+	it('throws on HTTP errors', async () => {
+		fetch_mock.mockResolvedValue(
+			new Response('not found', { status: 404 }),
+		);
+
+		await expect(fetch_text(URL)).rejects.toThrow(
+			'HTTP error! status: 404',
+		);
+		expect(read_cache_entry(URL)).toBeNull();
+	});
+
+	it('announces its version and refuses a newer API', async () => {
+		fetch_mock.mockResolvedValue(
+			new Response('{}', {
+				headers: { 'X-Sveltest-Api-Version': '99' },
+			}),
+		);
+
+		await expect(fetch_text(URL)).rejects.toMatchObject({
+			kind: 'incompatible',
+			exit_code: 6,
+		});
+		const [, init] = fetch_mock.mock.calls[0];
+		expect(init.headers['X-Sveltest-Client-Version']).toMatch(
+			/^\d+\.\d+\.\d+/,
+		);
+		expect(read_cache_entry(URL)).toBeNull();
+	});
+
+	describe('offline mode', () => {
+		beforeEach(() => {
+			configure_cache({ offline: true });
+		});
+
+		it('serves stale entries without touching the network', async () => {
+			write_cache_entry({
+				url: URL,
+				etag: null,
+				fetched_at: 0,
+				body: 'stale',
+			});
+
+			expect(await fetch_text(URL)).toBe('stale');
+			expect(fetch_mock).not.toHaveBeenCalled();
+		});
+
+		it('fails when nothing is cached', async () => {
+			await expect(fetch_text(URL)).rejects.toThrow('offline mode');
+			expect(fetch_mock).not.toHaveBeenCalled();
+		});
+
+		it('refuses to revalidate', async () => {
+			write_cache_entry({
+				url: URL,
+				etag: null,
+				fetched_at: Date.now(),
+				body: 'cached',
+			});
+
+			await expect(
+				fetch_text(URL, { revalidate: true }),
+			).rejects.toThrow('offline mode');
+			expect(fetch_mock).not.toHaveBeenCalled();
+		});
+	});
+});
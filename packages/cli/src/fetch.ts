@@ -0,0 +1,143 @@
+import { get_bundle_dir, read_bundle_text } from './bundle';
+import {
+	get_cache_options,
+	is_fresh,
+	read_cache_entry,
+	write_cache_entry,
+} from './cache';
+import { http_error, request_error, SveltestError } from './errors';
+import { get_cli_version } from './meta';
+import {
+	API_VERSION_HEADER,
+	check_api_version,
+	CLIENT_VERSION_HEADER,
+	older_api_warning,
+	SUPPORTED_API_VERSION,
+} from './version';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+let warned_older_api = false;
+
+// The timeout covers reading the body too, so a stalled download
+// fails like a stalled connection
+async function request(
+	url: string,
+	etag: string | null,
+): Promise<{ response: Response; body: string }> {
+	const controller = new AbortController();
+	const timeout_id = setTimeout(
+		() => controller.abort(),
+		REQUEST_TIMEOUT_MS,
+	);
+	try {
+		const headers: Record<string, string> = {
+			[CLIENT_VERSION_HEADER]: get_cli_version(),
+		};
+		if (etag) headers['If-None-Match'] = etag;
+		const response = await fetch(url, {
+			signal: controller.signal,
+			headers,
+		});
+		return { response, body: await response.text() };
+	} finally {
+		clearTimeout(timeout_id);
+	}
+}
+
+// A newer API throws; an older one still works, minus the fields it
+// lacks, so it is only mentioned once per run
+function check_response_version(response: Response, url: string) {
+	const version = check_api_version(
+		response.headers.get(API_VERSION_HEADER),
+		url,
+	);
+	if (
+		version !== null &&
+		version < SUPPORTED_API_VERSION &&
+		!warned_older_api
+	) {
+		warned_older_api = true;
+		console.error(`Warning: ${older_api_warning(url, version)}`);
+	}
+}
+
+export interface FetchOptions {
+	// Ask the server even for fresh entries, and never settle for a
+	// cached copy it has not confirmed
+	revalidate?: boolean;
+}
+
+/**
+ * Fetch a URL through the on-disk cache. Fresh entries are served
+ * without a request, stale ones are revalidated with their ETag, and
+ * offline mode only ever reads from the cache. When a bundle is
+ * active the network and cache are bypassed entirely.
+ */
+export async function fetch_text(
+	url: string,
+	{ revalidate = false }: FetchOptions = {},
+): Promise<string> {
+	const bundle = get_bundle_dir();
+	if (bundle) {
+		return read_bundle_text(bundle, url);
+	}
+
+	const cached = read_cache_entry(url);
+	const { offline } = get_cache_options();
+
+	if (offline && revalidate) {
+		throw new SveltestError(
+			'network',
+			`Cannot check ${url} for changes in offline mode.`,
+		);
+	}
+	if (offline) {
+		if (cached) return cached.body;
+		throw new SveltestError(
+			'network',
+			`No cached response for ${url} (offline mode). Run the command once while online to populate the cache.`,
+		);
+	}
+
+	if (cached && is_fresh(cached) && !revalidate) {
+		return cached.body;
+	}
+
+	let response: Response;
+	let body: string;
+	try {
+		({ response, body } = await request(url, cached?.etag ?? null));
+	} catch (error) {
+		if (cached && !revalidate) {
+			console.error(
+				`Warning: network request failed, using cached response for ${url}`,
+			);
+			return cached.body;
+		}
+		throw request_error(error, url);
+	}
+
+	check_response_version(response, url);
+
+	if (response.status === 304 && cached) {
+		write_cache_entry({ ...cached, fetched_at: Date.now() });
+		return cached.body;
+	}
+
+	if (!response.ok) {
+		throw http_error(response.status);
+	}
+
+	write_cache_entry({
+		url,
+		etag: response.headers.get('etag'),
+		fetched_at: Date.now(),
+		body,
+	});
+	return body;
+}
+
+export async function fetch_json<T>(url: string): Promise<T> {
+	return JSON.parse(await fetch_text(url)) as T;
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { parse as parse_yaml } from 'yaml';
+import {
+	get_formatter,
+	humanize,
+	register_formatter,
+	render_markdown,
+	render_output,
+	render_text,
+	to_yaml,
+} from './format';
+
+const example = {
+	title: 'Button Variants',
+	description: 'Testing button components',
+	test_scenarios: [
+		{
+			variant: 'primary',
+			expected_class: 'btn-primary',
+			assertions: ['toBeVisible()', 'toHaveClass'],
+		},
+	],
+	testing_patterns: {
+		critical_patterns: ['Always use await expect.element()'],
+		example:
+			"await render(Button);\nawait expect.element(page.getByRole('button')).toBeVisible();",
+	},
+	_meta: { cli_version: '1.0.0' },
+};
+
+describe('render_markdown', () => {
+	it('renders every section as headings, lists and code', () => {
+		const markdown = render_markdown(example);
+
+		expect(markdown).toContain('# Button Variants');
+		expect(markdown).toContain('## Test scenarios');
+		expect(markdown).toContain('### primary');
+		expect(markdown).toContain('- **Expected class**: btn-primary');
+		expect(markdown).toContain('  - `toBeVisible()`');
+		expect(markdown).toContain('## Testing patterns');
+		expect(markdown).toContain(
+			"```ts\nawait render(Button);\nawait expect.element(page.getByRole('button')).toBeVisible();\n```",
+		);
+	});
+
+	it('leaves _meta out of the document', () => {
+		expect(render_markdown(example)).not.toContain('Cli version');
+	});
+});
+
+describe('render_text', () => {
+	it('underlines headings and indents code', () => {
+		const text = render_text(example);
+
+		expect(text).toContain('Button Variants\n===============');
+		expect(text).toContain('Test scenarios\n--------------');
+		expect(text).toContain('    await render(Button);');
+	});
+});
+
+describe('to_yaml', () => {
+	it('nests objects and arrays', () => {
+		expect(
+			to_yaml({ name: 'a', tags: ['x', 'y'], nested: { on: true } }),
+		).toBe('name: a\ntags:\n  - x\n  - y\nnested:\n  "on": true');
+	});
+
+	it('quotes scalars YAML would misread', () => {
+		expect(
+			to_yaml({ a: 'yes', b: '1.0', c: 'key: value', d: '' }),
+		).toBe('a: "yes"\nb: "1.0"\nc: "key: value"\nd: ""');
+	});
+
+	it('writes multi-line strings as block scalars', () => {
+		expect(to_yaml({ code: 'one\n  two' })).toBe(
+			'code: |-\n  one\n    two',
+		);
+	});
+
+	it('spells out the indentation of blocks that start indented', () => {
+		expect(to_yaml({ code: '  one\ntwo\n' })).toBe(
+			'code: |2\n    one\n  two',
+		);
+	});
+
+	it('round-trips through a YAML parser', () => {
+		const data = {
+			name: 'a: b',
+			flags: ['yes', '1.0', ''],
+			code: '\tawait render(Button);\n\nexpect(x);\n',
+			nested: {
+				indented: '  first\nsecond',
+				list: ['    deep\n  shallow\n', 'plain\ntext'],
+			},
+		};
+
+		expect(parse_yaml(to_yaml(data))).toEqual(data);
+		expect(parse_yaml(to_yaml('  only\nstring'))).toBe(
+			'  only\nstring',
+		);
+	});
+
+	it.each([
+		['trailing blank lines', { code: 'a\n\n', after: 'b\n\n\n' }],
+		['blank lines at the end', { list: ['x', 'a\n\n'] }],
+		['reserved keys', { null: 1, true: 2, 123: 3, '~': 4, '-': 5 }],
+		[
+			'special floats',
+			{ a: '.inf', b: '-.inf', c: '.NaN', d: '0x1F' },
+		],
+		['carriage returns', { crlf: 'one\r\ntwo\r\n', cr: 'a\rb' }],
+	])('round-trips %s', (_, data) => {
+		expect(parse_yaml(to_yaml(data))).toEqual(data);
+	});
+});
+
+describe('formatters', () => {
+	it('writes one JSON line per record for ndjson', () => {
+		expect(
+			render_output('ndjson', {
+				data: { results: [{ id: 1 }, { id: 2 }] },
+				records: (data) => data.results,
+			}),
+		).toBe('{"id":1}\n{"id":2}');
+	});
+
+	it('prefers a command-specific markdown renderer', () => {
+		expect(
+			render_output('markdown', {
+				data: [1, 2],
+				markdown: (data) => data.join(' + '),
+			}),
+		).toBe('1 + 2');
+	});
+
+	it('rejects unknown formats with the valid choices', () => {
+		expect(() => get_formatter('xml')).toThrow(
+			"Unknown format 'xml'. Use one of: text, json, ndjson, yaml, markdown",
+		);
+	});
+
+	it('accepts registered formatters', () => {
+		register_formatter('count', ({ data }) =>
+			String((data as unknown[]).length),
+		);
+		expect(render_output('count', { data: [1, 2, 3] })).toBe('3');
+	});
+});
+
+describe('humanize', () => {
+	it('turns snake_case and camelCase keys into labels', () => {
+		expect(humanize('test_scenarios')).toBe('Test scenarios');
+		expect(humanize('testingPatterns')).toBe('Testing patterns');
+		expect(humanize('_related')).toBe('Related');
+	});
+});
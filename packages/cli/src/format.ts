@@ -0,0 +1,393 @@
+import { SveltestError } from './errors';
+
+export const OUTPUT_FORMATS = [
+	'text',
+	'json',
+	'ndjson',
+	'yaml',
+	'markdown',
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * What a command hands to a formatter. `data` is always present; the
+ * hooks let a command replace the generic rendering for formats where
+ * it knows better (a grouped topic list, a numbered search result).
+ */
+export interface Output<T = unknown> {
+	data: T;
+	text?: (data: T) => string;
+	markdown?: (data: T) => string;
+	// One JSON line per record for ndjson; defaults to array items
+	records?: (data: T) => unknown[];
+}
+
+export type Formatter = (output: Output) => string;
+
+const formatters = new Map<string, Formatter>();
+
+export function register_formatter(
+	name: string,
+	formatter: Formatter,
+) {
+	formatters.set(name, formatter);
+}
+
+export function is_output_format(
+	value: string,
+): value is OutputFormat {
+	return formatters.has(value);
+}
+
+export function get_formatter(name: string): Formatter {
+	const formatter = formatters.get(name);
+	if (!formatter) {
+		throw new SveltestError(
+			'usage',
+			`Unknown format '${name}'. Use one of: ${[...formatters.keys()].join(', ')}`,
+		);
+	}
+	return formatter;
+}
+
+export function render_output<T>(
+	format: string,
+	output: Output<T>,
+): string {
+	return get_formatter(format)(output as Output);
+}
+
+// --- Documents (text and markdown) ---
+
+// Fields that name an array item well enough to use as its heading
+const LABEL_KEYS = [
+	'name',
+	'title',
+	'category',
+	'operation',
+	'pattern',
+	'strategy',
+	'rule',
+	'field',
+	'variant',
+	'size',
+	'state',
+	'scenario',
+	'rune',
+];
+
+// Metadata the documents leave out; JSON and YAML keep everything
+const HIDDEN_KEYS = new Set(['_meta']);
+
+interface DocumentStyle {
+	heading: (level: number, text: string) => string;
+	label: (text: string) => string;
+	code: (text: string) => string;
+	block: (text: string, language: string) => string;
+}
+
+const markdown_style: DocumentStyle = {
+	heading: (level, text) =>
+		`${'#'.repeat(Math.min(level, 6))} ${text}`,
+	label: (text) => `**${text}**`,
+	code: (text) => `\`${text}\``,
+	block: (text, language) =>
+		`\`\`\`${language}\n${text.replace(/\n$/, '')}\n\`\`\``,
+};
+
+const text_style: DocumentStyle = {
+	heading: (level, text) =>
+		level <= 2
+			? `${text}\n${(level === 1 ? '=' : '-').repeat(text.length)}`
+			: `${text}:`,
+	label: (text) => text,
+	code: (text) => text,
+	block: (text) =>
+		text
+			.replace(/\n$/, '')
+			.split('\n')
+			.map((line) => `    ${line}`)
+			.join('\n'),
+};
+
+export function humanize(key: string): string {
+	const words = key
+		.replace(/^_+/, '')
+		.replace(/([a-z])([A-Z])/g, '$1 $2')
+		.replace(/[_-]+/g, ' ')
+		.toLowerCase();
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function is_primitive(value: unknown): boolean {
+	return value === null || typeof value !== 'object';
+}
+
+function is_multiline(value: unknown): value is string {
+	return typeof value === 'string' && value.includes('\n');
+}
+
+// Calls, attributes and selectors read better as code
+function looks_like_code(text: string): boolean {
+	return (
+		/^[\w$.]+\(.*\)$/.test(text) ||
+		(!/\s/.test(text) && /[.(=<[]/.test(text))
+	);
+}
+
+function inline(value: unknown, style: DocumentStyle): string {
+	if (typeof value === 'string') {
+		return looks_like_code(value) ? style.code(value) : value;
+	}
+	return JSON.stringify(value);
+}
+
+function code_language(key: string, code: string): string {
+	if (/^\s*(curl|npm|pnpm|npx|sveltest)\b/.test(code)) return 'bash';
+	if (/^\s*</.test(code)) return 'svelte';
+	return key.includes('json') ? 'json' : 'ts';
+}
+
+function item_label(item: Record<string, unknown>, index: number) {
+	const key = LABEL_KEYS.find(
+		(candidate) => typeof item[candidate] === 'string',
+	);
+	return key
+		? { key, text: item[key] as string }
+		: { key: null, text: `${index + 1}.` };
+}
+
+function render_fields(
+	object: Record<string, unknown>,
+	level: number,
+	style: DocumentStyle,
+	skip: string | null = null,
+): string[] {
+	const blocks: string[] = [];
+	let list: string[] = [];
+	const flush = () => {
+		if (list.length > 0) blocks.push(list.join('\n'));
+		list = [];
+	};
+
+	for (const [key, value] of Object.entries(object)) {
+		if (key === skip || HIDDEN_KEYS.has(key) || value === undefined) {
+			continue;
+		}
+		const label = style.label(humanize(key));
+		if (is_multiline(value)) {
+			flush();
+			blocks.push(
+				`${label}:\n\n${style.block(value, code_language(key, value))}`,
+			);
+		} else if (is_primitive(value)) {
+			list.push(`- ${label}: ${inline(value, style)}`);
+		} else if (
+			Array.isArray(value) &&
+			value.every((item) => is_primitive(item) && !is_multiline(item))
+		) {
+			list.push(
+				`- ${label}:`,
+				...value.map((item) => `  - ${inline(item, style)}`),
+			);
+		} else {
+			flush();
+			blocks.push(
+				style.heading(level, humanize(key)),
+				...render_block(value, level + 1, style),
+			);
+		}
+	}
+	flush();
+	return blocks;
+}
+
+function render_block(
+	value: unknown,
+	level: number,
+	style: DocumentStyle,
+	key = '',
+): string[] {
+	if (is_multiline(value)) {
+		return [style.block(value, code_language(key, value))];
+	}
+	if (is_primitive(value)) return [inline(value, style)];
+
+	if (Array.isArray(value)) {
+		if (value.length === 0) return ['(none)'];
+		if (value.every(is_primitive)) {
+			return [
+				value.map((item) => `- ${inline(item, style)}`).join('\n'),
+			];
+		}
+		return value.flatMap((item, index) => {
+			if (is_primitive(item) || Array.isArray(item)) {
+				return render_block(item, level, style);
+			}
+			const record = item as Record<string, unknown>;
+			const { key: label_key, text } = item_label(record, index);
+			return [
+				style.heading(level, text),
+				...render_fields(record, level + 1, style, label_key),
+			];
+		});
+	}
+
+	return render_fields(
+		value as Record<string, unknown>,
+		level,
+		style,
+	);
+}
+
+function render_document(
+	data: unknown,
+	style: DocumentStyle,
+): string {
+	if (typeof data === 'string') return data;
+	if (is_primitive(data) || Array.isArray(data)) {
+		return render_block(data, 2, style).join('\n\n');
+	}
+
+	const { title, description, ...rest } = data as Record<
+		string,
+		unknown
+	>;
+	const blocks: string[] = [];
+	if (typeof title === 'string') blocks.push(style.heading(1, title));
+	if (typeof description === 'string') blocks.push(description);
+	for (const [key, value] of Object.entries(rest)) {
+		if (HIDDEN_KEYS.has(key) || value === undefined) continue;
+		blocks.push(
+			style.heading(2, humanize(key)),
+			...render_block(value, 3, style, key),
+		);
+	}
+	return blocks.join('\n\n');
+}
+
+/**
+ * Render any API response as a markdown document: every section
+ * becomes a heading, arrays of records get one subheading per item
+ * and multi-line strings become fenced code blocks.
+ */
+export function render_markdown(data: unknown): string {
+	return render_document(data, markdown_style);
+}
+
+export function render_text(data: unknown): string {
+	return render_document(data, text_style);
+}
+
+// --- YAML ---
+
+// Plain scalars YAML would read as something other than a string
+const YAML_RESERVED =
+	/^(true|false|yes|no|on|off|null|~|[-+]?(\d[\d.e+-]*|\.\d[\d.e+-]*|\.inf)|\.nan|0x[\da-f]+|0o[0-7]+)$/i;
+
+function yaml_scalar(value: unknown): string {
+	if (value === null || value === undefined) return 'null';
+	if (typeof value !== 'string') return JSON.stringify(value);
+	if (
+		value === '' ||
+		YAML_RESERVED.test(value) ||
+		// Control characters, \r included, only survive escaped
+		/\p{Cc}/u.test(value) ||
+		!/^[A-Za-z_./(][^:#\n]*$/.test(value) ||
+		/\s$/.test(value)
+	) {
+		// JSON strings are valid double-quoted YAML scalars
+		return JSON.stringify(value);
+	}
+	return value;
+}
+
+function yaml_key(key: string): string {
+	return /^\w[\w-]*$/.test(key) && !YAML_RESERVED.test(key)
+		? key
+		: JSON.stringify(key);
+}
+
+function yaml_lines(value: unknown, indent: string): string[] {
+	// Block scalars normalise \r\n line breaks, so those stay quoted
+	if (is_multiline(value) && !value.includes('\r')) {
+		// |+ keeps every trailing newline, | just one and |- none
+		const chomp = value.endsWith('\n\n')
+			? '|+'
+			: value.endsWith('\n')
+				? '|'
+				: '|-';
+		// YAML takes the block's indentation from its first line, so
+		// one that starts with spaces needs it spelled out, two past the
+		// parent's. Parsers disagree on it for a bare document string,
+		// which is quoted instead
+		const indented = /^\n*[ \t]/.test(value);
+		if (indented && !indent) return [JSON.stringify(value)];
+		return [
+			indented ? `|2${chomp.slice(1)}` : chomp,
+			...value
+				.replace(/\n$/, '')
+				.split('\n')
+				.map((line) => (line ? `${indent}${line}` : '')),
+		];
+	}
+	if (is_primitive(value)) return [yaml_scalar(value)];
+
+	if (Array.isArray(value)) {
+		if (value.length === 0) return ['[]'];
+		return [
+			'',
+			...value.flatMap((item) => {
+				const [first, ...rest] = yaml_lines(item, `${indent}  `);
+				const head = first === '' ? rest.shift()!.trimStart() : first;
+				return [`${indent}- ${head}`, ...rest];
+			}),
+		];
+	}
+
+	const entries = Object.entries(
+		value as Record<string, unknown>,
+	).filter(([, v]) => v !== undefined);
+	if (entries.length === 0) return ['{}'];
+	return [
+		'',
+		...entries.flatMap(([key, item]) => {
+			const [first, ...rest] = yaml_lines(item, `${indent}  `);
+			return first === ''
+				? [`${indent}${yaml_key(key)}:`, ...rest]
+				: [`${indent}${yaml_key(key)}: ${first}`, ...rest];
+		}),
+	];
+}
+
+export function to_yaml(data: unknown): string {
+	const [first, ...rest] = yaml_lines(data, '');
+	const lines = first === '' ? rest : [first, ...rest];
+	// A kept block's last blank line needs its line break to count
+	return lines.at(-1) === ''
+		? `${lines.join('\n')}\n`
+		: lines.join('\n');
+}
+
+// --- Built-in formatters ---
+
+register_formatter('text', ({ data, text }) =>
+	text ? text(data) : render_text(data),
+);
+
+register_formatter('json', ({ data }) =>
+	JSON.stringify(data, null, 2),
+);
+
+register_formatter('ndjson', ({ data, records }) =>
+	(records ? records(data) : Array.isArray(data) ? data : [data])
+		.map((record) => JSON.stringify(record))
+		.join('\n'),
+);
+
+register_formatter('yaml', ({ data }) => to_yaml(data));
+
+register_formatter('markdown', ({ data, markdown }) =>
+	markdown ? markdown(data) : render_markdown(data),
+);
@@ -0,0 +1,254 @@
+import { execFile } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+	generate_browser_test,
+	generate_ssr_test,
+	parse_component,
+	plan_generate,
+} from './generate';
+
+const STATUS_BADGE = `<script lang="ts">
+	import type { Snippet } from 'svelte';
+
+	interface Props {
+		// Visual style
+		tone?:
+			| 'info'
+			| 'warning'
+			| 'danger';
+		label: string;
+		count?: number;
+		dismissible?: boolean;
+		ondismiss?: (reason: string) => void;
+		onclick?: () => void;
+		children?: Snippet;
+	}
+
+	let {
+		tone = 'info',
+		label,
+		count = $bindable(0),
+		dismissible = false,
+		ondismiss,
+		onclick,
+		children,
+	}: Props = $props();
+</script>
+
+<div class="badge" role="presentation">
+	<button type="button" {onclick}>{label}</button>
+</div>
+`;
+
+const CARD = `<script lang="ts">
+	import type { Snippet } from 'svelte';
+
+	interface Props {
+		title: string;
+		children: Snippet;
+	}
+
+	let { title, children }: Props = $props();
+</script>
+
+<article>
+	<h2>{title}</h2>
+	{@render children()}
+</article>
+`;
+
+// Compiles components for the server, all an SSR test needs
+const SVELTE_CONFIG = `import { compile } from 'svelte/compiler';
+
+export default {
+	plugins: [
+		{
+			name: 'svelte',
+			transform(code, id) {
+				if (!id.endsWith('.svelte')) return;
+				return compile(code, { filename: id, generate: 'server' }).js;
+			},
+		},
+	],
+};
+`;
+
+describe('parse_component', () => {
+	it('reads props, unions, defaults and the root role', () => {
+		const component = parse_component(
+			STATUS_BADGE,
+			'src/lib/status-badge.svelte',
+		);
+
+		expect(component.name).toBe('StatusBadge');
+		expect(component.file_name).toBe('status-badge.svelte');
+		expect(component.role).toBe('button');
+		expect(
+			component.props.map(({ name, kind, optional }) => [
+				name,
+				kind,
+				optional,
+			]),
+		).toEqual([
+			['tone', 'union', true],
+			['label', 'string', false],
+			['count', 'number', true],
+			['dismissible', 'boolean', true],
+			['ondismiss', 'callback', true],
+			['onclick', 'callback', true],
+			['children', 'snippet', true],
+		]);
+		expect(component.props[0].values).toEqual([
+			'info',
+			'warning',
+			'danger',
+		]);
+		expect(component.props[0].default_value).toBe("'info'");
+		expect(component.props[2].default_value).toBe('0');
+	});
+
+	it('requires a Props interface', () => {
+		expect(() =>
+			parse_component('<p>static</p>', 'static.svelte'),
+		).toThrow('No `interface Props`');
+	});
+});
+
+describe('generate_browser_test', () => {
+	const output = generate_browser_test(
+		parse_component(STATUS_BADGE, 'status-badge.svelte'),
+	);
+
+	it('follows the browser test conventions', () => {
+		expect(output).toContain(
+			"import { describe, expect, it, vi } from 'vitest';",
+		);
+		expect(output).toContain(
+			"import { createRawSnippet } from 'svelte';",
+		);
+		expect(output).toContain(
+			"import StatusBadge from './status-badge.svelte';",
+		);
+		expect(output).toContain("describe('tone', () => {");
+		expect(output).toContain(
+			"it.each(['info', 'warning', 'danger'] as const)(",
+		);
+		expect(output).toContain("page.getByRole('button')");
+	});
+
+	it('passes required props in every render', () => {
+		expect(output).toContain("\t\tlabel: 'label',");
+		expect(output).toContain(
+			'await render(StatusBadge, { ...default_props, tone });',
+		);
+	});
+
+	it('asserts callbacks and skips ones it cannot trigger', () => {
+		expect(output).toContain(
+			"it('should call onclick', async () => {",
+		);
+		expect(output).toContain(
+			"await page.getByRole('button').click();",
+		);
+		expect(output).toContain(
+			'expect(onclick).toHaveBeenCalledOnce();',
+		);
+		expect(output).toContain("it.skip('should call ondismiss'");
+	});
+});
+
+describe('generate_ssr_test', () => {
+	it('renders with svelte/server', () => {
+		const output = generate_ssr_test(
+			parse_component(STATUS_BADGE, 'status-badge.svelte'),
+		);
+
+		expect(output).toContain(
+			"import { render } from 'svelte/server';",
+		);
+		expect(output).toContain(
+			"describe('StatusBadge Component SSR', () => {",
+		);
+		expect(output).toContain(
+			'render(StatusBadge, { props: { ...default_props, tone } });',
+		);
+		expect(output).not.toContain('vi.fn()');
+	});
+
+	it('generates a passing test for a required snippet prop', async () => {
+		// Inside the package so the test resolves svelte and vitest
+		const project = mkdtempSync(
+			join(import.meta.dirname, '..', '.generate-'),
+		);
+		writeFileSync(join(project, 'card.svelte'), CARD);
+		writeFileSync(join(project, 'vitest.config.js'), SVELTE_CONFIG);
+		const [, ssr] = plan_generate(join(project, 'card.svelte'), {
+			ssr: true,
+		});
+		writeFileSync(ssr.path, ssr.after);
+
+		try {
+			expect(ssr.after).toContain(
+				"children: createRawSnippet(() => ({ render: () => '<span></span>' })),",
+			);
+			await promisify(execFile)(
+				'node',
+				[
+					join(
+						import.meta.dirname,
+						'..',
+						'node_modules',
+						'vitest',
+						'vitest.mjs',
+					),
+					'run',
+					'--root',
+					project,
+				],
+				{ env: { ...process.env, NO_COLOR: '1' } },
+			);
+		} finally {
+			rmSync(project, { recursive: true, force: true });
+		}
+	}, 60_000);
+});
+
+describe('plan_generate', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'sveltest-generate-'));
+		writeFileSync(join(dir, 'status-badge.svelte'), STATUS_BADGE);
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('places tests next to the component', () => {
+		const changes = plan_generate(join(dir, 'status-badge.svelte'), {
+			ssr: true,
+		});
+
+		expect(changes.map((c) => c.path)).toEqual([
+			join(dir, 'status-badge.svelte.test.ts'),
+			join(dir, 'status-badge.ssr.test.ts'),
+		]);
+		expect(changes.every((c) => c.before === null)).toBe(true);
+	});
+
+	it('refuses to replace existing tests without force', () => {
+		const existing = join(dir, 'status-badge.svelte.test.ts');
+		writeFileSync(existing, '// hand-written');
+		const component = join(dir, 'status-badge.svelte');
+
+		expect(() => plan_generate(component)).toThrow('--force');
+		expect(plan_generate(component, { force: true })[0].before).toBe(
+			'// hand-written',
+		);
+	});
+});
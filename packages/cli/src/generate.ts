@@ -0,0 +1,519 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type { FileChange } from './diff';
+import { SveltestError } from './errors';
+
+export type PropKind =
+	| 'union'
+	| 'boolean'
+	| 'string'
+	| 'number'
+	| 'callback'
+	| 'snippet'
+	| 'other';
+
+export interface PropInfo {
+	name: string;
+	type: string;
+	optional: boolean;
+	kind: PropKind;
+	// Literal members for `union` props, in declaration order
+	values: string[];
+	default_value?: string;
+}
+
+export interface ComponentInfo {
+	name: string;
+	file_name: string;
+	role: string | null;
+	props: PropInfo[];
+}
+
+export interface GenerateOptions {
+	ssr?: boolean;
+	force?: boolean;
+}
+
+// Events whose handler can be fired straight from a locator action
+const LOCATOR_ACTIONS: Record<string, string> = {
+	onclick: 'click()',
+	ondblclick: 'dblClick()',
+	oninput: "fill('hello')",
+	onchange: "fill('hello')",
+	onfocus: 'click()',
+	onmouseenter: 'hover()',
+};
+
+// Roles that rarely identify the component itself (backdrops, error
+// messages) and so make poor default locators
+const IGNORED_ROLES = ['presentation', 'none', 'alert', 'status'];
+
+// Checked in order, so form controls win over the buttons around them
+const ELEMENT_ROLES: [RegExp, string][] = [
+	[/<dialog\b/, 'dialog'],
+	[/<input\b[^>]*type=["']checkbox["']/, 'checkbox'],
+	[/<input\b[^>]*type=["']radio["']/, 'radio'],
+	[/<input\b/, 'textbox'],
+	[/<textarea\b/, 'textbox'],
+	[/<select\b/, 'combobox'],
+	[/<button\b/, 'button'],
+	[/<a\b[^>]*href/, 'link'],
+	[/<nav\b/, 'navigation'],
+	[/<form\b/, 'form'],
+	[/<ul\b|<ol\b/, 'list'],
+];
+
+function to_component_name(file: string): string {
+	return basename(file, '.svelte')
+		.split(/[-_.]/)
+		.filter(Boolean)
+		.map((part) => part[0].toUpperCase() + part.slice(1))
+		.join('');
+}
+
+function instance_script(source: string): string {
+	const scripts = [
+		...source.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/g),
+	];
+	const instance = scripts.find(
+		([, attrs]) => !/\bmodule\b|context=["']module["']/.test(attrs),
+	);
+	return instance?.[2] ?? '';
+}
+
+function strip_comments(code: string): string {
+	return code
+		.replace(/\/\*[\s\S]*?\*\//g, '')
+		.replace(/\/\/.*$/gm, '');
+}
+
+// Return the text between the brace at `open` and its partner
+function balanced_body(code: string, open: number): string {
+	let depth = 0;
+	for (let i = open; i < code.length; i++) {
+		if (code[i] === '{') depth++;
+		if (code[i] === '}' && --depth === 0) {
+			return code.slice(open + 1, i);
+		}
+	}
+	return code.slice(open + 1);
+}
+
+// Split interface members on `;`/`,`/newlines that are not nested
+function split_members(body: string): string[] {
+	const members: string[] = [];
+	let depth = 0;
+	let current = '';
+	for (const char of body) {
+		if ('({[<'.includes(char)) depth++;
+		// The `>` of an arrow is not a closing bracket
+		if (
+			')}]'.includes(char) ||
+			(char === '>' && !current.endsWith('='))
+		) {
+			depth--;
+		}
+		const continues = /(\||&|:|=>|,)\s*$/.test(current);
+		if (
+			depth === 0 &&
+			(char === ';' ||
+				(char === '\n' && !continues && current.trim()))
+		) {
+			members.push(current);
+			current = '';
+			continue;
+		}
+		current += char;
+	}
+	members.push(current);
+	return members
+		.map((m) => m.replace(/\s+/g, ' ').trim())
+		.filter(Boolean)
+		.reduce<string[]>((merged, member) => {
+			// Re-attach union continuation lines split off above
+			if (/^[|&]/.test(member) && merged.length > 0) {
+				merged[merged.length - 1] += ` ${member}`;
+			} else {
+				merged.push(member);
+			}
+			return merged;
+		}, []);
+}
+
+function classify(
+	name: string,
+	type: string,
+): Omit<PropInfo, 'name' | 'type' | 'optional' | 'default_value'> {
+	const members = type
+		.split('|')
+		.map((part) => part.trim())
+		.filter(Boolean);
+	if (
+		members.length > 0 &&
+		members.every((m) => /^(['"]).*\1$/.test(m))
+	) {
+		return {
+			kind: 'union',
+			values: members.map((m) => m.slice(1, -1)),
+		};
+	}
+	if (type.includes('=>') && name.startsWith('on')) {
+		return { kind: 'callback', values: [] };
+	}
+	if (/\bSnippet\b/.test(type) || name === 'children') {
+		return { kind: 'snippet', values: [] };
+	}
+	if (type === 'boolean') return { kind: 'boolean', values: [] };
+	if (type === 'string') return { kind: 'string', values: [] };
+	if (type === 'number') return { kind: 'number', values: [] };
+	return { kind: 'other', values: [] };
+}
+
+function parse_defaults(script: string): Record<string, string> {
+	const match = script.match(
+		/let\s*\{([\s\S]*?)\}\s*:\s*Props\s*=\s*\$props\(\)/,
+	);
+	if (!match) return {};
+	const defaults: Record<string, string> = {};
+	for (const entry of split_members(match[1].replace(/,/g, ';'))) {
+		const [name, value] = entry.split(/\s*=\s*/, 2);
+		if (value === undefined || name.startsWith('...')) continue;
+		defaults[name.trim()] = value
+			.replace(/^\$bindable\((.*)\)$/, '$1')
+			.trim();
+	}
+	return defaults;
+}
+
+/**
+ * Read the `interface Props` declaration and `$props()` defaults from
+ * a Svelte 5 component. Members inherited through `extends` are not
+ * followed; only what the component declares itself is returned.
+ */
+export function parse_component(
+	source: string,
+	file_name: string,
+): ComponentInfo {
+	const script = strip_comments(instance_script(source));
+	const start = script.search(/interface\s+Props\b/);
+	if (start === -1) {
+		throw new SveltestError(
+			'usage',
+			`No \`interface Props\` found in ${file_name}`,
+		);
+	}
+
+	const body = balanced_body(script, script.indexOf('{', start));
+	const defaults = parse_defaults(script);
+	const props: PropInfo[] = [];
+	for (const member of split_members(body)) {
+		const match = member.match(/^(\w+)(\?)?\s*:\s*(.+)$/);
+		if (!match) continue;
+		const [, name, optional, raw_type] = match;
+		const type = raw_type.replace(/^\|\s*/, '').trim();
+		props.push({
+			name,
+			type,
+			optional: Boolean(optional),
+			default_value: defaults[name],
+			...classify(name, type),
+		});
+	}
+
+	const markup = source.replace(
+		/<script\b[\s\S]*?<\/script>|<style\b[\s\S]*?<\/style>/g,
+		'',
+	);
+	const explicit_role = [
+		...markup.matchAll(/\brole=["'](\w+)["']/g),
+	].find(([, role]) => !IGNORED_ROLES.includes(role));
+	const role =
+		explicit_role?.[1] ??
+		ELEMENT_ROLES.find(([pattern]) => pattern.test(markup))?.[1] ??
+		null;
+
+	return {
+		name: to_component_name(file_name),
+		file_name: basename(file_name),
+		role,
+		props,
+	};
+}
+
+function placeholder(prop: PropInfo): string {
+	switch (prop.kind) {
+		case 'union':
+			return `'${prop.values[0]}'`;
+		case 'boolean':
+			return 'false';
+		case 'number':
+			return '0';
+		case 'callback':
+			return 'vi.fn()';
+		case 'snippet':
+			return `createRawSnippet(() => ({ render: () => '<span></span>' }))`;
+		default:
+			return `'${prop.name}'`;
+	}
+}
+
+function base_props(component: ComponentInfo): string[] {
+	return component.props
+		.filter((prop) => !prop.optional)
+		.map((prop) => `${prop.name}: ${placeholder(prop)},`);
+}
+
+function render_props(base: string[], extra: string): string {
+	if (base.length === 0) return `{ ${extra} }`;
+	return `{ ...default_props, ${extra} }`;
+}
+
+function locator(component: ComponentInfo): string {
+	return component.role
+		? `page.getByRole('${component.role}')`
+		: `page.getByRole('TODO') // could not infer a role from the markup`;
+}
+
+function browser_describe(
+	component: ComponentInfo,
+	prop: PropInfo,
+	base: string[],
+): string[] {
+	const { name } = component;
+	const target = locator(component);
+	const lines = [`\tdescribe('${prop.name}', () => {`];
+
+	switch (prop.kind) {
+		case 'union':
+			lines.push(
+				`\t\tit.each([${prop.values.map((v) => `'${v}'`).join(', ')}] as const)(`,
+				`\t\t\t'should render with ${prop.name} %s',`,
+				`\t\t\tasync (${prop.name}) => {`,
+				`\t\t\t\tawait render(${name}, ${render_props(base, prop.name)});`,
+				'',
+				`\t\t\t\tconst element = ${target};`,
+				`\t\t\t\tawait expect.element(element).toBeInTheDocument();`,
+				`\t\t\t\t// TODO: assert the class or attribute each ${prop.name} applies`,
+				`\t\t\t},`,
+				`\t\t);`,
+			);
+			break;
+		case 'boolean':
+			lines.push(
+				`\t\tit.each([true, false])(`,
+				`\t\t\t'should render with ${prop.name}=%s',`,
+				`\t\t\tasync (${prop.name}) => {`,
+				`\t\t\t\tawait render(${name}, ${render_props(base, prop.name)});`,
+				'',
+				`\t\t\t\tconst element = ${target};`,
+				`\t\t\t\tawait expect.element(element).toBeInTheDocument();`,
+				`\t\t\t\t// TODO: assert what ${prop.name} changes`,
+				`\t\t\t},`,
+				`\t\t);`,
+			);
+			break;
+		case 'callback': {
+			const action = LOCATOR_ACTIONS[prop.name];
+			lines.push(
+				`\t\tit${action ? '' : '.skip'}('should call ${prop.name}', async () => {`,
+				`\t\t\tconst ${prop.name} = vi.fn();`,
+				`\t\t\tawait render(${name}, ${render_props(base, prop.name)});`,
+				'',
+				action
+					? `\t\t\tawait ${target}.${action};`
+					: `\t\t\t// TODO: trigger the interaction that fires ${prop.name}`,
+				'',
+				`\t\t\texpect(${prop.name}).toHaveBeenCalledOnce();`,
+				`\t\t});`,
+			);
+			break;
+		}
+		case 'snippet':
+			lines.push(
+				`\t\tit('should render ${prop.name}', async () => {`,
+				`\t\t\tconst ${prop.name} = createRawSnippet(() => ({`,
+				`\t\t\t\trender: () => \`<span>Snippet content</span>\`,`,
+				`\t\t\t}));`,
+				`\t\t\tawait render(${name}, ${render_props(base, prop.name)});`,
+				'',
+				`\t\t\tawait expect`,
+				`\t\t\t\t.element(page.getByText('Snippet content'))`,
+				`\t\t\t\t.toBeInTheDocument();`,
+				`\t\t});`,
+			);
+			break;
+		default: {
+			const value =
+				prop.kind === 'number' ? '42' : `'Test ${prop.name}'`;
+			lines.push(
+				`\t\tit('should render with ${prop.name}', async () => {`,
+				`\t\t\tawait render(${name}, ${render_props(base, `${prop.name}: ${value}`)});`,
+				'',
+				`\t\t\tconst element = ${target};`,
+				`\t\t\tawait expect.element(element).toBeInTheDocument();`,
+				`\t\t\t// TODO: assert how ${prop.name} is rendered`,
+				`\t\t});`,
+			);
+		}
+	}
+
+	lines.push(`\t});`);
+	return lines;
+}
+
+function default_props_block(base: string[]): string[] {
+	if (base.length === 0) return [];
+	return [
+		`\tconst default_props = {`,
+		...base.map((line) => `\t\t${line}`),
+		`\t};`,
+		'',
+	];
+}
+
+/**
+ * Build a `*.svelte.test.ts` skeleton that follows the sveltest
+ * conventions: real browser rendering, `page.getByRole` locators and
+ * `await expect.element()` assertions.
+ */
+export function generate_browser_test(
+	component: ComponentInfo,
+): string {
+	const base = base_props(component);
+	const uses_snippets =
+		component.props.some((p) => p.kind === 'snippet') ||
+		base.some((line) => line.includes('createRawSnippet'));
+	const uses_vi = component.props.some((p) => p.kind === 'callback');
+
+	const body = component.props.flatMap((prop) => [
+		...browser_describe(component, prop, base),
+		'',
+	]);
+	body.pop();
+
+	return [
+		...(uses_snippets
+			? [`import { createRawSnippet } from 'svelte';`]
+			: []),
+		`import { describe, expect, it${uses_vi ? ', vi' : ''} } from 'vitest';`,
+		`import { render } from 'vitest-browser-svelte';`,
+		`import { page } from 'vitest/browser';`,
+		`import ${component.name} from './${component.file_name}';`,
+		'',
+		`describe('${component.name} Component', () => {`,
+		...default_props_block(base),
+		...body,
+		`});`,
+		'',
+	].join('\n');
+}
+
+/**
+ * Build the `*.ssr.test.ts` companion, which renders with
+ * `svelte/server` and asserts on the HTML string.
+ */
+export function generate_ssr_test(component: ComponentInfo): string {
+	const base = base_props(component).filter(
+		(line) => !line.includes('vi.fn()'),
+	);
+	const uses_snippets = base.some((line) =>
+		line.includes('createRawSnippet'),
+	);
+	const props = (extra?: string) =>
+		base.length === 0
+			? `{ props: { ${extra ?? ''} } }`.replace('{  }', '{}')
+			: `{ props: { ...default_props${extra ? `, ${extra}` : ''} } }`;
+	const unions = component.props.filter((p) => p.kind === 'union');
+
+	const lines = [
+		...(uses_snippets
+			? [`import { createRawSnippet } from 'svelte';`]
+			: []),
+		`import { render } from 'svelte/server';`,
+		`import { describe, expect, it } from 'vitest';`,
+		`import ${component.name} from './${component.file_name}';`,
+		'',
+		`describe('${component.name} Component SSR', () => {`,
+		...default_props_block(base),
+		`\tit('should render without errors', () => {`,
+		`\t\texpect(() => render(${component.name}, ${props()})).not.toThrow();`,
+		`\t});`,
+	];
+
+	for (const prop of unions) {
+		lines.push(
+			'',
+			`\tdescribe('${prop.name}', () => {`,
+			`\t\tit.each([${prop.values.map((v) => `'${v}'`).join(', ')}] as const)(`,
+			`\t\t\t'should render ${prop.name} %s',`,
+			`\t\t\t(${prop.name}) => {`,
+			`\t\t\t\tconst { body } = render(${component.name}, ${props(prop.name)});`,
+			'',
+			`\t\t\t\texpect(body).toBeTruthy();`,
+			`\t\t\t\t// TODO: assert the markup each ${prop.name} produces`,
+			`\t\t\t},`,
+			`\t\t);`,
+			`\t});`,
+		);
+	}
+
+	lines.push(`});`, '');
+	return lines.join('\n');
+}
+
+/**
+ * Work out the test files `sveltest generate` would write next to a
+ * component. Existing tests are only replaced with `force`.
+ */
+export function plan_generate(
+	component_path: string,
+	options: GenerateOptions = {},
+): FileChange[] {
+	if (!component_path.endsWith('.svelte')) {
+		throw new SveltestError(
+			'usage',
+			`Expected a .svelte file: ${component_path}`,
+		);
+	}
+	if (!existsSync(component_path)) {
+		throw new SveltestError(
+			'usage',
+			`Component not found: ${component_path}`,
+		);
+	}
+
+	const component = parse_component(
+		readFileSync(component_path, 'utf-8'),
+		component_path,
+	);
+	const dir = dirname(component_path);
+	const stem = basename(component_path, '.svelte');
+
+	const files = [
+		{
+			path: join(dir, `${stem}.svelte.test.ts`),
+			after: generate_browser_test(component),
+		},
+	];
+	if (options.ssr) {
+		files.push({
+			path: join(dir, `${stem}.ssr.test.ts`),
+			after: generate_ssr_test(component),
+		});
+	}
+
+	return files.map(({ path, after }) => {
+		const exists = existsSync(path);
+		if (exists && !options.force) {
+			throw new SveltestError(
+				'usage',
+				`${path} already exists; use --force to replace it`,
+			);
+		}
+		return {
+			path,
+			before: exists ? readFileSync(path, 'utf-8') : null,
+			after,
+		};
+	});
+}
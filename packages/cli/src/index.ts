@@ -1,608 +1,22 @@
-#!/usr/bin/env node
-
-import { defineCommand, runMain } from 'citty';
-import { readFileSync } from 'node:fs';
-import { dirname, join } from 'node:path';
-import { fileURLToPath } from 'node:url';
-
-const API_BASE = 'https://sveltest.dev/api';
-const SITE_BASE = 'https://sveltest.dev';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-function is_plain(explicit?: boolean): boolean {
-	return explicit || !process.stdout.isTTY;
-}
-
-const CONTEXT_HEADER = `# Context: Svelte 5 Testing with vitest-browser-svelte
-# Key: Use page.getByRole() locators, never container queries
-# Key: Use untrack() for $derived values in tests
----
-`;
-
-function get_cli_version() {
-	try {
-		const pkg_path = join(__dirname, '..', 'package.json');
-		const pkg = JSON.parse(readFileSync(pkg_path, 'utf-8'));
-		return pkg.version;
-	} catch {
-		return 'unknown';
-	}
-}
-
-const RELATED_PATTERNS: Record<string, string[]> = {
-	'button-variants': [
-		'locator-patterns',
-		'modal-states',
-		'runes-testing',
-	],
-	'form-validation': [
-		'authentication',
-		'crud-patterns',
-		'locator-patterns',
-	],
-	'modal-states': [
-		'button-variants',
-		'locator-patterns',
-		'runes-testing',
-	],
-	'crud-patterns': [
-		'form-validation',
-		'runes-testing',
-		'authentication',
-	],
-	'locator-patterns': [
-		'button-variants',
-		'form-validation',
-		'modal-states',
-	],
-	authentication: ['form-validation', 'crud-patterns'],
-	'runes-testing': [
-		'crud-patterns',
-		'button-variants',
-		'modal-states',
-	],
-};
-
-function add_related_patterns(
-	data: Record<string, unknown>,
-	scenario: string,
-): Record<string, unknown> {
-	const related = RELATED_PATTERNS[scenario];
-	if (related && related.length > 0) {
-		return { ...data, _related: related };
-	}
-	return data;
-}
-
-function add_metadata(
-	data: Record<string, unknown>,
-): Record<string, unknown> {
-	return {
-		...data,
-		_meta: {
-			cli_version: get_cli_version(),
-			timestamp: new Date().toISOString(),
-			source: 'https://sveltest.dev',
-		},
-	};
-}
-
-interface ScenarioMeta {
-	endpoint: string;
-	method: string;
-	category: string;
-	description: string;
-	patterns: string[];
-	example_test_file: string;
-}
-
-interface ExamplesResponse {
-	title: string;
-	description: string;
-	total_scenarios: number;
-	categories: string[];
-	scenarios: ScenarioMeta[];
-}
-
-interface SearchResult {
-	id: string;
-	title: string;
-	description: string;
-	url: string;
-	type: string;
-	category: string;
-	excerpt: string;
-}
-
-interface SearchResponse {
-	query: string;
-	filter: string;
-	results: SearchResult[];
-	total: number;
-}
-
-interface DocsTopicMeta {
-	slug: string;
-	title: string;
-	description: string;
-	category: string;
-	has_content: boolean;
-}
-
-interface DocsIndexResponse {
-	title: string;
-	description: string;
-	total_topics: number;
-	categories: string[];
-	topics: DocsTopicMeta[];
-}
-
-interface GetExampleOptions {
-	compact?: boolean;
-	filter?: string;
-	sections?: string[];
-}
-
-async function fetch_json<T>(url: string): Promise<T> {
-	const controller = new AbortController();
-	const timeout_id = setTimeout(() => controller.abort(), 30000);
-	try {
-		const response = await fetch(url, { signal: controller.signal });
-		if (!response.ok) {
-			throw new Error(`HTTP error! status: ${response.status}`);
-		}
-		return response.json() as Promise<T>;
-	} finally {
-		clearTimeout(timeout_id);
-	}
-}
-
-async function fetch_text(url: string): Promise<string> {
-	const controller = new AbortController();
-	const timeout_id = setTimeout(() => controller.abort(), 30000);
-	try {
-		const response = await fetch(url, { signal: controller.signal });
-		if (!response.ok) {
-			throw new Error(`HTTP error! status: ${response.status}`);
-		}
-		return response.text();
-	} finally {
-		clearTimeout(timeout_id);
-	}
-}
-
-function format_json(data: unknown): string {
-	return JSON.stringify(data, null, 2);
-}
-
-function format_readable(data: unknown): string {
-	if (typeof data !== 'object' || data === null) {
-		return String(data);
-	}
-
-	const lines: string[] = [];
-
-	if ('title' in data && typeof data.title === 'string') {
-		lines.push(`\n${data.title}`);
-		lines.push('='.repeat(data.title.length));
-	}
-
-	if ('description' in data && typeof data.description === 'string') {
-		lines.push(`\n${data.description}`);
-	}
-
-	if (
-		'testingPatterns' in data &&
-		Array.isArray(data.testingPatterns)
-	) {
-		lines.push('\nTesting Patterns:');
-		data.testingPatterns.forEach(
-			(pattern: {
-				category: string;
-				tests: { description: string }[];
-			}) => {
-				lines.push(`\n  ${pattern.category}:`);
-				pattern.tests.forEach((test: { description: string }) => {
-					lines.push(`    - ${test.description}`);
-				});
-			},
-		);
-	}
-
-	return lines.join('\n');
-}
-
-async function list_examples(plain?: boolean) {
-	const data = await fetch_json<ExamplesResponse>(
-		`${API_BASE}/examples`,
-	);
-
-	if (plain) {
-		data.scenarios.forEach((scenario) => {
-			console.log(scenario.endpoint.split('/').pop());
-		});
-	} else {
-		console.log('\nAvailable Testing Scenarios:\n');
-		data.scenarios.forEach((scenario) => {
-			const scenario_name = scenario.endpoint.split('/').pop();
-			console.log(`  ${scenario_name}`);
-			console.log(`    Category: ${scenario.category}`);
-			console.log(`    ${scenario.description}\n`);
-		});
-	}
-}
-
-function compact_json(
-	data: Record<string, unknown>,
-): Record<string, unknown> {
-	const {
-		description,
-		source_file,
-		total_tests,
-		meta,
-		...essential
-	} = data;
-	return essential;
-}
-
-async function get_example(
-	scenario: string,
-	format: 'json' | 'readable' = 'readable',
-	options: GetExampleOptions = {},
-) {
-	const data = await fetch_json(`${API_BASE}/examples/${scenario}`);
-
-	if (format === 'json') {
-		let output = data as Record<string, unknown>;
-
-		if (options.compact) {
-			output = compact_json(output);
-		}
-
-		if (options.filter) {
-			const filterKey = options.filter;
-			if (output[filterKey]) {
-				output = { [filterKey]: output[filterKey] };
-			}
-		}
-
-		if (options.sections && options.sections.length > 0) {
-			const filtered: Record<string, unknown> = {};
-			options.sections.forEach((section) => {
-				if (output[section]) {
-					filtered[section] = output[section];
-				}
-			});
-			output = filtered;
-		}
-
-		output = add_related_patterns(output, scenario);
-		output = add_metadata(output);
-		console.log(format_json(output));
-	} else {
-		console.log(format_readable(data));
-	}
-}
-
-async function batch_get_examples(
-	scenarios: string[],
-	options: GetExampleOptions,
-) {
-	const results: Record<string, Record<string, unknown>> = {};
-
-	for (const s of scenarios) {
-		try {
-			const data = await fetch_json(`${API_BASE}/examples/${s}`);
-			let output = data as Record<string, unknown>;
-
-			if (options.compact) {
-				output = compact_json(output);
-			}
-
-			if (options.filter && output[options.filter]) {
-				output = {
-					[options.filter]: output[options.filter],
-				};
-			}
-
-			if (options.sections && options.sections.length > 0) {
-				const filtered: Record<string, unknown> = {};
-				options.sections.forEach((section) => {
-					if (output[section]) {
-						filtered[section] = output[section];
-					}
-				});
-				output = filtered;
-			}
-
-			output = add_related_patterns(output, s);
-			results[s] = output;
-		} catch (error) {
-			console.error(`Error fetching '${s}':`, error);
-		}
-	}
-
-	const output = add_metadata(results);
-	console.log(format_json(output));
-}
-
-async function search_docs(query: string, filter?: string) {
-	const params = new URLSearchParams({ q: query });
-	if (filter) params.append('filter', filter);
-
-	const response = await fetch_json<SearchResponse>(
-		`${API_BASE}/search?${params}`,
-	);
-
-	if (response.results.length === 0) {
-		console.log(`\nNo results found for: "${query}"\n`);
-		return;
-	}
-
-	if (is_plain()) {
-		response.results.forEach((result) => {
-			console.log(JSON.stringify(result));
-		});
-	} else {
-		console.log(`\nSearch Results for "${query}":\n`);
-		response.results.forEach((result, index) => {
-			console.log(`${index + 1}. ${result.title}`);
-			console.log(`   ${result.description}`);
-			console.log(`   ${result.url}`);
-			if (result.excerpt) {
-				console.log(`   ...${result.excerpt}...\n`);
-			} else {
-				console.log('');
-			}
-		});
-	}
-}
-
-async function fetch_llms(full?: boolean, context?: boolean) {
-	const url = full
-		? `${SITE_BASE}/llms-full.txt`
-		: `${SITE_BASE}/llms.txt`;
-	const text = await fetch_text(url);
-	if (context) {
-		process.stdout.write(CONTEXT_HEADER);
-	}
-	process.stdout.write(text);
-}
-
-async function list_docs(plain?: boolean) {
-	const data = await fetch_json<DocsIndexResponse>(
-		`${API_BASE}/docs`,
-	);
-
-	if (plain) {
-		data.topics.forEach((topic) => {
-			console.log(topic.slug);
-		});
-	} else {
-		console.log('\nAvailable Documentation Topics:\n');
-		let current_category = '';
-		data.topics.forEach((topic) => {
-			if (topic.category !== current_category) {
-				current_category = topic.category;
-				console.log(`  ${current_category}:`);
-			}
-			console.log(`    ${topic.slug}`);
-			console.log(`      ${topic.description}\n`);
-		});
-	}
-}
-
-async function get_doc(
-	topic: string,
-	format: 'markdown' | 'json',
-	context?: boolean,
-) {
-	if (format === 'json') {
-		const data = await fetch_json(
-			`${API_BASE}/docs/${topic}?format=json`,
-		);
-		let output = data as Record<string, unknown>;
-		output = add_metadata(output);
-		console.log(format_json(output));
-	} else {
-		const text = await fetch_text(`${API_BASE}/docs/${topic}`);
-		if (context) {
-			process.stdout.write(CONTEXT_HEADER);
-		}
-		process.stdout.write(text);
-	}
-}
-
-async function get_docs_batch(topics: string[], context?: boolean) {
-	if (context) {
-		process.stdout.write(CONTEXT_HEADER);
-	}
-	for (const topic of topics) {
-		try {
-			const text = await fetch_text(`${API_BASE}/docs/${topic}`);
-			process.stdout.write(text);
-			process.stdout.write('\n');
-		} catch (error) {
-			console.error(`Error fetching doc '${topic}':`, error);
-		}
-	}
-}
-
-// --- Command definitions ---
-
-const llms_command = defineCommand({
-	meta: {
-		name: 'llms',
-		description: 'Fetch llms.txt documentation for LLM consumption',
-	},
-	args: {
-		full: {
-			type: 'boolean',
-			description: 'Fetch complete documentation (130KB)',
-		},
-		context: {
-			type: 'boolean',
-			description: 'Prepend testing context header',
-		},
-	},
-	async run({ args }) {
-		await fetch_llms(args.full, args.context);
-	},
-});
-
-const docs_command = defineCommand({
-	meta: {
-		name: 'docs',
-		description: 'Browse documentation topics',
-	},
-	args: {
-		topic: {
-			type: 'positional',
-			description: 'Topic slug (or comma-separated for batch)',
-			required: false,
-		},
-		json: {
-			type: 'boolean',
-			description: 'Output as structured JSON',
-		},
-		context: {
-			type: 'boolean',
-			description: 'Prepend testing context header',
-		},
-		plain: {
-			type: 'boolean',
-			description: 'Force plain output',
-		},
-	},
-	async run({ args }) {
-		if (!args.topic) {
-			await list_docs(is_plain(args.plain));
-			return;
-		}
-		if (args.topic.includes(',')) {
-			const topics = args.topic.split(',').map((t) => t.trim());
-			await get_docs_batch(topics, args.context);
-		} else {
-			await get_doc(
-				args.topic,
-				args.json ? 'json' : 'markdown',
-				args.context,
-			);
-		}
-	},
-});
-
-const list_command = defineCommand({
-	meta: {
-		name: 'list',
-		description: 'List all available testing examples',
-	},
-	args: {
-		plain: {
-			type: 'boolean',
-			description: 'Force plain output',
-		},
-	},
-	async run({ args }) {
-		await list_examples(is_plain(args.plain));
-	},
-});
-
-const get_command = defineCommand({
-	meta: {
-		name: 'get',
-		description: 'Get a specific testing example',
-	},
-	args: {
-		scenario: {
-			type: 'positional',
-			description: 'Scenario name (or comma-separated for batch)',
-			required: true,
-		},
-		json: {
-			type: 'boolean',
-			description: 'Output in JSON format',
-		},
-		compact: {
-			type: 'boolean',
-			description: 'Minimal JSON output (~50% fewer tokens)',
-		},
-		filter: {
-			type: 'string',
-			description: 'Get only specific field',
-		},
-		sections: {
-			type: 'string',
-			description: 'Get specific sections (comma-separated)',
-		},
-		plain: {
-			type: 'boolean',
-			description: 'Force plain output',
-		},
-	},
-	async run({ args }) {
-		const plain = is_plain(args.plain);
-		const format = args.json || plain ? 'json' : 'readable';
-		const compact = args.compact || plain;
-		const sections = args.sections
-			? args.sections.split(',')
-			: undefined;
-		const options: GetExampleOptions = {
-			compact,
-			filter: args.filter,
-			sections,
-		};
-
-		if (args.scenario.includes(',')) {
-			const scenarios = args.scenario.split(',').map((s) => s.trim());
-			await batch_get_examples(scenarios, options);
-		} else {
-			await get_example(
-				args.scenario,
-				format as 'json' | 'readable',
-				options,
-			);
-		}
-	},
-});
-
-const search_command = defineCommand({
-	meta: {
-		name: 'search',
-		description: 'Search documentation and examples',
-	},
-	args: {
-		query: {
-			type: 'positional',
-			description: 'Search query',
-			required: true,
-		},
-		filter: {
-			type: 'string',
-			description: 'Filter results: all, docs, examples, components',
-		},
-	},
-	async run({ args }) {
-		await search_docs(args.query, args.filter);
-	},
-});
-
-const main = defineCommand({
-	meta: {
-		name: 'sveltest',
-		version: get_cli_version(),
-		description:
-			'Fetch Svelte testing patterns and examples from sveltest.dev',
-	},
-	subCommands: {
-		llms: llms_command,
-		docs: docs_command,
-		list: list_command,
-		get: get_command,
-		search: search_command,
-	},
-});
-
-runMain(main);
+// Programmatic entry point. The CLI lives in cli.ts and is a thin
+// layer over SveltestClient.
+
+export {
+	SveltestClient,
+	type FetchLike,
+	type SearchFilter,
+	type SveltestClientOptions,
+} from './client';
+export { DEFAULT_API_BASE } from './config';
+export { EXIT_CODES, SveltestError, type ErrorKind } from './errors';
+export type { GetExampleOptions } from './examples';
+export { QueryError, type QueryErrorCode } from './search-query';
+export type {
+	DocResponse,
+	DocsIndexResponse,
+	DocsTopicMeta,
+	ExamplesResponse,
+	ScenarioMeta,
+	SearchResponse,
+	SearchResult,
+} from './types';
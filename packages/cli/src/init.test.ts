@@ -0,0 +1,160 @@
+import {
+	mkdirSync,
+	mkdtempSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+	DEV_DEPENDENCIES,
+	merge_package_json,
+	merge_vite_config,
+	plan_init,
+} from './init';
+
+const SVELTEKIT_VITE_CONFIG = `import { sveltekit } from '@sveltejs/kit/vite';
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+	plugins: [sveltekit()]
+});
+`;
+
+describe('merge_vite_config', () => {
+	it('adds the test projects to a default SvelteKit config', () => {
+		const { after } = merge_vite_config(SVELTEKIT_VITE_CONFIG, 'ts');
+
+		expect(after).toContain(
+			"import { defineConfig } from 'vitest/config';",
+		);
+		expect(after).toContain(
+			"import { playwright } from '@vitest/browser-playwright';",
+		);
+		expect(after).toContain('plugins: [sveltekit()],\n\ttest: {');
+		expect(after).toContain("name: 'client'");
+		expect(after).toContain("name: 'ssr'");
+		expect(after).toContain("name: 'server'");
+		expect(after).toContain("'./src/vitest-setup-client.ts'");
+		expect(after!.endsWith('});\n')).toBe(true);
+	});
+
+	it('keeps the indentation of the existing config', () => {
+		const spaces = SVELTEKIT_VITE_CONFIG.replace(/\t/g, '  ');
+		const { after } = merge_vite_config(spaces, 'js');
+
+		expect(after).not.toContain('\t');
+		expect(after).toContain('\n  test: {\n    projects: [');
+	});
+
+	it('leaves configs with a test block alone', () => {
+		const existing = SVELTEKIT_VITE_CONFIG.replace(
+			'plugins: [sveltekit()]',
+			"plugins: [sveltekit()],\n\ttest: { environment: 'node' }",
+		);
+		const result = merge_vite_config(existing, 'ts');
+
+		expect(result.after).toBeNull();
+		expect(result.note).toContain('by hand');
+	});
+
+	it('does nothing when the client project exists', () => {
+		const { after } = merge_vite_config(
+			merge_vite_config(SVELTEKIT_VITE_CONFIG, 'ts').after!,
+			'ts',
+		);
+		expect(after).toBeNull();
+	});
+});
+
+describe('merge_package_json', () => {
+	it('adds missing devDependencies and scripts only', () => {
+		const source = JSON.stringify(
+			{
+				name: 'app',
+				scripts: { test: 'vitest run' },
+				devDependencies: { vitest: '^3.0.0', svelte: '^5.0.0' },
+			},
+			null,
+			'\t',
+		);
+		const { after, added } = merge_package_json(source);
+		const pkg = JSON.parse(after);
+
+		expect(pkg.scripts.test).toBe('vitest run');
+		expect(pkg.scripts['test:client']).toBe(
+			'vitest --project=client',
+		);
+		expect(pkg.devDependencies.vitest).toBe('^3.0.0');
+		expect(pkg.devDependencies['vitest-browser-svelte']).toBe(
+			DEV_DEPENDENCIES['vitest-browser-svelte'],
+		);
+		expect(Object.keys(pkg.devDependencies)).toEqual(
+			Object.keys(pkg.devDependencies).sort(),
+		);
+		expect(added).not.toContain('vitest');
+		expect(added).not.toContain('scripts.test');
+	});
+});
+
+describe('plan_init', () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), 'sveltest-init-'));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+	});
+
+	function write_package(deps: Record<string, string>) {
+		writeFileSync(
+			join(cwd, 'package.json'),
+			JSON.stringify({ name: 'app', devDependencies: deps }),
+		);
+	}
+
+	it('requires a SvelteKit project', () => {
+		expect(() => plan_init(cwd)).toThrow('No package.json');
+
+		write_package({ svelte: '^5.0.0' });
+		expect(() => plan_init(cwd)).toThrow('not a SvelteKit project');
+	});
+
+	it('plans config, setup file and package.json changes', () => {
+		write_package({ '@sveltejs/kit': '^2.0.0' });
+		writeFileSync(join(cwd, 'tsconfig.json'), '{}');
+		writeFileSync(join(cwd, 'vite.config.ts'), SVELTEKIT_VITE_CONFIG);
+		writeFileSync(join(cwd, 'pnpm-lock.yaml'), '');
+
+		const plan = plan_init(cwd);
+
+		expect(plan.changes.map((c) => c.path)).toEqual([
+			join(cwd, 'vite.config.ts'),
+			join(cwd, 'src', 'vitest-setup-client.ts'),
+			join(cwd, 'package.json'),
+		]);
+		expect(plan.package_manager).toBe('pnpm');
+	});
+
+	it('creates a JavaScript config when none exists', () => {
+		write_package({ '@sveltejs/kit': '^2.0.0' });
+		mkdirSync(join(cwd, 'src'));
+		writeFileSync(join(cwd, 'src', 'vitest-setup-client.js'), '');
+
+		const plan = plan_init(cwd);
+		const config = plan.changes.find((c) =>
+			c.path.endsWith('vite.config.js'),
+		);
+
+		expect(config?.before).toBeNull();
+		expect(config?.after).toContain("'./src/vitest-setup-client.js'");
+		expect(
+			plan.changes.some((c) =>
+				c.path.includes('vitest-setup-client'),
+			),
+		).toBe(false);
+	});
+});
@@ -0,0 +1,301 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { FileChange } from './diff';
+import { SveltestError } from './errors';
+
+// Mirrors the client/ssr/server projects in apps/website/vite.config.ts
+const TEST_BLOCK = `test: {
+	projects: [
+		{
+			// Client-side tests (Svelte components)
+			extends: true,
+			test: {
+				name: 'client',
+				// Timeout for browser tests - prevent hanging on element lookups
+				testTimeout: 2000,
+				browser: {
+					enabled: true,
+					provider: playwright(),
+					instances: [{ browser: 'chromium' }],
+				},
+				include: ['src/**/*.svelte.{test,spec}.{js,ts}'],
+				exclude: [
+					'src/lib/server/**',
+					'src/**/*.ssr.{test,spec}.{js,ts}',
+				],
+				setupFiles: ['./src/vitest-setup-client.SETUP_EXT'],
+			},
+		},
+		{
+			// SSR tests (Server-side rendering)
+			extends: true,
+			test: {
+				name: 'ssr',
+				environment: 'node',
+				include: ['src/**/*.ssr.{test,spec}.{js,ts}'],
+			},
+		},
+		{
+			// Server-side tests (Node.js utilities)
+			extends: true,
+			test: {
+				name: 'server',
+				environment: 'node',
+				include: ['src/**/*.{test,spec}.{js,ts}'],
+				exclude: [
+					'src/**/*.svelte.{test,spec}.{js,ts}',
+					'src/**/*.ssr.{test,spec}.{js,ts}',
+				],
+			},
+		},
+	],
+},`;
+
+const SETUP_FILE = `/// <reference types="vitest/browser" />
+/// <reference types="@vitest/browser-playwright" />
+`;
+
+const PLAYWRIGHT_IMPORT = `import { playwright } from '@vitest/browser-playwright';`;
+
+export const DEV_DEPENDENCIES: Record<string, string> = {
+	'@vitest/browser': '^4.1.5',
+	'@vitest/browser-playwright': '^4.1.5',
+	playwright: '^1.59.1',
+	vitest: '^4.1.5',
+	'vitest-browser-svelte': '^2.1.1',
+};
+
+export const SCRIPTS: Record<string, string> = {
+	'test:unit': 'vitest',
+	'test:client': 'vitest --project=client',
+	'test:ssr': 'vitest --project=ssr',
+	'test:server': 'vitest --project=server',
+	test: 'npm run test:unit -- --run',
+};
+
+export const VITE_CONFIG_FILES = [
+	'vite.config.ts',
+	'vite.config.mts',
+	'vite.config.js',
+	'vite.config.mjs',
+];
+
+export interface InitPlan {
+	changes: FileChange[];
+	notes: string[];
+	package_manager: string;
+}
+
+interface PackageJson {
+	dependencies?: Record<string, string>;
+	devDependencies?: Record<string, string>;
+	scripts?: Record<string, string>;
+	[key: string]: unknown;
+}
+
+function read_if_exists(path: string): string | null {
+	return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
+
+function detect_indent(text: string): string {
+	const match = text.match(/^([ \t]+)\S/m);
+	return match ? match[1] : '\t';
+}
+
+function reindent(block: string, indent: string): string {
+	return indent === '\t'
+		? block
+		: block.replace(/^\t+/gm, (tabs) => indent.repeat(tabs.length));
+}
+
+export function detect_package_manager(cwd: string): string {
+	if (existsSync(join(cwd, 'pnpm-lock.yaml'))) return 'pnpm';
+	if (existsSync(join(cwd, 'yarn.lock'))) return 'yarn';
+	if (
+		existsSync(join(cwd, 'bun.lockb')) ||
+		existsSync(join(cwd, 'bun.lock'))
+	) {
+		return 'bun';
+	}
+	return 'npm';
+}
+
+function new_vite_config(typescript: boolean): string {
+	const setup_ext = typescript ? 'ts' : 'js';
+	const block = TEST_BLOCK.replace('SETUP_EXT', setup_ext).replace(
+		/^/gm,
+		'\t',
+	);
+	return `import { sveltekit } from '@sveltejs/kit/vite';
+${PLAYWRIGHT_IMPORT}
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+	plugins: [sveltekit()],
+${block}
+});
+`;
+}
+
+/**
+ * Add the test projects to an existing config. Only the common shape
+ * `export default defineConfig({ ... })` is edited; anything else is
+ * left alone and reported so it can be merged by hand.
+ */
+export function merge_vite_config(
+	source: string,
+	setup_ext: string,
+): { after: string | null; note?: string } {
+	if (/\bname:\s*['"]client['"]/.test(source)) {
+		return {
+			after: null,
+			note: 'vite config already defines a client test project',
+		};
+	}
+	if (/^\s*test\s*:/m.test(source)) {
+		return {
+			after: null,
+			note: 'vite config already has a `test` block; merge the client/ssr/server projects by hand (see `sveltest docs getting-started`)',
+		};
+	}
+
+	const closing = source.match(/\n\}\)\s*;?\s*$/);
+	if (!closing || closing.index === undefined) {
+		return {
+			after: null,
+			note: 'could not find the end of `defineConfig({ ... })` in the vite config; add the test projects by hand',
+		};
+	}
+
+	const indent = detect_indent(source);
+	let body = source.slice(0, closing.index).replace(/\s+$/, '');
+	if (!body.endsWith(',') && !body.endsWith('{')) body += ',';
+	const block = reindent(
+		TEST_BLOCK.replace('SETUP_EXT', setup_ext),
+		indent,
+	).replace(/^/gm, indent);
+
+	let after = `${body}\n${block}\n});\n`;
+	after = after.replace(
+		/import\s*\{\s*defineConfig\s*\}\s*from\s*['"]vite['"];?/,
+		`import { defineConfig } from 'vitest/config';`,
+	);
+	if (!after.includes('@vitest/browser-playwright')) {
+		const imports = [...after.matchAll(/^import .*;$/gm)];
+		const last = imports[imports.length - 1];
+		const at = last ? last.index! + last[0].length : 0;
+		after = `${after.slice(0, at)}\n${PLAYWRIGHT_IMPORT}${after.slice(at)}`;
+	}
+	return { after };
+}
+
+export function merge_package_json(source: string): {
+	after: string;
+	added: string[];
+} {
+	const pkg = JSON.parse(source) as PackageJson;
+	const added: string[] = [];
+	const all_deps = { ...pkg.dependencies, ...pkg.devDependencies };
+
+	const dev = { ...pkg.devDependencies };
+	for (const [name, version] of Object.entries(DEV_DEPENDENCIES)) {
+		if (!(name in all_deps)) {
+			dev[name] = version;
+			added.push(name);
+		}
+	}
+	pkg.devDependencies = Object.fromEntries(
+		Object.entries(dev).sort(([a], [b]) => a.localeCompare(b)),
+	);
+
+	const scripts = { ...pkg.scripts };
+	for (const [name, command] of Object.entries(SCRIPTS)) {
+		if (!(name in scripts)) {
+			scripts[name] = command;
+			added.push(`scripts.${name}`);
+		}
+	}
+	pkg.scripts = scripts;
+
+	return {
+		after: `${JSON.stringify(pkg, null, detect_indent(source))}\n`,
+		added,
+	};
+}
+
+/**
+ * Work out every file `sveltest init` would touch in a SvelteKit
+ * project without writing anything.
+ */
+export function plan_init(cwd: string): InitPlan {
+	const package_path = join(cwd, 'package.json');
+	const package_source = read_if_exists(package_path);
+	if (!package_source) {
+		throw new SveltestError(
+			'usage',
+			`No package.json found in ${cwd}`,
+		);
+	}
+
+	const pkg = JSON.parse(package_source) as PackageJson;
+	const all_deps = { ...pkg.dependencies, ...pkg.devDependencies };
+	if (!('@sveltejs/kit' in all_deps)) {
+		throw new SveltestError(
+			'usage',
+			`${cwd} is not a SvelteKit project (no @sveltejs/kit dependency)`,
+		);
+	}
+
+	const changes: FileChange[] = [];
+	const notes: string[] = [];
+	const typescript = existsSync(join(cwd, 'tsconfig.json'));
+	const setup_ext = typescript ? 'ts' : 'js';
+
+	const vite_file = VITE_CONFIG_FILES.find((file) =>
+		existsSync(join(cwd, file)),
+	);
+	if (vite_file) {
+		const path = join(cwd, vite_file);
+		const before = readFileSync(path, 'utf-8');
+		const { after, note } = merge_vite_config(before, setup_ext);
+		if (after) changes.push({ path, before, after });
+		if (note) notes.push(note);
+	} else {
+		changes.push({
+			path: join(
+				cwd,
+				typescript ? 'vite.config.ts' : 'vite.config.js',
+			),
+			before: null,
+			after: new_vite_config(typescript),
+		});
+	}
+
+	const setup_path = join(
+		cwd,
+		'src',
+		`vitest-setup-client.${setup_ext}`,
+	);
+	if (!existsSync(setup_path)) {
+		changes.push({
+			path: setup_path,
+			before: null,
+			after: SETUP_FILE,
+		});
+	}
+
+	const { after, added } = merge_package_json(package_source);
+	if (added.length > 0) {
+		changes.push({
+			path: package_path,
+			before: package_source,
+			after,
+		});
+	}
+
+	return {
+		changes,
+		notes,
+		package_manager: detect_package_manager(cwd),
+	};
+}
@@ -0,0 +1,221 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import { configure_cache } from './cache';
+import { handle_message, SUPPORTED_PROTOCOL_VERSIONS } from './mcp';
+
+const routes: Record<string, unknown> = {
+	'/api/examples': {
+		scenarios: [
+			{
+				endpoint: '/api/examples/button-variants',
+				category: 'Component Testing',
+				description: 'Buttons',
+				patterns: ['Click event handling'],
+				related: [
+					{
+						kind: 'scenario',
+						slug: 'locator-patterns',
+						reason: 'Role queries',
+					},
+				],
+			},
+		],
+	},
+	'/api/examples/button-variants': {
+		title: 'Button Variants',
+		description: 'verbose',
+		variants: [],
+	},
+	'/api/docs': {
+		topics: [
+			{
+				slug: 'troubleshooting',
+				title: 'Troubleshooting',
+				description: 'Common issues and solutions',
+				category: 'Migration & Troubleshooting',
+				has_content: true,
+			},
+		],
+	},
+	'/api/docs/troubleshooting': '# Troubleshooting',
+	'/llms.txt': 'llms summary',
+};
+
+function call(method: string, params?: Record<string, unknown>) {
+	return handle_message({ jsonrpc: '2.0', id: 1, method, params });
+}
+
+describe('MCP server', () => {
+	let cache_home: string;
+	const original_xdg = process.env.XDG_CACHE_HOME;
+
+	beforeEach(() => {
+		cache_home = mkdtempSync(join(tmpdir(), 'sveltest-mcp-'));
+		process.env.XDG_CACHE_HOME = cache_home;
+		configure_cache({ offline: false });
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (url: string) => {
+				const { pathname } = new URL(url);
+				const body = routes[pathname];
+				if (body === undefined) {
+					return new Response('', { status: 404 });
+				}
+				return new Response(
+					typeof body === 'string' ? body : JSON.stringify(body),
+				);
+			}),
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		rmSync(cache_home, { recursive: true, force: true });
+		if (original_xdg === undefined) {
+			delete process.env.XDG_CACHE_HOME;
+		} else {
+			process.env.XDG_CACHE_HOME = original_xdg;
+		}
+	});
+
+	it('negotiates the protocol version on initialize', async () => {
+		const response = await call('initialize', {
+			protocolVersion: '2024-11-05',
+		});
+		expect(response?.result).toMatchObject({
+			protocolVersion: '2024-11-05',
+			capabilities: { tools: {}, resources: {} },
+			serverInfo: { name: 'sveltest' },
+		});
+
+		const fallback = await call('initialize', {
+			protocolVersion: '1999-01-01',
+		});
+		expect(fallback?.result).toMatchObject({
+			protocolVersion: SUPPORTED_PROTOCOL_VERSIONS[0],
+		});
+	});
+
+	it('does not answer notifications', async () => {
+		expect(
+			await handle_message({
+				jsonrpc: '2.0',
+				method: 'notifications/initialized',
+			}),
+		).toBeNull();
+	});
+
+	it.each([null, 1, 'x', [], { id: 2, method: 'tools/list' }])(
+		'rejects %j as an invalid request',
+		async (message) => {
+			expect(await handle_message(message)).toEqual({
+				jsonrpc: '2.0',
+				id: null,
+				error: { code: -32600, message: 'Invalid Request' },
+			});
+		},
+	);
+
+	it('lists the typed tools', async () => {
+		const response = await call('tools/list');
+		const { tools } = response!.result as {
+			tools: { name: string }[];
+		};
+
+		expect(tools.map((t) => t.name)).toEqual([
+			'list_examples',
+			'get_example',
+			'list_docs',
+			'get_doc',
+			'search',
+			'llms',
+		]);
+		expect(tools[1]).toMatchObject({
+			inputSchema: { required: ['name'] },
+		});
+	});
+
+	it('returns compact examples with related patterns', async () => {
+		const response = await call('tools/call', {
+			name: 'get_example',
+			arguments: { name: 'button-variants', compact: true },
+		});
+		const result = response?.result as {
+			content: { text: string }[];
+		};
+		const example = JSON.parse(result.content[0].text);
+
+		expect(example.title).toBe('Button Variants');
+		expect(example.description).toBeUndefined();
+		expect(example._related).toContain('locator-patterns');
+	});
+
+	it('reports fetch failures as tool errors', async () => {
+		const response = await call('tools/call', {
+			name: 'get_doc',
+			arguments: { slug: 'missing' },
+		});
+
+		expect(response?.result).toMatchObject({
+			isError: true,
+			content: [{ text: "Unknown topic 'missing'." }],
+		});
+	});
+
+	it('rejects missing required arguments', async () => {
+		const response = await call('tools/call', {
+			name: 'get_example',
+			arguments: {},
+		});
+		expect(response?.error?.code).toBe(-32602);
+	});
+
+	it('serves llms.txt', async () => {
+		const response = await call('tools/call', {
+			name: 'llms',
+			arguments: {},
+		});
+		expect(response?.result).toMatchObject({
+			content: [{ type: 'text', text: 'llms summary' }],
+		});
+	});
+
+	it('exposes docs topics as resources with stable URIs', async () => {
+		const list = await call('resources/list');
+		expect(list?.result).toEqual({
+			resources: [
+				expect.objectContaining({
+					uri: 'sveltest://docs/troubleshooting',
+					mimeType: 'text/markdown',
+				}),
+			],
+		});
+
+		const read = await call('resources/read', {
+			uri: 'sveltest://docs/troubleshooting',
+		});
+		expect(read?.result).toEqual({
+			contents: [
+				{
+					uri: 'sveltest://docs/troubleshooting',
+					mimeType: 'text/markdown',
+					text: '# Troubleshooting',
+				},
+			],
+		});
+	});
+
+	it('returns method not found for unknown methods', async () => {
+		const response = await call('prompts/list');
+		expect(response?.error?.code).toBe(-32601);
+	});
+});
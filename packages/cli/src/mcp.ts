@@ -0,0 +1,386 @@
+import { createInterface } from 'node:readline';
+import type { SearchFilter } from './client';
+import { scenario_name, type GetExampleOptions } from './examples';
+import { get_cli_version } from './meta';
+import { get_client } from './source';
+
+// Minimal Model Context Protocol server: JSON-RPC 2.0 messages, one
+// per line, over stdin/stdout. Anything written to stdout that is not
+// a protocol message breaks the client, so diagnostics go to stderr.
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+	'2025-06-18',
+	'2025-03-26',
+	'2024-11-05',
+];
+
+export const DOCS_URI_PREFIX = 'sveltest://docs/';
+
+export interface JsonRpcRequest {
+	jsonrpc: '2.0';
+	id?: string | number | null;
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+	jsonrpc: '2.0';
+	id: string | number | null;
+	result?: unknown;
+	error?: { code: number; message: string };
+}
+
+interface ToolDefinition {
+	name: string;
+	description: string;
+	inputSchema: {
+		type: 'object';
+		properties: Record<string, unknown>;
+		required?: string[];
+	};
+	handler: (args: Record<string, unknown>) => Promise<string>;
+}
+
+class InvalidParamsError extends Error {}
+
+function string_arg(
+	args: Record<string, unknown>,
+	name: string,
+	required: true,
+): string;
+function string_arg(
+	args: Record<string, unknown>,
+	name: string,
+	required?: false,
+): string | undefined;
+function string_arg(
+	args: Record<string, unknown>,
+	name: string,
+	required = false,
+): string | undefined {
+	const value = args[name];
+	if (value === undefined && !required) return undefined;
+	if (typeof value !== 'string' || value.length === 0) {
+		throw new InvalidParamsError(
+			`'${name}' must be a non-empty string`,
+		);
+	}
+	return value;
+}
+
+function json_text(data: unknown): string {
+	return JSON.stringify(data, null, 2);
+}
+
+const tools: ToolDefinition[] = [
+	{
+		name: 'list_examples',
+		description:
+			'List the available Svelte testing scenarios with their category and patterns',
+		inputSchema: { type: 'object', properties: {} },
+		async handler() {
+			const data = await get_client().list_examples();
+			return json_text(
+				data.scenarios.map((scenario) => ({
+					name: scenario_name(scenario),
+					category: scenario.category,
+					description: scenario.description,
+					patterns: scenario.patterns,
+				})),
+			);
+		},
+	},
+	{
+		name: 'get_example',
+		description:
+			'Get a testing scenario (e.g. button-variants) as JSON with related scenarios',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				name: {
+					type: 'string',
+					description: 'Scenario name from list_examples',
+				},
+				compact: {
+					type: 'boolean',
+					description: 'Drop verbose metadata (~50% fewer tokens)',
+				},
+				filter: {
+					type: 'string',
+					description: 'Return only this top-level field',
+				},
+				sections: {
+					type: 'array',
+					items: { type: 'string' },
+					description: 'Return only these top-level fields',
+				},
+			},
+			required: ['name'],
+		},
+		async handler(args) {
+			const name = string_arg(args, 'name', true);
+			const options: GetExampleOptions = {
+				compact: args.compact === true,
+				filter: string_arg(args, 'filter'),
+				sections: Array.isArray(args.sections)
+					? args.sections.filter(
+							(s): s is string => typeof s === 'string',
+						)
+					: undefined,
+			};
+			return json_text(await get_client().get_example(name, options));
+		},
+	},
+	{
+		name: 'list_docs',
+		description: 'List documentation topics grouped by category',
+		inputSchema: { type: 'object', properties: {} },
+		async handler() {
+			const data = await get_client().list_docs();
+			return json_text(data.topics);
+		},
+	},
+	{
+		name: 'get_doc',
+		description:
+			'Get a documentation topic (e.g. troubleshooting) as markdown',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				slug: {
+					type: 'string',
+					description: 'Topic slug from list_docs',
+				},
+			},
+			required: ['slug'],
+		},
+		async handler(args) {
+			const slug = string_arg(args, 'slug', true);
+			return get_client().get_doc(slug);
+		},
+	},
+	{
+		name: 'search',
+		description: 'Full-text search across documentation and examples',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				query: {
+					type: 'string',
+					description:
+						'Search query. Supports "exact phrases", -exclusions, OR, and type:, category: and topic: qualifiers, e.g. `"expect.element" -playwright type:example`',
+				},
+				filter: {
+					type: 'string',
+					enum: ['all', 'docs', 'examples', 'components'],
+					description:
+						'Restrict results to one kind of content (same as type: in the query)',
+				},
+			},
+			required: ['query'],
+		},
+		async handler(args) {
+			const response = await get_client().search(
+				string_arg(args, 'query', true),
+				string_arg(args, 'filter') as SearchFilter | undefined,
+			);
+			return json_text(response.results);
+		},
+	},
+	{
+		name: 'llms',
+		description:
+			'Get llms.txt, or the complete llms-full.txt (~130KB) when full is true',
+		inputSchema: {
+			type: 'object',
+			properties: {
+				full: {
+					type: 'boolean',
+					description: 'Fetch the complete documentation',
+				},
+			},
+		},
+		async handler(args) {
+			return get_client().llms({ full: args.full === true });
+		},
+	},
+];
+
+async function list_resources() {
+	const data = await get_client().list_docs();
+	return data.topics
+		.filter((topic) => topic.has_content)
+		.map((topic) => ({
+			uri: `${DOCS_URI_PREFIX}${topic.slug}`,
+			name: topic.slug,
+			title: topic.title,
+			description: topic.description,
+			mimeType: 'text/markdown',
+		}));
+}
+
+async function read_resource(uri: string) {
+	if (!uri.startsWith(DOCS_URI_PREFIX)) {
+		throw new InvalidParamsError(`Unknown resource: ${uri}`);
+	}
+	const slug = uri.slice(DOCS_URI_PREFIX.length);
+	const text = await get_client().get_doc(slug);
+	return { contents: [{ uri, mimeType: 'text/markdown', text }] };
+}
+
+async function dispatch(
+	method: string,
+	params: Record<string, unknown>,
+): Promise<unknown> {
+	switch (method) {
+		case 'initialize': {
+			const requested = params.protocolVersion;
+			return {
+				protocolVersion:
+					typeof requested === 'string' &&
+					SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+						? requested
+						: SUPPORTED_PROTOCOL_VERSIONS[0],
+				capabilities: { tools: {}, resources: {} },
+				serverInfo: { name: 'sveltest', version: get_cli_version() },
+			};
+		}
+		case 'ping':
+			return {};
+		case 'tools/list':
+			return {
+				tools: tools.map(({ name, description, inputSchema }) => ({
+					name,
+					description,
+					inputSchema,
+				})),
+			};
+		case 'tools/call': {
+			const name = typeof params.name === 'string' ? params.name : '';
+			const tool = tools.find((t) => t.name === name);
+			if (!tool) {
+				throw new InvalidParamsError(`Unknown tool: ${name}`);
+			}
+			const args = (params.arguments ?? {}) as Record<
+				string,
+				unknown
+			>;
+			try {
+				const text = await tool.handler(args);
+				return { content: [{ type: 'text', text }] };
+			} catch (error) {
+				if (error instanceof InvalidParamsError) throw error;
+				// Tool failures are results, so the model can see and recover
+				return {
+					content: [{ type: 'text', text: (error as Error).message }],
+					isError: true,
+				};
+			}
+		}
+		case 'resources/list':
+			return { resources: await list_resources() };
+		case 'resources/templates/list':
+			return {
+				resourceTemplates: [
+					{
+						uriTemplate: `${DOCS_URI_PREFIX}{slug}`,
+						name: 'docs',
+						title: 'Sveltest documentation topic',
+						mimeType: 'text/markdown',
+					},
+				],
+			};
+		case 'resources/read':
+			return read_resource(
+				typeof params.uri === 'string' ? params.uri : '',
+			);
+		default:
+			throw Object.assign(new Error(`Method not found: ${method}`), {
+				code: -32601,
+			});
+	}
+}
+
+// Any JSON can arrive on stdin; only request objects are dispatched
+function is_request(message: unknown): message is JsonRpcRequest {
+	if (typeof message !== 'object' || message === null) return false;
+	const { jsonrpc, id, method, params } = message as Record<
+		string,
+		unknown
+	>;
+	return (
+		!Array.isArray(message) &&
+		jsonrpc === '2.0' &&
+		typeof method === 'string' &&
+		(id === undefined ||
+			id === null ||
+			typeof id === 'string' ||
+			typeof id === 'number') &&
+		(params === undefined ||
+			(typeof params === 'object' && params !== null))
+	);
+}
+
+/**
+ * Handle one JSON-RPC message. Notifications (no id) never get a
+ * response, so this resolves to null for them. Anything that is not a
+ * request object gets an Invalid Request error.
+ */
+export async function handle_message(
+	message: unknown,
+): Promise<JsonRpcResponse | null> {
+	if (!is_request(message)) {
+		return {
+			jsonrpc: '2.0',
+			id: null,
+			error: { code: -32600, message: 'Invalid Request' },
+		};
+	}
+	const id = message.id ?? null;
+	const is_notification = message.id === undefined;
+
+	try {
+		const result = await dispatch(
+			message.method,
+			message.params ?? {},
+		);
+		return is_notification ? null : { jsonrpc: '2.0', id, result };
+	} catch (error) {
+		if (is_notification) return null;
+		const code =
+			error instanceof InvalidParamsError
+				? -32602
+				: ((error as { code?: number }).code ?? -32603);
+		return {
+			jsonrpc: '2.0',
+			id,
+			error: { code, message: (error as Error).message },
+		};
+	}
+}
+
+export function start_mcp_server() {
+	const rl = createInterface({ input: process.stdin });
+	const send = (response: JsonRpcResponse) => {
+		process.stdout.write(`${JSON.stringify(response)}\n`);
+	};
+
+	rl.on('line', async (line) => {
+		if (!line.trim()) return;
+		let message: unknown;
+		try {
+			message = JSON.parse(line);
+		} catch {
+			send({
+				jsonrpc: '2.0',
+				id: null,
+				error: { code: -32700, message: 'Parse error' },
+			});
+			return;
+		}
+		const response = await handle_message(message);
+		if (response) send(response);
+	});
+
+	console.error(`sveltest MCP server ${get_cli_version()} on stdio`);
+}
@@ -0,0 +1,36 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { get_site_base } from './config';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const CONTEXT_HEADER = `# Context: Svelte 5 Testing with vitest-browser-svelte
+# Key: Use page.getByRole() locators, never container queries
+# Key: Use untrack() for $derived values in tests
+---
+`;
+
+export function get_cli_version() {
+	try {
+		const pkg_path = join(__dirname, '..', 'package.json');
+		const pkg = JSON.parse(readFileSync(pkg_path, 'utf-8'));
+		return pkg.version;
+	} catch {
+		return 'unknown';
+	}
+}
+
+export function add_metadata(
+	data: Record<string, unknown>,
+): Record<string, unknown> {
+	return {
+		...data,
+		_meta: {
+			cli_version: get_cli_version(),
+			timestamp: new Date().toISOString(),
+			source: get_site_base(),
+		},
+	};
+}
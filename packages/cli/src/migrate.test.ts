@@ -0,0 +1,169 @@
+import {
+	mkdirSync,
+	mkdtempSync,
+	rmSync,
+	writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { migrate_source, plan_migrate } from './migrate';
+
+const TESTING_LIBRARY_TEST = `import { render, screen, fireEvent, waitFor } from '@testing-library/svelte';
+import userEvent from '@testing-library/user-event';
+import '@testing-library/jest-dom';
+import { expect, test, vi } from 'vitest';
+import LoginForm from './login-form.svelte';
+
+test('renders', () => {
+	render(LoginForm);
+	const button = screen.getByRole('button', { name: 'Login' });
+	expect(button).toBeInTheDocument();
+	expect(button).not.toHaveClass('loading');
+	expect(1 + 1).toBe(2);
+});
+
+test('submits', async () => {
+	const user = userEvent.setup();
+	const onsubmit = vi.fn();
+	render(LoginForm, { onsubmit });
+
+	await user.type(screen.getByLabelText('Email'), 'a@b.co');
+	await fireEvent.change(screen.getByLabelText('Name'), {
+		target: { value: 'Ada' },
+	});
+	await fireEvent.click(screen.getByRole('button'));
+	await waitFor(() => {
+		expect(screen.getByText('Welcome!')).toBeInTheDocument();
+	});
+});
+`;
+
+describe('migrate_source', () => {
+	const { after, issues } = migrate_source(TESTING_LIBRARY_TEST);
+
+	it('rewrites the imports', () => {
+		expect(after).toContain(
+			"import { render } from 'vitest-browser-svelte';\nimport { page } from 'vitest/browser';\n",
+		);
+		expect(after).not.toContain('@testing-library');
+	});
+
+	it('renders with await inside async tests', () => {
+		expect(after).toContain(
+			"test('renders', async () => {\n\tawait render(LoginForm);",
+		);
+		expect(after).toContain('await render(LoginForm, { onsubmit });');
+	});
+
+	it('turns screen queries into page locators', () => {
+		expect(after).toContain(
+			"const button = page.getByRole('button', { name: 'Login' });",
+		);
+		expect(after).not.toContain('screen.');
+	});
+
+	it('uses expect.element for DOM matchers only', () => {
+		expect(after).toContain(
+			'await expect.element(button).toBeInTheDocument();',
+		);
+		expect(after).toContain(
+			"await expect.element(button).not.toHaveClass('loading');",
+		);
+		expect(after).toContain('expect(1 + 1).toBe(2);');
+	});
+
+	it('replaces events with locator actions', () => {
+		expect(after).not.toContain('userEvent.setup');
+		expect(after).toContain(
+			"await page.getByLabelText('Email').fill('a@b.co');",
+		);
+		expect(after).toContain(
+			"await page.getByLabelText('Name').fill('Ada');",
+		);
+		expect(after).toContain(
+			"await page.getByRole('button').click();",
+		);
+	});
+
+	it('awaits actions that were not awaited before', () => {
+		const result = migrate_source(
+			[
+				"import { render, screen, fireEvent } from '@testing-library/svelte';",
+				"test('clicks', async () => {",
+				'\trender(Button, { onclick });',
+				"\tfireEvent.click(screen.getByRole('button'));",
+				'\texpect(onclick).toHaveBeenCalled();',
+				'});',
+			].join('\n'),
+		);
+
+		expect(result.after).toContain(
+			"\tawait page.getByRole('button').click();\n",
+		);
+		expect(result.after).not.toContain('await await');
+	});
+
+	it('unwraps single-assertion waitFor calls', () => {
+		expect(after).toContain(
+			"await expect.element(page.getByText('Welcome!')).toBeInTheDocument();",
+		);
+		expect(after).not.toContain('waitFor');
+		expect(issues).toEqual([]);
+	});
+
+	it('reports what it could not convert', () => {
+		const result = migrate_source(
+			[
+				"import { render, within } from '@testing-library/svelte';",
+				"test('x', async () => {",
+				'\tconst { container } = render(Form);',
+				'\tawait fireEvent.scroll(window);',
+				"\twithin(container).getByText('a');",
+				'});',
+			].join('\n'),
+		);
+
+		expect(result.issues.map((issue) => issue.line)).toEqual([
+			2, 4, 5, 6,
+		]);
+		expect(result.issues[2].message).toContain('fireEvent');
+	});
+});
+
+describe('plan_migrate', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = mkdtempSync(join(tmpdir(), 'sveltest-migrate-'));
+		mkdirSync(join(dir, 'lib'));
+		writeFileSync(
+			join(dir, 'lib', 'login-form.test.ts'),
+			TESTING_LIBRARY_TEST,
+		);
+		writeFileSync(
+			join(dir, 'lib', 'utils.test.ts'),
+			"import { expect, test } from 'vitest';\n",
+		);
+	});
+
+	afterEach(() => {
+		rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('only touches files that use @testing-library/svelte', () => {
+		const plan = plan_migrate([dir]);
+
+		expect(plan.changes.map((c) => c.path)).toEqual([
+			join(dir, 'lib', 'login-form.test.ts'),
+		]);
+	});
+
+	it('asks for a .svelte.test.ts rename', () => {
+		const plan = plan_migrate([dir]);
+
+		expect(plan.reports[0].issues[0].message).toContain(
+			'*.svelte.test.ts',
+		);
+	});
+});
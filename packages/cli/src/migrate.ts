@@ -0,0 +1,446 @@
+import {
+	existsSync,
+	readdirSync,
+	readFileSync,
+	statSync,
+} from 'node:fs';
+import { basename, join } from 'node:path';
+import type { FileChange } from './diff';
+import { SveltestError } from './errors';
+
+// Rewrites follow the tables in apps/website/src/copy/migration-guide.md
+
+export interface MigrationIssue {
+	line: number;
+	code: string;
+	message: string;
+}
+
+export interface MigrationResult {
+	after: string;
+	issues: MigrationIssue[];
+}
+
+export interface MigrationPlan {
+	changes: FileChange[];
+	reports: { path: string; issues: MigrationIssue[] }[];
+}
+
+// Matchers that need `expect.element()` to retry against a locator
+const DOM_MATCHERS = [
+	'toBeInTheDocument',
+	'toBeVisible',
+	'toBeEnabled',
+	'toBeDisabled',
+	'toBeChecked',
+	'toBeRequired',
+	'toBeValid',
+	'toBeInvalid',
+	'toBeEmptyDOMElement',
+	'toHaveFocus',
+	'toHaveClass',
+	'toHaveTextContent',
+	'toHaveAttribute',
+	'toHaveValue',
+	'toHaveDisplayValue',
+	'toHaveStyle',
+	'toHaveAccessibleName',
+	'toHaveAccessibleDescription',
+	'toContainElement',
+	'toContainHTML',
+];
+
+const QUERIES = [
+	'Role',
+	'Text',
+	'TestId',
+	'LabelText',
+	'PlaceholderText',
+	'AltText',
+	'Title',
+];
+
+// Leftovers worth pointing out, checked against the rewritten source
+const UNCONVERTED: [RegExp, string][] = [
+	[
+		/\bwaitFor\(/,
+		'waitFor is not needed: `await expect.element()` retries until it passes',
+	],
+	[/\bwithin\(/, 'replace within() with a chained locator'],
+	[
+		/\bcontainer\b/,
+		'container queries do not retry; use page.getBy* locators',
+	],
+	[/\bact\(/, 'act() is not needed with vitest-browser-svelte'],
+	[/\bscreen\./, 'no page.* equivalent for this screen query'],
+	[/\bfireEvent\./, 'no locator action for this fireEvent call'],
+	[/\buser\.\w+\(/, 'no locator action for this user-event call'],
+	[
+		/@testing-library\//,
+		'import from @testing-library is still used',
+	],
+];
+
+function skip_string(source: string, start: number): number {
+	const quote = source[start];
+	let i = start + 1;
+	while (i < source.length && source[i] !== quote) {
+		if (source[i] === '\\') i++;
+		i++;
+	}
+	return i;
+}
+
+// Read the arguments of the call whose `(` is at `open`
+function read_call(
+	source: string,
+	open: number,
+): { args: string[]; end: number } | null {
+	const args: string[] = [];
+	let depth = 0;
+	let start = open + 1;
+	for (let i = open; i < source.length; i++) {
+		const char = source[i];
+		if (char === "'" || char === '"' || char === '`') {
+			i = skip_string(source, i);
+		} else if ('([{'.includes(char)) {
+			depth++;
+		} else if (')]}'.includes(char)) {
+			depth--;
+			if (depth === 0) {
+				const last = source.slice(start, i).trim();
+				if (last) args.push(last);
+				return { args, end: i + 1 };
+			}
+		} else if (char === ',' && depth === 1) {
+			args.push(source.slice(start, i).trim());
+			start = i + 1;
+		}
+	}
+	return null;
+}
+
+/**
+ * Replace every call matched by `pattern` (which must end at the
+ * opening paren) with the result of `replace`. Returning null leaves
+ * the call untouched.
+ */
+function rewrite_calls(
+	source: string,
+	pattern: RegExp,
+	replace: (
+		match: RegExpExecArray,
+		args: string[],
+		end: number,
+	) => string | null,
+): string {
+	const regex = new RegExp(pattern.source, 'g');
+	let output = '';
+	let cursor = 0;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(source))) {
+		const call = read_call(source, match.index + match[0].length - 1);
+		if (!call) break;
+		const replacement = replace(match, call.args, call.end);
+		if (replacement === null) continue;
+		output += source.slice(cursor, match.index) + replacement;
+		cursor = call.end;
+		regex.lastIndex = call.end;
+	}
+	return output + source.slice(cursor);
+}
+
+function target_value(options: string | undefined): string | null {
+	return options?.match(/value\s*:\s*([^,}]+?)\s*\}/)?.[1] ?? null;
+}
+
+function key_name(options: string | undefined): string | null {
+	return options?.match(/key\s*:\s*['"]([^'"]+)['"]/)?.[1] ?? null;
+}
+
+function rewrite_fire_event(event: string, args: string[]) {
+	const [target, options] = args;
+	switch (event) {
+		case 'click':
+		case 'dblClick':
+		case 'tripleClick':
+			return `await ${target}.${event}()`;
+		case 'mouseOver':
+		case 'mouseEnter':
+		case 'pointerEnter':
+			return `await ${target}.hover()`;
+		case 'mouseLeave':
+		case 'mouseOut':
+			return `await ${target}.unhover()`;
+		case 'focus':
+		case 'blur':
+			return `${target}.element().${event}()`;
+		case 'input':
+		case 'change': {
+			const value = target_value(options);
+			return value ? `await ${target}.fill(${value})` : null;
+		}
+		case 'keyDown':
+		case 'keyPress':
+		case 'keyUp': {
+			const key = key_name(options);
+			return key ? `await userEvent.keyboard('{${key}}')` : null;
+		}
+		default:
+			return null;
+	}
+}
+
+function rewrite_user_event(method: string, args: string[]) {
+	const [target, value] = args;
+	switch (method) {
+		case 'click':
+		case 'dblClick':
+		case 'tripleClick':
+		case 'hover':
+		case 'unhover':
+		case 'clear':
+			return target ? `await ${target}.${method}()` : null;
+		case 'type':
+			return target && value
+				? `await ${target}.fill(${value})`
+				: null;
+		case 'selectOptions':
+			return target && value
+				? `await ${target}.selectOptions(${value})`
+				: null;
+		default:
+			return null;
+	}
+}
+
+function rewrite_expect(source: string): string {
+	const matchers = DOM_MATCHERS.join('|');
+	return rewrite_calls(
+		source,
+		/(await\s+)?\bexpect\(/,
+		(_, args, end) => {
+			if (args.length !== 1) return null;
+			const chained = source.slice(end);
+			if (
+				!new RegExp(`^(\\.not)?\\.(${matchers})\\(`).test(chained)
+			) {
+				return null;
+			}
+			return `await expect.element(${args[0]})`;
+		},
+	);
+}
+
+// `await waitFor(() => expect(...))` with a single assertion is what
+// expect.element already does, so the wrapper can go
+function unwrap_wait_for(source: string): string {
+	return rewrite_calls(
+		source,
+		/(await\s+)?\bwaitFor\(/,
+		(_, args) => {
+			if (args.length !== 1) return null;
+			const body = args[0]
+				.match(/^\(\)\s*=>\s*(?:\{([\s\S]*)\}|(expect[\s\S]*))$/)
+				?.slice(1)
+				.find(Boolean)
+				?.trim()
+				.replace(/;$/, '');
+			if (
+				!body ||
+				body.includes(';') ||
+				!body.startsWith('expect(')
+			) {
+				return null;
+			}
+			return body;
+		},
+	);
+}
+
+function rewrite_imports(source: string): string {
+	let after = source;
+	const uses = (name: string) =>
+		new RegExp(`\\b${name}\\b`).test(
+			after.replace(/^import .*$/gm, ''),
+		);
+
+	after = after.replace(
+		/^import\s*\{([^}]*)\}\s*from\s*['"]@testing-library\/svelte['"];?[ \t]*\n/m,
+		(_, names: string) => {
+			const remaining = names
+				.split(',')
+				.map((name) => name.trim())
+				.filter(
+					(name) =>
+						name &&
+						!['render', 'screen', 'fireEvent'].includes(name) &&
+						uses(name),
+				);
+			const lines = [
+				`import { render } from 'vitest-browser-svelte';\n`,
+			];
+			if (remaining.length > 0) {
+				lines.push(
+					`import { ${remaining.join(', ')} } from '@testing-library/svelte';\n`,
+				);
+			}
+			return lines.join('');
+		},
+	);
+	after = after.replace(
+		/^import\s+(\w+|\{[^}]*\})\s+from\s*['"]@testing-library\/user-event['"];?[ \t]*\n/m,
+		'',
+	);
+	after = after.replace(
+		/^import\s*['"]@testing-library\/jest-dom(\/vitest)?['"];?[ \t]*\n/m,
+		'',
+	);
+
+	const browser_imports = ['page', 'userEvent'].filter(uses);
+	if (
+		browser_imports.length > 0 &&
+		!after.includes("'vitest/browser'")
+	) {
+		after = after.replace(
+			/^import \{ render \} from 'vitest-browser-svelte';\n/m,
+			(line) =>
+				`${line}import { ${browser_imports.join(', ')} } from 'vitest/browser';\n`,
+		);
+	}
+	return after;
+}
+
+// Make test callbacks async once they contain an await
+function make_callbacks_async(source: string): string {
+	return rewrite_calls(
+		source,
+		/\b(?:it|test|beforeEach|afterEach|beforeAll|afterAll)(?:\.\w+)*\(/,
+		(match, args, end) => {
+			const callback = args.find((arg) =>
+				/^\(\)\s*=>\s*\{/.test(arg),
+			);
+			if (!callback || !/\bawait\b/.test(callback)) return null;
+			// Keep the original layout; only the arrow changes
+			return source
+				.slice(match.index, end)
+				.replace(callback, `async ${callback}`);
+		},
+	);
+}
+
+/**
+ * Rewrite one test file from @testing-library/svelte to
+ * vitest-browser-svelte. Anything without a safe mechanical equivalent
+ * is left as it was and listed in `issues`.
+ */
+export function migrate_source(source: string): MigrationResult {
+	let after = source;
+
+	// `const user = userEvent.setup()` goes; its calls become actions
+	const setup = after.match(
+		/^[ \t]*const\s+(\w+)\s*=\s*userEvent\.setup\([^)]*\);?[ \t]*\n/m,
+	);
+	if (setup) after = after.replace(setup[0], '');
+	const user_names = ['userEvent', ...(setup ? [setup[1]] : [])];
+	after = rewrite_calls(
+		after,
+		new RegExp(`\\b(${user_names.join('|')})\\.(\\w+)\\(`),
+		(match, args) => {
+			const converted = rewrite_user_event(match[2], args);
+			if (converted) return converted;
+			// Leftover calls still work through vitest/browser's userEvent
+			return match[1] === 'userEvent'
+				? null
+				: `await userEvent.${match[2]}(${args.join(', ')})`;
+		},
+	);
+
+	after = after.replace(
+		new RegExp(
+			`\\bscreen\\.(?:get|query|find)By(${QUERIES.join('|')})\\(`,
+			'g',
+		),
+		'page.getBy$1(',
+	);
+	after = rewrite_calls(
+		after,
+		/\bfireEvent\.(\w+)\(/,
+		(match, args) => rewrite_fire_event(match[1], args),
+	);
+	after = after.replace(
+		/(^|[^\w.])(?<!await\s)(render\()/gm,
+		'$1await $2',
+	);
+	after = unwrap_wait_for(after);
+	after = rewrite_expect(after);
+	// Actions are always awaited, since locator actions are async;
+	// ones that already were would otherwise be awaited twice
+	after = after.replace(/\bawait\s+await\b/g, 'await');
+	after = rewrite_imports(after);
+	after = make_callbacks_async(after);
+
+	const issues: MigrationIssue[] = [];
+	after.split('\n').forEach((code, index) => {
+		for (const [pattern, message] of UNCONVERTED) {
+			if (pattern.test(code)) {
+				issues.push({ line: index + 1, code: code.trim(), message });
+				break;
+			}
+		}
+	});
+
+	return { after, issues };
+}
+
+export function find_test_files(path: string): string[] {
+	if (!statSync(path).isDirectory()) return [path];
+	return readdirSync(path, { withFileTypes: true }).flatMap(
+		(entry) => {
+			if (
+				entry.name === 'node_modules' ||
+				entry.name.startsWith('.')
+			) {
+				return [];
+			}
+			const full = join(path, entry.name);
+			if (entry.isDirectory()) return find_test_files(full);
+			return /\.(test|spec)\.[cm]?[jt]s$/.test(entry.name)
+				? [full]
+				: [];
+		},
+	);
+}
+
+/**
+ * Work out the rewrites for every test file under `paths` that imports
+ * @testing-library/svelte, without writing anything.
+ */
+export function plan_migrate(paths: string[]): MigrationPlan {
+	const plan: MigrationPlan = { changes: [], reports: [] };
+	for (const path of paths) {
+		if (!existsSync(path)) {
+			throw new SveltestError('usage', `Not found: ${path}`);
+		}
+		for (const file of find_test_files(path)) {
+			const before = readFileSync(file, 'utf-8');
+			if (!before.includes('@testing-library/svelte')) continue;
+
+			const { after, issues } = migrate_source(before);
+			if (after !== before) {
+				plan.changes.push({ path: file, before, after });
+			}
+			if (!/\.svelte\.(test|spec)\./.test(basename(file))) {
+				issues.unshift({
+					line: 1,
+					code: basename(file),
+					message:
+						'rename to *.svelte.test.ts so the browser (client) project runs it',
+				});
+			}
+			if (issues.length > 0)
+				plan.reports.push({ path: file, issues });
+		}
+	}
+	return plan;
+}
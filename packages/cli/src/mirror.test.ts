@@ -0,0 +1,167 @@
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import { configure_bundle, get_bundle_dir } from './bundle';
+import { configure_cache, write_cache_entry } from './cache';
+import { fetch_json, fetch_text } from './fetch';
+import { create_mirror } from './mirror';
+
+const SITE = 'https://sveltest.dev';
+
+const routes: Record<string, unknown> = {
+	'/api/examples': {
+		scenarios: [{ endpoint: '/api/examples/button-variants' }],
+	},
+	'/api/examples/button-variants': { title: 'Button Variants' },
+	'/api/docs': {
+		topics: [
+			{ slug: 'ci-cd', has_content: true },
+			{ slug: 'missing', has_content: false },
+		],
+	},
+	'/api/docs/ci-cd': '# CI/CD',
+	'/api/docs/ci-cd?format=json': { slug: 'ci-cd' },
+	'/llms.txt': 'llms',
+	'/llms-full.txt': 'llms full',
+	'/search-index.json': { items: [], total_items: 0 },
+};
+
+describe('create_mirror', () => {
+	let root: string;
+	const original_xdg = process.env.XDG_CACHE_HOME;
+
+	beforeEach(() => {
+		root = mkdtempSync(join(tmpdir(), 'sveltest-mirror-'));
+		process.env.XDG_CACHE_HOME = join(root, 'cache');
+		configure_cache({ offline: false });
+		configure_bundle(null);
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		vi.stubGlobal(
+			'fetch',
+			vi.fn(async (url: string) => {
+				const { pathname, search } = new URL(url);
+				const body = routes[pathname + search];
+				if (body === undefined) {
+					return new Response('', { status: 404 });
+				}
+				return new Response(
+					typeof body === 'string' ? body : JSON.stringify(body),
+				);
+			}),
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		configure_bundle(null);
+		rmSync(root, { recursive: true, force: true });
+		if (original_xdg === undefined) {
+			delete process.env.XDG_CACHE_HOME;
+		} else {
+			process.env.XDG_CACHE_HOME = original_xdg;
+		}
+	});
+
+	it('writes a snapshot that --bundle can serve', async () => {
+		const out = join(root, 'snapshot');
+		const result = await create_mirror({
+			out,
+			api_base: `${SITE}/api`,
+			site_base: SITE,
+			cli_version: '0.0.8',
+		});
+
+		expect(result.manifest.scenarios).toEqual(['button-variants']);
+		expect(result.manifest.topics).toEqual(['ci-cd']);
+		expect(result.files).toBe(9);
+
+		vi.unstubAllGlobals();
+		configure_bundle(out);
+
+		expect(get_bundle_dir()).toBe(out);
+		expect(
+			await fetch_json(`${SITE}/api/examples/button-variants`),
+		).toEqual({ title: 'Button Variants' });
+		expect(await fetch_text(`${SITE}/api/docs/ci-cd`)).toBe(
+			'# CI/CD',
+		);
+		expect(await fetch_text(`${SITE}/llms-full.txt`)).toBe(
+			'llms full',
+		);
+	});
+
+	it('packs the snapshot when archive is set', async () => {
+		const out = join(root, 'snapshot');
+		const result = await create_mirror({
+			out,
+			archive: true,
+			api_base: `${SITE}/api`,
+			site_base: SITE,
+			cli_version: '0.0.8',
+		});
+
+		expect(result.archive).toBe(`${out}.tar.gz`);
+		expect(existsSync(result.archive!)).toBe(true);
+
+		rmSync(out, { recursive: true });
+		configure_bundle(result.archive!);
+		expect(await fetch_text(`${SITE}/llms.txt`)).toBe('llms');
+	});
+
+	it('snapshots the site rather than the cache', async () => {
+		write_cache_entry({
+			url: `${SITE}/llms.txt`,
+			etag: null,
+			fetched_at: Date.now(),
+			body: 'cached llms',
+		});
+		const out = join(root, 'snapshot');
+		await create_mirror({
+			out,
+			api_base: `${SITE}/api`,
+			site_base: SITE,
+			cli_version: '0.0.8',
+		});
+
+		vi.unstubAllGlobals();
+		configure_bundle(out);
+		expect(await fetch_text(`${SITE}/llms.txt`)).toBe('llms');
+	});
+
+	it('refuses to mirror in offline mode', async () => {
+		configure_cache({ offline: true });
+
+		await expect(
+			create_mirror({
+				out: join(root, 'snapshot'),
+				api_base: `${SITE}/api`,
+				site_base: SITE,
+				cli_version: '0.0.8',
+			}),
+		).rejects.toThrow('offline mode');
+	});
+
+	it('refuses to overwrite an existing bundle', async () => {
+		const out = join(root, 'snapshot');
+		const options = {
+			out,
+			api_base: `${SITE}/api`,
+			site_base: SITE,
+			cli_version: '0.0.8',
+		};
+		await create_mirror(options);
+
+		await expect(create_mirror(options)).rejects.toThrow(
+			'already contains a bundle',
+		);
+	});
+});
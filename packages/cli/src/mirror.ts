@@ -0,0 +1,120 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import {
+	BUNDLE_FORMAT_VERSION,
+	bundle_path_for,
+	type BundleManifest,
+} from './bundle';
+import { SveltestError } from './errors';
+import { scenario_name } from './examples';
+import { fetch_text } from './fetch';
+import type { DocsIndexResponse, ExamplesResponse } from './types';
+
+export interface MirrorOptions {
+	out?: string;
+	archive?: boolean;
+	api_base: string;
+	site_base: string;
+	cli_version: string;
+}
+
+export interface MirrorResult {
+	dir: string;
+	archive: string | null;
+	manifest: BundleManifest;
+	files: number;
+}
+
+function default_out_dir(): string {
+	const date = new Date().toISOString().slice(0, 10);
+	return `sveltest-snapshot-${date}`;
+}
+
+/**
+ * Download every scenario, docs topic, llms file and the search index
+ * into a snapshot directory laid out by `bundle_path_for`, so the
+ * same mapping can serve it back with `--bundle`.
+ */
+export async function create_mirror(
+	options: MirrorOptions,
+): Promise<MirrorResult> {
+	const dir = resolve(options.out ?? default_out_dir());
+	if (existsSync(join(dir, 'manifest.json'))) {
+		throw new SveltestError(
+			'usage',
+			`${dir} already contains a bundle`,
+		);
+	}
+
+	let files = 0;
+	const save = async (url: string) => {
+		// A mirror is a snapshot of the site as it is now, not of
+		// whatever the cache last saw
+		const text = await fetch_text(url, { revalidate: true });
+		const relative = bundle_path_for(url, options.site_base);
+		const path = join(dir, relative);
+		mkdirSync(dirname(path), { recursive: true });
+		writeFileSync(path, text);
+		files++;
+		console.error(`  ${relative}`);
+		return text;
+	};
+
+	console.error(`Mirroring ${options.site_base} into ${dir}\n`);
+
+	const examples = JSON.parse(
+		await save(`${options.api_base}/examples`),
+	) as ExamplesResponse;
+	const scenarios = examples.scenarios.map(scenario_name);
+	for (const scenario of scenarios) {
+		await save(`${options.api_base}/examples/${scenario}`);
+	}
+
+	const docs = JSON.parse(
+		await save(`${options.api_base}/docs`),
+	) as DocsIndexResponse;
+	const topics = docs.topics
+		.filter((t) => t.has_content)
+		.map((t) => t.slug);
+	for (const topic of topics) {
+		await save(`${options.api_base}/docs/${topic}`);
+		await save(`${options.api_base}/docs/${topic}?format=json`);
+	}
+
+	await save(`${options.site_base}/llms.txt`);
+	await save(`${options.site_base}/llms-full.txt`);
+	await save(`${options.site_base}/search-index.json`);
+
+	const manifest: BundleManifest = {
+		format_version: BUNDLE_FORMAT_VERSION,
+		source: options.site_base,
+		cli_version: options.cli_version,
+		created_at: new Date().toISOString(),
+		scenarios,
+		topics,
+	};
+	writeFileSync(
+		join(dir, 'manifest.json'),
+		JSON.stringify(manifest, null, 2),
+	);
+
+	let archive: string | null = null;
+	if (options.archive) {
+		archive = `${dir}.tar.gz`;
+		const result = spawnSync('tar', [
+			'-czf',
+			archive,
+			'-C',
+			dirname(dir),
+			basename(dir),
+		]);
+		if (result.status !== 0) {
+			throw new Error(
+				`Could not create ${archive}: ${result.stderr?.toString().trim() || 'tar failed'}`,
+			);
+		}
+	}
+
+	return { dir, archive, manifest, files: files + 1 };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { is_not_found } from './errors';
+import { parse_headings, select_section, slugify } from './outline';
+
+const doc = [
+	'# Troubleshooting',
+	'',
+	'Intro.',
+	'',
+	'## Common Errors & Solutions',
+	'',
+	'### `lifecycle_outside_component`',
+	'',
+	'```md',
+	'# not a heading',
+	'```',
+	'',
+	'### Test Hangs or Timeouts',
+	'',
+	'Raise the timeout.',
+	'',
+	'## Debugging Flaky Tests',
+	'',
+	'Retry less.',
+	'',
+	'## Debugging Flaky Tests',
+	'',
+].join('\n');
+
+describe('slugify', () => {
+	it('matches the anchors rehype-slug generates', () => {
+		expect(slugify('Common Errors & Solutions')).toBe(
+			'common-errors--solutions',
+		);
+		expect(slugify('"Expected 2 arguments, but got 0"')).toBe(
+			'expected-2-arguments-but-got-0',
+		);
+		expect(slugify('`lifecycle_outside_component`')).toBe(
+			'lifecycle_outside_component',
+		);
+		expect(slugify('See [the guide](/docs/x)')).toBe('see-the-guide');
+	});
+});
+
+describe('parse_headings', () => {
+	it('skips code fences and numbers repeated anchors', () => {
+		expect(
+			parse_headings(doc).map(
+				({ level, slug }) => `${level} ${slug}`,
+			),
+		).toEqual([
+			'1 troubleshooting',
+			'2 common-errors--solutions',
+			'3 lifecycle_outside_component',
+			'3 test-hangs-or-timeouts',
+			'2 debugging-flaky-tests',
+			'2 debugging-flaky-tests-1',
+		]);
+	});
+});
+
+describe('select_section', () => {
+	it('returns a heading with its subsections', () => {
+		const { heading, text } = select_section(
+			doc,
+			'common-errors--solutions',
+			'troubleshooting',
+		);
+
+		expect(heading.title).toBe('Common Errors & Solutions');
+		expect(text).toMatch(/^## Common Errors & Solutions\n/);
+		expect(text).toContain('Raise the timeout.');
+		expect(text).not.toContain('Flaky');
+	});
+
+	it('accepts anchors, titles and words of a title', () => {
+		for (const query of ['#test-hangs-or-timeouts', 'Timeouts']) {
+			expect(select_section(doc, query, 'troubleshooting').text).toBe(
+				'### Test Hangs or Timeouts\n\nRaise the timeout.\n',
+			);
+		}
+	});
+
+	it('throws not_found with suggestions for unknown sections', () => {
+		try {
+			select_section(doc, 'test-hang-or-timeout', 'troubleshooting');
+			expect.unreachable();
+		} catch (error) {
+			expect(is_not_found(error)).toBe(true);
+			expect((error as Error).message).toBe(
+				"Unknown section 'test-hang-or-timeout' in 'troubleshooting'. Did you mean 'test-hangs-or-timeouts'?",
+			);
+		}
+	});
+});
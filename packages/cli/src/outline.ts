@@ -0,0 +1,102 @@
+import { SveltestError } from './errors';
+import { did_you_mean, match_name } from './suggest';
+
+export interface Heading {
+	level: number;
+	title: string;
+	// The anchor the website gives this heading
+	slug: string;
+	// Line index of the heading within the document
+	line: number;
+}
+
+// Headings keep their inline markdown in the source; the anchor is
+// built from the rendered text
+function plain_text(markdown: string): string {
+	return markdown
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[`*]|(?<!\w)_|_(?!\w)/g, '')
+		.trim();
+}
+
+/**
+ * The anchor rehype-slug (github-slugger) gives a heading: lower case,
+ * punctuation removed, spaces turned into dashes.
+ */
+export function slugify(text: string): string {
+	return plain_text(text)
+		.toLowerCase()
+		.replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+		.replace(/ /g, '-');
+}
+
+export function parse_headings(markdown: string): Heading[] {
+	const headings: Heading[] = [];
+	const seen = new Map<string, number>();
+	let fence: string | null = null;
+
+	markdown.split('\n').forEach((line, index) => {
+		const trimmed = line.trim();
+		if (fence) {
+			if (trimmed.startsWith(fence)) fence = null;
+			return;
+		}
+		const fence_open = trimmed.match(/^(`{3,}|~{3,})/);
+		if (fence_open) {
+			fence = fence_open[1];
+			return;
+		}
+		const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (!heading) return;
+
+		const title = plain_text(heading[2]);
+		// Repeated headings get -1, -2... like on the site
+		const base = slugify(heading[2]);
+		const count = seen.get(base) ?? 0;
+		seen.set(base, count + 1);
+		headings.push({
+			level: heading[1].length,
+			title,
+			slug: count === 0 ? base : `${base}-${count}`,
+			line: index,
+		});
+	});
+	return headings;
+}
+
+/**
+ * Resolve `query` to a heading of `markdown` by anchor, title or a
+ * close match, and return that heading with everything nested under
+ * it. Throws a not_found error with suggestions otherwise.
+ */
+export function select_section(
+	markdown: string,
+	query: string,
+	topic: string,
+): { heading: Heading; text: string } {
+	const headings = parse_headings(markdown);
+	const slugs = headings.map((heading) => heading.slug);
+	const { match, suggestions } = match_name(
+		slugify(query.replace(/^#/, '')),
+		slugs,
+	);
+	const heading = headings.find(({ slug }) => slug === match);
+	if (!heading) {
+		throw new SveltestError(
+			'not_found',
+			`Unknown section '${query}' in '${topic}'.${did_you_mean(suggestions)}`,
+			{ suggestions },
+		);
+	}
+
+	const next = headings.find(
+		(other) =>
+			other.line > heading.line && other.level <= heading.level,
+	);
+	const lines = markdown.split('\n');
+	const text = lines.slice(heading.line, next?.line).join('\n');
+	return {
+		heading,
+		text: next ? `${text.trimEnd()}\n` : text,
+	};
+}
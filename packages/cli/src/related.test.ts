@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { graph_nodes, walk_related } from './related';
+import type { RelatedLink, ScenarioMeta } from './types';
+
+function scenario(
+	name: string,
+	related: RelatedLink[],
+): ScenarioMeta {
+	return {
+		endpoint: `/api/examples/${name}`,
+		method: 'GET',
+		category: 'Component Testing',
+		description: name,
+		patterns: [],
+		example_test_file: '',
+		related,
+	};
+}
+
+const catalog = [
+	scenario('button-variants', [
+		{
+			kind: 'scenario',
+			slug: 'modal-states',
+			reason: 'Opens modals',
+		},
+		{
+			kind: 'topic',
+			slug: 'component-testing',
+			reason: 'Components',
+		},
+	]),
+	scenario('modal-states', [
+		{ kind: 'scenario', slug: 'button-variants', reason: 'Buttons' },
+		{ kind: 'scenario', slug: 'locator-patterns', reason: 'Roles' },
+	]),
+	scenario('locator-patterns', []),
+];
+
+describe('walk_related', () => {
+	it('stops at the requested depth', () => {
+		expect(
+			walk_related(
+				catalog,
+				{ kind: 'scenario', slug: 'button-variants' },
+				1,
+			),
+		).toEqual([
+			{ kind: 'scenario', slug: 'button-variants', depth: 0 },
+			{
+				kind: 'scenario',
+				slug: 'modal-states',
+				depth: 1,
+				from: 'scenario:button-variants',
+				reason: 'Opens modals',
+			},
+			{
+				kind: 'topic',
+				slug: 'component-testing',
+				depth: 1,
+				from: 'scenario:button-variants',
+				reason: 'Components',
+			},
+		]);
+	});
+
+	it('visits each node once, however many links reach it', () => {
+		const nodes = walk_related(
+			catalog,
+			{ kind: 'scenario', slug: 'button-variants' },
+			5,
+		);
+
+		expect(
+			nodes.map(({ slug, depth }) => `${depth} ${slug}`),
+		).toEqual([
+			'0 button-variants',
+			'1 modal-states',
+			'1 component-testing',
+			'2 locator-patterns',
+		]);
+	});
+
+	it('reaches scenarios from a docs topic through their links', () => {
+		expect(
+			walk_related(
+				catalog,
+				{ kind: 'topic', slug: 'component-testing' },
+				1,
+			)[1],
+		).toMatchObject({
+			kind: 'scenario',
+			slug: 'button-variants',
+			reason: 'Components',
+		});
+	});
+});
+
+describe('graph_nodes', () => {
+	it('lists scenarios and the topics they link to', () => {
+		expect(graph_nodes(catalog)).toEqual([
+			'scenario:button-variants',
+			'scenario:modal-states',
+			'topic:component-testing',
+			'scenario:locator-patterns',
+		]);
+	});
+});
@@ -0,0 +1,92 @@
+import { scenario_name } from './examples';
+import type { RelatedLink, ScenarioMeta } from './types';
+
+export interface RelatedNode {
+	kind: RelatedLink['kind'];
+	slug: string;
+	// Steps from the starting node, which is depth 0
+	depth: number;
+	// `kind:slug` of the node this one was reached from
+	from?: string;
+	reason?: string;
+}
+
+export function node_key(node: {
+	kind: string;
+	slug: string;
+}): string {
+	return `${node.kind}:${node.slug}`;
+}
+
+// Scenario links point one way; a topic reaches the scenarios that
+// link to it, so walks can start from either side
+function neighbours(
+	scenarios: ScenarioMeta[],
+	node: RelatedNode,
+): RelatedLink[] {
+	if (node.kind === 'scenario') {
+		return (
+			scenarios.find(
+				(scenario) => scenario_name(scenario) === node.slug,
+			)?.related ?? []
+		);
+	}
+	return scenarios.flatMap((scenario) =>
+		(scenario.related ?? [])
+			.filter(
+				(link) => link.kind === 'topic' && link.slug === node.slug,
+			)
+			.map((link) => ({
+				kind: 'scenario' as const,
+				slug: scenario_name(scenario),
+				reason: link.reason,
+			})),
+	);
+}
+
+/**
+ * Every scenario and docs topic in the catalog's related graph,
+ * keyed as `kind:slug`.
+ */
+export function graph_nodes(scenarios: ScenarioMeta[]): string[] {
+	return [
+		...new Set(
+			scenarios.flatMap((scenario) => [
+				node_key({ kind: 'scenario', slug: scenario_name(scenario) }),
+				...(scenario.related ?? []).map(node_key),
+			]),
+		),
+	];
+}
+
+/**
+ * Breadth-first walk of the related graph from `start`, up to `depth`
+ * links away. Each node appears once, at the depth it was first
+ * reached, with the link that reached it.
+ */
+export function walk_related(
+	scenarios: ScenarioMeta[],
+	start: { kind: RelatedLink['kind']; slug: string },
+	depth: number,
+): RelatedNode[] {
+	const nodes: RelatedNode[] = [{ ...start, depth: 0 }];
+	const seen = new Set([node_key(start)]);
+
+	for (let index = 0; index < nodes.length; index++) {
+		const node = nodes[index];
+		if (node.depth >= depth) continue;
+		for (const link of neighbours(scenarios, node)) {
+			const key = node_key(link);
+			if (seen.has(key)) continue;
+			seen.add(key);
+			nodes.push({
+				kind: link.kind,
+				slug: link.slug,
+				depth: node.depth + 1,
+				from: node_key(node),
+				reason: link.reason,
+			});
+		}
+	}
+	return nodes;
+}
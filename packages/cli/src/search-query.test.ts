@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+	parse_query,
+	QueryError,
+	ranking_text,
+} from './search-query';
+
+describe('parse_query', () => {
+	it('parses phrases, exclusions, qualifiers and OR groups', () => {
+		const { groups } = parse_query(
+			'"expect.element" -playwright type:example OR topic:mocking',
+		);
+
+		expect(
+			groups.map((group) =>
+				group.map(({ kind, value, negated }) => [
+					kind,
+					value,
+					negated,
+				]),
+			),
+		).toEqual([
+			[['phrase', 'expect.element', false]],
+			[['term', 'playwright', true]],
+			[
+				['qualifier', 'example', false],
+				['qualifier', 'mocking', false],
+			],
+		]);
+	});
+
+	it('treats unknown prefixes as words', () => {
+		expect(parse_query('test:e2e').groups).toEqual([
+			[
+				{
+					kind: 'term',
+					value: 'test:e2e',
+					negated: false,
+					position: 0,
+				},
+			],
+		]);
+	});
+
+	it.each([
+		['"strict mode', 'unterminated_quote', 0],
+		['mock type:', 'missing_value', 5],
+		['type:snippets', 'unknown_value', 0],
+		['mock OR', 'dangling_or', 5],
+		['-playwright', 'only_exclusions', 0],
+	])('rejects %s as %s', (query, code, position) => {
+		expect(() => parse_query(query)).toThrow(QueryError);
+		expect(() => parse_query(query)).toThrow(
+			expect.objectContaining({ code, position }),
+		);
+	});
+});
+
+describe('ranking_text', () => {
+	it('keeps the words that are not excluded', () => {
+		expect(
+			ranking_text(parse_query('mock OR "vi.fn" -spy type:docs')),
+		).toBe('mock vi.fn');
+	});
+});
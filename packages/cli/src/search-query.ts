@@ -0,0 +1,250 @@
+// Query syntax for search, a port of
+// apps/website/src/lib/server/search-query.ts that must stay in sync
+// with it; apps/website/src/lib/server/search-parity.test.ts checks
+// that it does. The CLI parses queries itself so malformed ones fail
+// before any request, and so bundle searches understand them too:
+//
+//   "expect.element" -playwright type:example category:"Unit Testing"
+//
+// Bare words rank results. Quoted phrases must appear as written,
+// `-` excludes a word, phrase or qualifier, and `type:`, `category:`
+// and `topic:` narrow the results. `OR` between two parts accepts
+// either.
+
+export const QUALIFIERS = ['type', 'category', 'topic'] as const;
+
+export type Qualifier = (typeof QUALIFIERS)[number];
+
+// `type:` values, singular or plural, by the result group they select
+export const TYPE_VALUES: Record<string, string> = {
+	doc: 'docs',
+	docs: 'docs',
+	example: 'examples',
+	examples: 'examples',
+	component: 'components',
+	components: 'components',
+};
+
+export type QueryErrorCode =
+	| 'unterminated_quote'
+	| 'empty_phrase'
+	| 'missing_value'
+	| 'unknown_value'
+	| 'dangling_or'
+	| 'empty_negation'
+	| 'only_exclusions';
+
+export class QueryError extends Error {
+	constructor(
+		public code: QueryErrorCode,
+		message: string,
+		// Offset in the query where the problem starts
+		public position: number,
+	) {
+		super(message);
+		this.name = 'QueryError';
+	}
+
+	toJSON() {
+		return {
+			code: this.code,
+			message: this.message,
+			position: this.position,
+		};
+	}
+}
+
+export type QueryPart =
+	| { kind: 'term'; value: string }
+	| { kind: 'phrase'; value: string }
+	| { kind: 'qualifier'; field: Qualifier; value: string };
+
+export type QueryItem = QueryPart & {
+	negated: boolean;
+	position: number;
+};
+
+export interface ParsedQuery {
+	// Every group must match; a group matches when any of its items
+	// does. Items joined by OR share a group
+	groups: QueryItem[][];
+}
+
+const OR = 'OR';
+
+function is_space(char: string | undefined): boolean {
+	return char !== undefined && /\s/.test(char);
+}
+
+// The quoted text starting at `start`, which is the opening quote
+function read_quoted(
+	query: string,
+	start: number,
+): { value: string; end: number } {
+	const close = query.indexOf('"', start + 1);
+	if (close === -1) {
+		throw new QueryError(
+			'unterminated_quote',
+			'Missing closing quote',
+			start,
+		);
+	}
+	return { value: query.slice(start + 1, close), end: close + 1 };
+}
+
+function read_word(
+	query: string,
+	start: number,
+): { value: string; end: number } {
+	let end = start;
+	while (end < query.length && !is_space(query[end])) end++;
+	return { value: query.slice(start, end), end };
+}
+
+const QUALIFIER_EXAMPLES: Record<Qualifier, string> = {
+	type: 'type:example',
+	category: 'category:"Unit Testing"',
+	topic: 'topic:runes-testing',
+};
+
+function qualifier_part(
+	field: Qualifier,
+	value: string,
+	position: number,
+): QueryPart {
+	const trimmed = value.trim();
+	if (!trimmed) {
+		throw new QueryError(
+			'missing_value',
+			`${field}: needs a value, e.g. ${QUALIFIER_EXAMPLES[field]}`,
+			position,
+		);
+	}
+	if (field === 'type' && !TYPE_VALUES[trimmed.toLowerCase()]) {
+		throw new QueryError(
+			'unknown_value',
+			`Unknown type '${trimmed}'. Use one of: docs, examples, components`,
+			position,
+		);
+	}
+	return { kind: 'qualifier', field, value: trimmed };
+}
+
+/**
+ * Parse a search query into groups of items. Throws a QueryError
+ * naming the problem and where it is for malformed queries; an empty
+ * query parses to no groups.
+ */
+export function parse_query(query: string): ParsedQuery {
+	const groups: QueryItem[][] = [];
+	let joining = false;
+	let or_position = -1;
+	let index = 0;
+
+	while (index < query.length) {
+		if (is_space(query[index])) {
+			index++;
+			continue;
+		}
+		const position = index;
+
+		const word = read_word(query, index);
+		if (word.value === OR) {
+			if (groups.length === 0 || joining) {
+				throw new QueryError(
+					'dangling_or',
+					'OR needs a term, phrase or qualifier on both sides',
+					position,
+				);
+			}
+			joining = true;
+			or_position = position;
+			index = word.end;
+			continue;
+		}
+
+		const negated = query[index] === '-';
+		if (negated) {
+			index++;
+			if (index >= query.length || is_space(query[index])) {
+				throw new QueryError(
+					'empty_negation',
+					'- must be followed by a term, phrase or qualifier',
+					position,
+				);
+			}
+		}
+
+		let part: QueryPart;
+		if (query[index] === '"') {
+			const quoted = read_quoted(query, index);
+			if (!/[\p{L}\p{N}]/u.test(quoted.value)) {
+				throw new QueryError(
+					'empty_phrase',
+					'Quoted phrases need at least one word',
+					index,
+				);
+			}
+			part = { kind: 'phrase', value: quoted.value };
+			index = quoted.end;
+		} else {
+			const qualifier = query
+				.slice(index)
+				.match(/^([a-z]+):/i)?.[1]
+				?.toLowerCase() as Qualifier | undefined;
+			if (qualifier && QUALIFIERS.includes(qualifier)) {
+				const value_start = index + qualifier.length + 1;
+				const value =
+					query[value_start] === '"'
+						? read_quoted(query, value_start)
+						: read_word(query, value_start);
+				part = qualifier_part(qualifier, value.value, position);
+				index = value.end;
+			} else {
+				const term = read_word(query, index);
+				part = { kind: 'term', value: term.value };
+				index = term.end;
+			}
+		}
+
+		const item = { ...part, negated, position } as QueryItem;
+		if (joining) groups[groups.length - 1].push(item);
+		else groups.push([item]);
+		joining = false;
+	}
+
+	if (joining) {
+		throw new QueryError(
+			'dangling_or',
+			'OR needs a term, phrase or qualifier on both sides',
+			or_position,
+		);
+	}
+	if (
+		groups.length > 0 &&
+		groups.every((group) => group.every((item) => item.negated))
+	) {
+		throw new QueryError(
+			'only_exclusions',
+			'Add a term, phrase or qualifier to search for; a query cannot only exclude',
+			groups[0][0].position,
+		);
+	}
+	return { groups };
+}
+
+/**
+ * The words that rank results: every term and phrase that is not
+ * excluded, as one string for the scorer.
+ */
+export function ranking_text(query: ParsedQuery): string {
+	return query.groups
+		.flat()
+		.filter(
+			(item) =>
+				!item.negated &&
+				(item.kind === 'term' || item.kind === 'phrase'),
+		)
+		.map((item) => item.value)
+		.join(' ');
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import {
+	emphasize,
+	excerpt_around,
+	search_index,
+	type SearchIndex,
+} from './search';
+
+function item(
+	id: string,
+	overrides: Partial<SearchIndex['items'][number]> = {},
+) {
+	return {
+		id,
+		title: id,
+		description: '',
+		url: `/docs/${id}`,
+		type: 'topic',
+		category: 'Documentation',
+		content: '',
+		keywords: [],
+		...overrides,
+	};
+}
+
+const index: SearchIndex = {
+	generated_at: '2025-01-01T00:00:00.000Z',
+	total_items: 3,
+	items: [
+		item('mocking', {
+			title: 'Mocking',
+			content: 'vi.fn() mock mock mock',
+			keywords: ['mock', 'vi.fn'],
+		}),
+		item('button', {
+			title: 'Button',
+			type: 'example',
+			category: 'Components',
+			content: 'mock the click handler',
+		}),
+		item('forms', {
+			title: 'Forms',
+			type: 'example',
+			category: 'Unit Testing',
+			content: 'fill the form',
+		}),
+	],
+};
+
+describe('search_index', () => {
+	it('ranks title and content matches highest', () => {
+		const results = search_index('mock', index);
+
+		expect(results.map((r) => r.id)).toEqual(['mocking', 'button']);
+		expect(results[0].score).toBeGreaterThan(results[1].score);
+	});
+
+	it('applies the same type qualifiers as /api/search', () => {
+		expect(
+			search_index('mock type:components', index).map((r) => r.id),
+		).toEqual(['button']);
+		expect(
+			search_index('form type:example', index).map((r) => r.id),
+		).toEqual(['forms']);
+		expect(
+			search_index('mock type:docs', index).map((r) => r.id),
+		).toEqual(['mocking']);
+	});
+
+	it('supports phrases, exclusions, qualifiers and OR', () => {
+		const ids = (query: string) =>
+			search_index(query, index).map((r) => r.id);
+
+		expect(ids('"click handler"')).toEqual(['button']);
+		expect(ids('"handler click"')).toEqual([]);
+		expect(ids('mock -vi.fn')).toEqual(['button']);
+		expect(ids('category:"unit testing"')).toEqual(['forms']);
+		expect(ids('topic:mocking OR type:components')).toEqual([
+			'button',
+			'mocking',
+		]);
+	});
+
+	it('throws a QueryError for malformed queries', () => {
+		expect(() => search_index('mock "click', index)).toThrow(
+			expect.objectContaining({
+				code: 'unterminated_quote',
+				position: 5,
+			}),
+		);
+	});
+
+	it('treats regex characters in the query literally', () => {
+		expect(() => search_index('c++ (foo', index)).not.toThrow();
+		expect(search_index('vi.fn()', index)[0].id).toBe('mocking');
+	});
+
+	it('finds identifiers by their parts', () => {
+		const with_matcher: SearchIndex = {
+			...index,
+			items: [
+				...index.items,
+				item('visibility', {
+					content: 'await expect.element(el).toBeVisible()',
+				}),
+			],
+		};
+
+		expect(search_index('visible', with_matcher)[0].id).toBe(
+			'visibility',
+		);
+		expect(search_index('toBeVisible', with_matcher)).toHaveLength(1);
+	});
+
+	it('cuts excerpts around the first match', () => {
+		const long: SearchIndex = {
+			...index,
+			items: [
+				item('strict', {
+					content: `${'Lorem ipsum dolor sit amet. '.repeat(10)}Two matches cause a strict mode violation. ${'Consectetur adipiscing. '.repeat(10)}`,
+					excerpt: 'Lorem ipsum...',
+				}),
+			],
+		};
+		const [result] = search_index('violation', long);
+
+		expect(result.excerpt).toMatch(/^….*strict mode violation.*…$/);
+		expect(
+			excerpt_around('no match here', new Set(['violation'])),
+		).toBe(undefined);
+	});
+
+	it('tolerates typos, word forms and jargon like the site', () => {
+		const jargon: SearchIndex = {
+			...index,
+			items: [
+				item('mocking-modules', { content: 'Mocking modules.' }),
+				item('untrack', { content: 'Call untrack() first.' }),
+				item('playwright', { content: 'Run Playwright tests.' }),
+			],
+		};
+
+		expect(search_index('mocing', jargon)[0].id).toBe(
+			'mocking-modules',
+		);
+		expect(search_index('untracked', jargon)[0].id).toBe('untrack');
+		expect(search_index('e2e', jargon)[0].id).toBe('playwright');
+	});
+
+	it('returns match ranges like /api/search', () => {
+		const [result] = search_index('mocking', index);
+
+		expect(result.highlights.title).toEqual(
+			[...result.title.matchAll(/mock\w*/gi)].map((match) => ({
+				start: match.index,
+				end: match.index + match[0].length,
+			})),
+		);
+	});
+
+	it('bolds matched ranges and skips stray ones', () => {
+		expect(
+			emphasize('Mock the store', [
+				{ start: 9, end: 14 },
+				{ start: 0, end: 4 },
+				{ start: 2, end: 6 },
+				{ start: 12, end: 99 },
+			]),
+		).toBe('\x1b[1mMock\x1b[22m the \x1b[1mstore\x1b[22m');
+		expect(emphasize('plain')).toBe('plain');
+	});
+
+	it('returns nothing for an empty query', () => {
+		expect(search_index('   ', index)).toEqual([]);
+	});
+});
@@ -0,0 +1,608 @@
+import { get_site_base } from './config';
+import { fetch_json } from './fetch';
+import {
+	parse_query,
+	ranking_text,
+	TYPE_VALUES,
+	type ParsedQuery,
+	type Qualifier,
+	type QueryItem,
+} from './search-query';
+import type {
+	MatchRange,
+	SearchHighlights,
+	SearchResponse,
+} from './types';
+
+// Local search over a mirrored `search-index.json`. The ranking is a
+// port of apps/website/src/lib/server/search-engine.ts (BM25F over an
+// inverted index, with stemming, synonyms and typo tolerance) and
+// `search_full_text` in search-index.ts, query syntax included, and
+// must stay in sync with them so bundle results rank the same as
+// /api/search. apps/website/src/lib/server/search-parity.test.ts
+// runs both copies over the site's index.
+
+export interface SearchIndexItem {
+	id: string;
+	title: string;
+	description: string;
+	url: string;
+	type: string;
+	category: string;
+	content: string;
+	excerpt?: string;
+	keywords: string[];
+	breadcrumb?: string[];
+}
+
+export interface SearchIndex {
+	items: SearchIndexItem[];
+	generated_at: string;
+	total_items: number;
+}
+
+export interface ScoredItem extends SearchIndexItem {
+	score: number;
+	highlights: SearchHighlights;
+}
+
+const SEARCH_FIELDS = [
+	'title',
+	'description',
+	'keywords',
+	'content',
+] as const;
+
+type SearchField = (typeof SEARCH_FIELDS)[number];
+
+const FIELD_BOOSTS: Record<SearchField, number> = {
+	title: 4,
+	description: 2,
+	keywords: 1.5,
+	content: 1,
+};
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STEM_WEIGHT = 0.9;
+const SYNONYM_WEIGHT = 0.8;
+const FUZZY_WEIGHT = 0.6;
+
+const SYNONYMS: Record<string, string[]> = {
+	rtl: ['@testing-library/svelte'],
+	e2e: ['playwright'],
+	playwright: ['e2e'],
+	runes: ['$state', '$derived', '$effect', '$props'],
+	ssr: ['server-side rendering'],
+	a11y: ['accessibility'],
+	accessibility: ['a11y'],
+	spy: ['vi.spyOn'],
+	stub: ['mock', 'vi.fn'],
+	jsdom: ['vitest-browser-svelte'],
+};
+
+interface Posting {
+	doc: number;
+	counts: number[];
+}
+
+interface InvertedIndex {
+	postings: Map<string, Posting[]>;
+	stems: Map<string, string[]>;
+	// Words in order per document, fields separated by ''
+	sequences: string[][];
+	lengths: number[][];
+	average_lengths: number[];
+	size: number;
+}
+
+// Identifiers are split into their parts when indexing only, so
+// `visible` finds `toBeVisible` but a `toBeVisible` query stays whole
+export function tokenize(
+	text: string,
+	split_identifiers = false,
+): string[] {
+	const tokens: string[] = [];
+	for (const [word] of text.matchAll(/[\p{L}\p{N}_]+/gu)) {
+		const parts = split_identifiers
+			? word.split(/_+|(?<=[\p{Ll}\p{N}])(?=\p{Lu})/u).filter(Boolean)
+			: [];
+		for (const token of parts.length > 1
+			? [word, ...parts]
+			: [word]) {
+			if (token.length > 1) tokens.push(token.toLowerCase());
+		}
+	}
+	return tokens;
+}
+
+function stem(token: string): string {
+	if (token.length <= 4 || !/^\p{L}+$/u.test(token)) return token;
+	let base = token;
+	if (base.endsWith('ies')) base = `${base.slice(0, -3)}y`;
+	else if (/(?:ss|us|is)$/.test(base)) return base;
+	else if (/(?:ch|sh|[sxz])es$/.test(base)) base = base.slice(0, -2);
+	else if (base.endsWith('ing')) base = base.slice(0, -3);
+	else if (base.endsWith('ed')) base = base.slice(0, -2);
+	else if (base.endsWith('s')) base = base.slice(0, -1);
+	// running → run, stopped → stop
+	if (/([^aeiouls])\1$/.test(base) && base.length > 3) {
+		base = base.slice(0, -1);
+	}
+	// created → creat ← create, but rune stays apart from run
+	if (base.endsWith('e') && base.length > 5) base = base.slice(0, -1);
+	return base.length >= 3 ? base : token;
+}
+
+function edit_distance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	let before: number[] = [];
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost,
+			);
+			if (
+				i > 1 &&
+				j > 1 &&
+				a[i - 1] === b[j - 2] &&
+				a[i - 2] === b[j - 1]
+			) {
+				current[j] = Math.min(current[j], before[j - 2] + 1);
+			}
+		}
+		if (Math.min(...current) > max) return max + 1;
+		before = previous;
+		previous = current;
+	}
+	return Math.min(previous[b.length], max + 1);
+}
+
+// Typos allowed for a term of this length
+function max_edits(term: string): number {
+	if (term.length < 4) return 0;
+	return term.length < 8 ? 1 : 2;
+}
+
+function build_inverted_index(
+	items: SearchIndexItem[],
+): InvertedIndex {
+	const postings = new Map<string, Posting[]>();
+	const lengths = items.map((item, doc) => {
+		const by_term = new Map<string, number[]>();
+		const field_lengths = SEARCH_FIELDS.map((field, position) => {
+			const tokens = tokenize(
+				field === 'keywords' ? item.keywords.join(' ') : item[field],
+				true,
+			);
+			for (const token of tokens) {
+				const counts =
+					by_term.get(token) ?? SEARCH_FIELDS.map(() => 0);
+				counts[position]++;
+				by_term.set(token, counts);
+			}
+			return tokens.length;
+		});
+		for (const [term, counts] of by_term) {
+			const list = postings.get(term) ?? [];
+			list.push({ doc, counts });
+			postings.set(term, list);
+		}
+		return field_lengths;
+	});
+
+	const sequences = items.map((item) =>
+		SEARCH_FIELDS.flatMap((field) => [
+			...tokenize(
+				field === 'keywords' ? item.keywords.join(' ') : item[field],
+			),
+			'',
+		]),
+	);
+
+	const stems = new Map<string, string[]>();
+	for (const term of postings.keys()) {
+		const key = stem(term);
+		stems.set(key, [...(stems.get(key) ?? []), term]);
+	}
+
+	const average_lengths = SEARCH_FIELDS.map(
+		(_, position) =>
+			lengths.reduce((sum, field) => sum + field[position], 0) /
+			Math.max(items.length, 1),
+	);
+	return {
+		postings,
+		stems,
+		sequences,
+		lengths,
+		average_lengths,
+		size: items.length,
+	};
+}
+
+interface QueryTerm {
+	forms: Map<string, number>;
+	alternatives: Map<string, number>;
+}
+
+function expand_query(
+	index: InvertedIndex,
+	query: string,
+): QueryTerm[] {
+	return [...new Set(tokenize(query))].map((term) => {
+		const forms = new Map<string, number>();
+		const alternatives = new Map<string, number>();
+		const add = (
+			into: Map<string, number>,
+			variant: string,
+			weight: number,
+		) => {
+			if (!index.postings.has(variant) || forms.has(variant)) return;
+			into.set(variant, Math.max(into.get(variant) ?? 0, weight));
+		};
+
+		add(forms, term, 1);
+		for (const form of index.stems.get(stem(term)) ?? []) {
+			add(forms, form, STEM_WEIGHT);
+		}
+		const synonyms = SYNONYMS[term] ?? SYNONYMS[stem(term)] ?? [];
+		for (const token of synonyms.flatMap((synonym) =>
+			tokenize(synonym),
+		)) {
+			add(alternatives, token, SYNONYM_WEIGHT);
+		}
+		const edits = max_edits(term);
+		if (!index.postings.has(term) && edits > 0) {
+			for (const candidate of index.postings.keys()) {
+				const distance = edit_distance(term, candidate, edits);
+				if (distance <= edits) {
+					add(alternatives, candidate, FUZZY_WEIGHT ** distance);
+				}
+			}
+		}
+		return { forms, alternatives };
+	});
+}
+
+function contains_phrase(
+	index: InvertedIndex,
+	doc: number,
+	phrase: string,
+): boolean {
+	const words = tokenize(phrase);
+	const sequence = index.sequences[doc];
+	if (words.length === 0) return false;
+	for (
+		let start = 0;
+		start + words.length <= sequence.length;
+		start++
+	) {
+		if (
+			words.every((word, offset) => sequence[start + offset] === word)
+		) {
+			return true;
+		}
+	}
+	return false;
+}
+
+// Boosted, length-normalised occurrences of `terms` per document,
+// each term's count scaled by its weight
+function weighted_counts(
+	index: InvertedIndex,
+	terms: [string, number][],
+): Map<number, number> {
+	const weighted = new Map<number, number>();
+	for (const [term, weight] of terms) {
+		for (const { doc, counts } of index.postings.get(term) ?? []) {
+			const fields = SEARCH_FIELDS.reduce((sum, field, position) => {
+				const average = index.average_lengths[position] || 1;
+				const norm =
+					1 - B + (B * index.lengths[doc][position]) / average;
+				return sum + (FIELD_BOOSTS[field] * counts[position]) / norm;
+			}, 0);
+			weighted.set(doc, (weighted.get(doc) ?? 0) + weight * fields);
+		}
+	}
+	return weighted;
+}
+
+function idf(index: InvertedIndex, matches: number): number {
+	return Math.log(1 + (index.size - matches + 0.5) / (matches + 0.5));
+}
+
+function saturate(value: number): number {
+	return (value * (K1 + 1)) / (K1 + value);
+}
+
+function score_documents(
+	index: InvertedIndex,
+	query: string,
+): { doc: number; score: number }[] {
+	const scores = new Map<number, number>();
+
+	for (const { forms, alternatives } of expand_query(index, query)) {
+		const best = new Map<number, number>();
+		const keep = (doc: number, score: number) =>
+			best.set(doc, Math.max(best.get(doc) ?? 0, score));
+
+		const word = weighted_counts(index, [...forms]);
+		const word_idf = word.size > 0 ? idf(index, word.size) : Infinity;
+		for (const [doc, value] of word) {
+			keep(doc, word_idf * saturate(value));
+		}
+		for (const [term, weight] of alternatives) {
+			const matches = weighted_counts(index, [[term, 1]]);
+			const term_idf = Math.min(idf(index, matches.size), word_idf);
+			for (const [doc, value] of matches) {
+				keep(doc, weight * term_idf * saturate(value));
+			}
+		}
+
+		for (const [doc, score] of best) {
+			scores.set(doc, (scores.get(doc) ?? 0) + score);
+		}
+	}
+
+	return [...scores].map(([doc, score]) => ({
+		doc,
+		score: Math.round(score * 1e4) / 1e4,
+	}));
+}
+
+const EXCERPT_BEFORE = 80;
+const EXCERPT_AFTER = 120;
+
+function plain_text(markdown: string): string {
+	return markdown
+		.replace(/^\s*(`{3,}|~{3,}).*$/gm, '')
+		.replace(/^#{1,6}\s+/gm, '')
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+export function match_ranges(
+	text: string,
+	terms: ReadonlySet<string>,
+): MatchRange[] {
+	if (terms.size === 0) return [];
+	const ranges: MatchRange[] = [];
+	for (const { 0: word, index } of text.matchAll(
+		/[\p{L}\p{N}_]+/gu,
+	)) {
+		if (tokenize(word, true).some((token) => terms.has(token))) {
+			ranges.push({ start: index, end: index + word.length });
+		}
+	}
+	return ranges;
+}
+
+// The passage around the first matching word, as the site cuts it
+// for /api/search
+export function excerpt_around(
+	content: string,
+	terms: ReadonlySet<string>,
+): string | undefined {
+	const text = plain_text(content);
+	const [match] = match_ranges(text, terms);
+	if (!match) return undefined;
+
+	let start = Math.max(0, match.start - EXCERPT_BEFORE);
+	let end = Math.min(text.length, match.end + EXCERPT_AFTER);
+	if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+	if (end < text.length) end = text.lastIndexOf(' ', end) + 1 || end;
+	return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${
+		end < text.length ? '…' : ''
+	}`;
+}
+
+/**
+ * Bold the matched ranges of `text` for a terminal. Ranges come from
+ * the server, so overlapping or out-of-bounds ones are skipped.
+ */
+export function emphasize(
+	text: string,
+	ranges: MatchRange[] = [],
+): string {
+	let output = '';
+	let position = 0;
+	for (const { start, end } of [...ranges]
+		.filter((range) => Number.isInteger(range.start))
+		.sort((a, b) => a.start - b.start)) {
+		if (start < position || end > text.length || start >= end) {
+			continue;
+		}
+		output += `${text.slice(position, start)}\x1b[1m${text.slice(start, end)}\x1b[22m`;
+		position = end;
+	}
+	return output + text.slice(position);
+}
+
+// The result groups `type:` selects
+function matches_type(item: SearchIndexItem, group: string) {
+	switch (group) {
+		case 'docs':
+			return (
+				item.type === 'topic' ||
+				item.category === 'Documentation' ||
+				item.category === 'Quick Start'
+			);
+		case 'examples':
+			return (
+				item.type === 'example' &&
+				!['Components', 'Documentation', 'Quick Start'].includes(
+					item.category,
+				)
+			);
+		case 'components':
+			return item.category === 'Components';
+		default:
+			return true;
+	}
+}
+
+function matches_qualifier(
+	item: SearchIndexItem,
+	field: Qualifier,
+	value: string,
+): boolean {
+	const wanted = value.toLowerCase();
+	switch (field) {
+		case 'type':
+			return matches_type(item, TYPE_VALUES[wanted]);
+		case 'category':
+			return item.category.toLowerCase() === wanted;
+		case 'topic':
+			return (
+				item.url === `/docs/${wanted}` ||
+				item.url.startsWith(`/docs/${wanted}#`)
+			);
+	}
+}
+
+function item_matcher(
+	index: SearchIndex,
+	inverted: InvertedIndex,
+	item: QueryItem,
+): (doc: number) => boolean {
+	if (item.kind === 'qualifier') {
+		return (doc) =>
+			matches_qualifier(index.items[doc], item.field, item.value);
+	}
+	const words = expand_query(inverted, item.value);
+	if (item.kind === 'phrase' || words.length > 1) {
+		return (doc) => contains_phrase(inverted, doc, item.value);
+	}
+	if (words.length === 0) return () => false;
+	const terms = item.negated
+		? [...words[0].forms.keys()]
+		: [...words[0].forms.keys(), ...words[0].alternatives.keys()];
+	const docs = new Set(
+		terms.flatMap((term) =>
+			(inverted.postings.get(term) ?? []).map(({ doc }) => doc),
+		),
+	);
+	return (doc) => docs.has(doc);
+}
+
+// A lone word only ranks results; everything else must match
+function group_matcher(
+	index: SearchIndex,
+	inverted: InvertedIndex,
+	group: QueryItem[],
+): ((doc: number) => boolean) | null {
+	const [first] = group;
+	if (group.length === 1 && first.kind === 'term' && !first.negated) {
+		return null;
+	}
+	const matchers = group.map((item) => {
+		const matches = item_matcher(index, inverted, item);
+		return item.negated ? (doc: number) => !matches(doc) : matches;
+	});
+	return (doc) => matchers.some((matches) => matches(doc));
+}
+
+// Throws a QueryError for malformed queries
+export function search_index(
+	query: string | ParsedQuery,
+	index: SearchIndex,
+): ScoredItem[] {
+	const inverted = build_inverted_index(index.items);
+	const parsed =
+		typeof query === 'string' ? parse_query(query) : query;
+	if (parsed.groups.length === 0) return [];
+
+	const text = ranking_text(parsed);
+	const terms = new Set(
+		expand_query(inverted, text).flatMap(
+			({ forms, alternatives }) => [
+				...forms.keys(),
+				...alternatives.keys(),
+			],
+		),
+	);
+	const matchers = parsed.groups
+		.map((group) => group_matcher(index, inverted, group))
+		.filter((matcher) => matcher !== null);
+	// Qualifiers alone list everything they select
+	const candidates = text.trim()
+		? score_documents(inverted, text)
+		: index.items.map((_, doc) => ({ doc, score: 0 }));
+
+	return candidates
+		.filter(({ doc }) => matchers.every((matches) => matches(doc)))
+		.map(({ doc, score }) => ({ ...index.items[doc], score }))
+		.sort(
+			(a, b) =>
+				b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0),
+		)
+		.slice(0, 20)
+		.map((item) => {
+			const excerpt =
+				excerpt_around(item.content, terms) ?? item.excerpt;
+			return {
+				...item,
+				excerpt,
+				highlights: {
+					title: match_ranges(item.title, terms),
+					description: match_ranges(item.description, terms),
+					excerpt: excerpt ? match_ranges(excerpt, terms) : [],
+				},
+			};
+		});
+}
+
+/**
+ * Answer a search from the active bundle's `search-index.json`, in the
+ * same shape /api/search returns.
+ */
+export async function search_bundle(
+	query: string,
+	filter?: string,
+): Promise<SearchResponse> {
+	const index = await fetch_json<SearchIndex>(
+		`${get_site_base()}/search-index.json`,
+	);
+	// A `filter` narrows like a type: qualifier, as on /api/search
+	const parsed = parse_query(query);
+	if (filter && TYPE_VALUES[filter]) {
+		parsed.groups.push(...parse_query(`type:${filter}`).groups);
+	}
+	const results = search_index(parsed, index).map(
+		({
+			id,
+			title,
+			description,
+			url,
+			type,
+			category,
+			excerpt,
+			breadcrumb,
+			highlights,
+		}) => ({
+			id,
+			title,
+			description,
+			url,
+			type,
+			category,
+			excerpt: excerpt ?? '',
+			breadcrumb,
+			highlights,
+		}),
+	);
+	return {
+		query,
+		filter: filter ?? 'all',
+		results,
+		total: results.length,
+	};
+}
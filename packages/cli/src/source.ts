@@ -0,0 +1,34 @@
+import { get_bundle_dir } from './bundle';
+import { get_api_base, get_site_base } from './config';
+import { SveltestClient } from './client';
+import { fetch_text } from './fetch';
+import { search_bundle } from './search';
+
+/**
+ * `fetch` for the client that goes through the on-disk cache and any
+ * active bundle. Bundles have no /api/search, so searches are answered
+ * from the mirrored search index instead.
+ */
+export async function source_fetch(input: string): Promise<Response> {
+	const search_url = `${get_api_base()}/search?`;
+	if (get_bundle_dir() && input.startsWith(search_url)) {
+		const params = new URLSearchParams(
+			input.slice(search_url.length),
+		);
+		const response = await search_bundle(
+			params.get('q') ?? '',
+			params.get('filter') ?? undefined,
+		);
+		return new Response(JSON.stringify(response));
+	}
+	return new Response(await fetch_text(input));
+}
+
+// Built per call so --api-base and config changes are always honoured
+export function get_client(): SveltestClient {
+	return new SveltestClient({
+		api_base: get_api_base(),
+		site_base: get_site_base(),
+		fetch: source_fetch,
+	});
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { did_you_mean, edit_distance, match_name } from './suggest';
+
+const scenarios = [
+	'authentication',
+	'button-variants',
+	'crud-patterns',
+	'form-validation',
+	'locator-patterns',
+	'modal-states',
+	'runes-testing',
+];
+
+describe('edit_distance', () => {
+	it('counts insertions, deletions and substitutions', () => {
+		expect(edit_distance('button', 'button')).toBe(0);
+		expect(edit_distance('buton', 'button')).toBe(1);
+		expect(edit_distance('kitten', 'sitting')).toBe(3);
+	});
+});
+
+describe('match_name', () => {
+	it('matches exact names case-insensitively', () => {
+		expect(match_name('Modal-States', scenarios).match).toBe(
+			'modal-states',
+		);
+	});
+
+	it('resolves unambiguous prefixes and aliases', () => {
+		expect(match_name('auth', scenarios).match).toBe(
+			'authentication',
+		);
+		expect(match_name('button-variant', scenarios).match).toBe(
+			'button-variants',
+		);
+		expect(match_name('validation', scenarios).match).toBe(
+			'form-validation',
+		);
+		expect(match_name('modals', scenarios).match).toBe(
+			'modal-states',
+		);
+	});
+
+	it('lists every candidate for an ambiguous prefix', () => {
+		expect(match_name('pat', scenarios)).toEqual({
+			match: null,
+			suggestions: ['crud-patterns', 'locator-patterns'],
+		});
+	});
+
+	it('suggests the closest names for typos', () => {
+		expect(match_name('buton-variants', scenarios)).toEqual({
+			match: null,
+			suggestions: ['button-variants'],
+		});
+		expect(match_name('zzz', scenarios).suggestions).toEqual([]);
+	});
+});
+
+describe('did_you_mean', () => {
+	it('phrases one or several suggestions', () => {
+		expect(did_you_mean([])).toBe('');
+		expect(did_you_mean(['a'])).toBe(" Did you mean 'a'?");
+		expect(did_you_mean(['a', 'b'])).toBe(
+			' Did you mean one of: a, b?',
+		);
+	});
+});
@@ -0,0 +1,95 @@
+// Short names people reach for that are not a prefix of the slug
+const ALIASES: Record<string, string[]> = {
+	buttons: ['button-variants'],
+	forms: ['form-validation'],
+	validation: ['form-validation'],
+	modal: ['modal-states'],
+	modals: ['modal-states'],
+	dialog: ['modal-states'],
+	locators: ['locator-patterns'],
+	login: ['authentication'],
+	runes: ['runes-testing'],
+	ssr: ['ssr-testing'],
+	e2e: ['e2e-testing'],
+	ci: ['ci-cd'],
+	migrate: ['migration-guide'],
+	migration: ['migration-guide'],
+	api: ['api-reference'],
+	patterns: ['testing-patterns'],
+};
+
+export interface NameMatch {
+	// The one name the input resolves to, or null
+	match: string | null;
+	// Candidates to offer when there is no match
+	suggestions: string[];
+}
+
+export function edit_distance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Resolve what the user typed against the known names: an exact
+ * name, an alias or an unambiguous prefix of the name (or of one of
+ * its words) is a match. Otherwise the closest names by edit distance
+ * are returned as suggestions, or every candidate for an ambiguous
+ * prefix.
+ */
+export function match_name(
+	input: string,
+	names: string[],
+): NameMatch {
+	const query = input.trim().toLowerCase();
+	if (names.includes(query)) return { match: query, suggestions: [] };
+
+	const aliased = (ALIASES[query] ?? []).filter((name) =>
+		names.includes(name),
+	);
+	if (aliased.length === 1) {
+		return { match: aliased[0], suggestions: [] };
+	}
+
+	for (const candidates of [
+		names.filter((name) => name.startsWith(query)),
+		names.filter((name) =>
+			name.split('-').some((word) => word.startsWith(query)),
+		),
+	]) {
+		if (candidates.length === 1) {
+			return { match: candidates[0], suggestions: [] };
+		}
+		if (candidates.length > 1) {
+			return { match: null, suggestions: candidates };
+		}
+	}
+
+	const limit = Math.max(2, Math.floor(query.length / 3));
+	const suggestions = names
+		.map((name) => ({ name, distance: edit_distance(query, name) }))
+		.filter(({ distance }) => distance <= limit)
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, 3)
+		.map(({ name }) => name);
+	return { match: null, suggestions };
+}
+
+export function did_you_mean(suggestions: string[]): string {
+	if (suggestions.length === 0) return '';
+	if (suggestions.length === 1) {
+		return ` Did you mean '${suggestions[0]}'?`;
+	}
+	return ` Did you mean one of: ${suggestions.join(', ')}?`;
+}
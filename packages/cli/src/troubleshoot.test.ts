@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+	clean_message,
+	parse_entries,
+	rank_entries,
+	read_vitest_report,
+} from './troubleshoot';
+
+const doc = [
+	'# Troubleshooting',
+	'',
+	'## Common Errors & Solutions',
+	'',
+	'### "strict mode violation"',
+	'',
+	'**Cause**: A locator matched more than one',
+	'element.',
+	'',
+	'Use `.first()`.',
+	'',
+	'### Test Hangs or Timeouts',
+	'',
+	'**Cause**: Waiting for a form submit that never completes.',
+	'',
+	'```',
+	'Error: Test timed out in 5000ms.',
+	'```',
+	'',
+	'## Quick Reference',
+	'',
+	'### Error Patterns',
+	'',
+	'- **"strict mode violation"** → Use `.first()`',
+	'',
+].join('\n');
+
+describe('parse_entries', () => {
+	it('splits the page into entries and skips the quick reference', () => {
+		expect(
+			parse_entries(doc).map(
+				({ slug, section }) => `${section}: ${slug}`,
+			),
+		).toEqual([
+			'Common Errors & Solutions: strict-mode-violation',
+			'Common Errors & Solutions: test-hangs-or-timeouts',
+		]);
+	});
+});
+
+describe('rank_entries', () => {
+	const entries = parse_entries(doc);
+
+	it('puts the entry that quotes the error first', () => {
+		const [first, ...rest] = rank_entries(
+			entries,
+			"Error: strict mode violation: getByRole('button') resolved to 2 elements",
+		);
+
+		expect(first).toMatchObject({
+			slug: 'strict-mode-violation',
+			summary: 'A locator matched more than one element.',
+		});
+		expect(rest).toEqual([]);
+	});
+
+	it('matches the example errors an entry shows', () => {
+		expect(
+			rank_entries(entries, 'Error: Test timed out in 2000ms.').map(
+				({ slug }) => slug,
+			),
+		).toEqual(['test-hangs-or-timeouts']);
+	});
+
+	it('matches on words when nothing is quoted', () => {
+		expect(
+			rank_entries(entries, 'Test timed out: form submit hangs').map(
+				({ slug }) => slug,
+			),
+		).toEqual(['test-hangs-or-timeouts']);
+	});
+
+	it('returns nothing for unrelated errors', () => {
+		expect(rank_entries(entries, 'ENOSPC: disk full')).toEqual([]);
+	});
+});
+
+describe('clean_message', () => {
+	it('drops stack frames and colours', () => {
+		expect(
+			clean_message(
+				'\x1b[31mError: boom\x1b[39m\n    at run (src/a.ts:1:1)\n',
+			),
+		).toBe('Error: boom');
+	});
+});
+
+describe('read_vitest_report', () => {
+	it('lists failed tests and files that failed to load', () => {
+		const report = JSON.stringify({
+			testResults: [
+				{
+					name: '/app/src/button.svelte.test.ts',
+					status: 'failed',
+					assertionResults: [
+						{
+							ancestorTitles: ['Button'],
+							title: 'renders',
+							status: 'failed',
+							failureMessages: ['Error: strict mode violation'],
+						},
+						{ title: 'clicks', status: 'passed' },
+					],
+				},
+				{
+					name: '/app/src/broken.test.ts',
+					status: 'failed',
+					message: 'Failed to load url ./missing',
+					assertionResults: [],
+				},
+			],
+		});
+
+		expect(read_vitest_report(report, '/app')).toEqual([
+			{
+				file: 'src/button.svelte.test.ts',
+				test: 'Button > renders',
+				message: 'Error: strict mode violation',
+			},
+			{
+				file: 'src/broken.test.ts',
+				test: '',
+				message: 'Failed to load url ./missing',
+			},
+		]);
+	});
+
+	it('rejects other JSON', () => {
+		expect(() => read_vitest_report('{}')).toThrow(
+			'Not a Vitest JSON report',
+		);
+	});
+});
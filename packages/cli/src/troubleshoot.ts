@@ -0,0 +1,257 @@
+import { stripVTControlCharacters } from 'node:util';
+import { SveltestError } from './errors';
+import { parse_headings } from './outline';
+
+export const TROUBLESHOOTING_TOPIC = 'troubleshooting';
+
+export interface TroubleshootingEntry {
+	title: string;
+	// Anchor of the entry on the troubleshooting page
+	slug: string;
+	// The `##` heading the entry sits under
+	section: string;
+	text: string;
+}
+
+export interface RankedEntry {
+	title: string;
+	slug: string;
+	section: string;
+	summary: string;
+	score: number;
+}
+
+export interface TestFailure {
+	file: string;
+	// Describe blocks and test title joined with ` > `
+	test: string;
+	message: string;
+}
+
+// The quick reference repeats every other entry in one line each, so
+// it would match almost any error
+const SKIPPED_SECTIONS = new Set(['Quick Reference']);
+
+// Words every error message and entry share
+const STOPWORDS = new Set([
+	'the',
+	'and',
+	'for',
+	'with',
+	'not',
+	'was',
+	'but',
+	'are',
+	'this',
+	'that',
+	'from',
+	'error',
+	'errors',
+	'test',
+	'tests',
+	'expected',
+	'received',
+	'undefined',
+]);
+
+// Only the first entries are shown, and never ones far behind the best
+const MAX_MATCHES = 3;
+const MIN_RELATIVE_SCORE = 0.25;
+
+/**
+ * Split troubleshooting.md into its `###` entries, each with the text
+ * up to the next heading of the same or a higher level.
+ */
+export function parse_entries(
+	markdown: string,
+): TroubleshootingEntry[] {
+	const lines = markdown.split('\n');
+	const headings = parse_headings(markdown);
+	let section = '';
+
+	return headings.flatMap((heading, index) => {
+		if (heading.level === 2) section = heading.title;
+		if (heading.level !== 3 || SKIPPED_SECTIONS.has(section)) {
+			return [];
+		}
+		const next = headings
+			.slice(index + 1)
+			.find((other) => other.level <= 3);
+		return [
+			{
+				title: heading.title,
+				slug: heading.slug,
+				section,
+				text: lines.slice(heading.line + 1, next?.line).join('\n'),
+			},
+		];
+	});
+}
+
+// Stack frames and terminal colours say nothing about the cause
+export function clean_message(message: string): string {
+	return stripVTControlCharacters(message)
+		.split('\n')
+		.filter((line) => !/^\s*at\s/.test(line) && line.trim() !== '')
+		.join('\n')
+		.trim();
+}
+
+function words(text: string): string[] {
+	return text.toLowerCase().match(/[a-z_$][a-z0-9_$]{2,}/g) ?? [];
+}
+
+export function error_terms(message: string): string[] {
+	return [
+		...new Set(
+			words(clean_message(message)).filter(
+				(word) => !STOPWORDS.has(word),
+			),
+		),
+	];
+}
+
+// The first sentence after **Cause**:, or the first paragraph of prose
+function summarise(text: string): string {
+	const cause = text.match(/\*\*Cause\*\*:\s*([\s\S]*?)(\n\n|$)/);
+	const paragraph =
+		cause?.[1] ??
+		text
+			.split(/\n\s*\n/)
+			.find((block) => /^[A-Za-z*]/.test(block.trim())) ??
+		'';
+	return paragraph.replace(/\s+/g, ' ').replace(/\*\*/g, '').trim();
+}
+
+// Error messages an entry explains: quoted strings, and the lines of
+// its bare code fences (the **Example Error** blocks) up to the first
+// value that changes between runs, such as a number or a locator
+function error_phrases(entry: TroubleshootingEntry): string[] {
+	const quoted = [
+		...`${entry.title}\n${entry.text}`.matchAll(/"([^"\n]{6,})"/g),
+	].map(([, phrase]) => phrase);
+	const examples = [...entry.text.matchAll(/```\n([\s\S]*?)```/g)]
+		.flatMap(([, block]) => block.split('\n'))
+		.map((line) =>
+			line
+				.replace(/^\w*Error:\s*/, '')
+				.split(/[\d'"(]/)[0]
+				.replace(/[\s:]+$/, ''),
+		);
+	return [...quoted, ...examples]
+		.filter((phrase) => phrase.length >= 6)
+		.map((phrase) => phrase.toLowerCase());
+}
+
+/**
+ * Rank troubleshooting entries against an error message. An error the
+ * entry shows counts most, then words of the message in the entry's
+ * title, then how often they appear in its text.
+ */
+export function rank_entries(
+	entries: TroubleshootingEntry[],
+	message: string,
+): RankedEntry[] {
+	const lower = clean_message(message).toLowerCase();
+	const terms = error_terms(message);
+
+	const ranked = entries
+		.map((entry) => {
+			const title = words(entry.title);
+			const text = words(entry.text);
+			let score = 0;
+
+			for (const phrase of new Set(error_phrases(entry))) {
+				if (lower.includes(phrase)) score += 50;
+			}
+			// Word starts, so `timeout` finds `timeouts` but `out` does
+			// not find `outside`
+			for (const term of terms) {
+				if (title.some((word) => word.startsWith(term))) score += 10;
+				score += Math.min(
+					text.filter((word) => word.startsWith(term)).length,
+					3,
+				);
+			}
+			return {
+				title: entry.title,
+				slug: entry.slug,
+				section: entry.section,
+				summary: summarise(entry.text),
+				score,
+			};
+		})
+		.filter((entry) => entry.score > 0)
+		.sort((a, b) => b.score - a.score);
+
+	const best = ranked[0]?.score ?? 0;
+	return ranked
+		.filter((entry) => entry.score >= best * MIN_RELATIVE_SCORE)
+		.slice(0, MAX_MATCHES);
+}
+
+interface VitestAssertion {
+	ancestorTitles?: string[];
+	title?: string;
+	fullName?: string;
+	status?: string;
+	failureMessages?: string[];
+}
+
+interface VitestReport {
+	testResults?: {
+		name?: string;
+		status?: string;
+		message?: string;
+		assertionResults?: VitestAssertion[];
+	}[];
+}
+
+/**
+ * Failed tests from a `--reporter=json` output file. A file that fails
+ * before any test runs (a bad import, a config error) is reported once
+ * with the file's own message.
+ */
+export function read_vitest_report(
+	json: string,
+	cwd = process.cwd(),
+): TestFailure[] {
+	let report: VitestReport;
+	try {
+		report = JSON.parse(json) as VitestReport;
+	} catch (error) {
+		throw new SveltestError(
+			'usage',
+			`Not a Vitest JSON report: ${(error as Error).message}`,
+		);
+	}
+	if (!Array.isArray(report?.testResults)) {
+		throw new SveltestError(
+			'usage',
+			'Not a Vitest JSON report: expected a testResults array',
+		);
+	}
+
+	return report.testResults.flatMap((file) => {
+		const path = (file.name ?? '').startsWith(`${cwd}/`)
+			? (file.name ?? '').slice(cwd.length + 1)
+			: (file.name ?? '');
+		const failed = (file.assertionResults ?? []).filter(
+			(assertion) => assertion.status === 'failed',
+		);
+		if (failed.length === 0) {
+			return file.status === 'failed' && file.message
+				? [{ file: path, test: '', message: file.message }]
+				: [];
+		}
+		return failed.map((assertion) => ({
+			file: path,
+			test: assertion.title
+				? [...(assertion.ancestorTitles ?? []), assertion.title].join(
+						' > ',
+					)
+				: (assertion.fullName ?? ''),
+			message: (assertion.failureMessages ?? []).join('\n'),
+		}));
+	});
+}
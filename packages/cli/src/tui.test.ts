@@ -0,0 +1,242 @@
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { describe, expect, it, vi } from 'vitest';
+import type { SveltestClient } from './client';
+import type { SearchResponse } from './types';
+import {
+	enter_fullscreen,
+	fuzzy_score,
+	handle_key,
+	render_screen,
+	search_hit,
+	start_tui,
+	visible_items,
+	type PickerItem,
+	type PickerState,
+} from './tui';
+
+const catalog: PickerItem[] = [
+	{
+		kind: 'scenario',
+		name: 'button-variants',
+		title: 'button-variants',
+		description: 'Buttons',
+	},
+	{
+		kind: 'scenario',
+		name: 'form-validation',
+		title: 'form-validation',
+		description: 'Forms',
+	},
+	{
+		kind: 'topic',
+		name: 'ssr-testing',
+		title: 'SSR Testing',
+		description: 'Server-side rendering',
+	},
+];
+
+function state(overrides: Partial<PickerState> = {}): PickerState {
+	return {
+		query: '',
+		catalog,
+		hits: [],
+		selected: 0,
+		status: '',
+		...overrides,
+	};
+}
+
+describe('fuzzy_score', () => {
+	it('matches characters in order only', () => {
+		expect(fuzzy_score('bv', 'button-variants')).not.toBeNull();
+		expect(fuzzy_score('vb', 'button-variants')).toBeNull();
+	});
+
+	it('ranks word starts and runs above scattered matches', () => {
+		expect(fuzzy_score('form', 'form-validation')!).toBeGreaterThan(
+			fuzzy_score('form', 'fxoxrxm')!,
+		);
+		expect(fuzzy_score('ssr', 'ssr-testing')!).toBeGreaterThan(
+			fuzzy_score('ssr', 'misreads-rare')!,
+		);
+	});
+});
+
+describe('visible_items', () => {
+	it('shows the whole catalog for an empty query', () => {
+		expect(visible_items(state())).toEqual(catalog);
+	});
+
+	it('filters the catalog and appends unseen search hits', () => {
+		const items = visible_items(
+			state({
+				query: 'ssr',
+				hits: [
+					search_hit({
+						id: 'ssr-testing',
+						title: 'SSR Testing',
+						description: '',
+						url: '/docs/ssr-testing',
+						type: 'topic',
+						category: 'Docs',
+						excerpt: '',
+					}),
+					search_hit({
+						id: 'ssr-example',
+						title: 'SSR example',
+						description: 'Rendering on the server',
+						url: '/examples/unit',
+						type: 'example',
+						category: 'Examples',
+						excerpt: '',
+					}),
+				],
+			}),
+		);
+
+		expect(items.map((item) => `${item.kind}:${item.name}`)).toEqual([
+			'topic:ssr-testing',
+			'page:/examples/unit',
+		]);
+	});
+});
+
+describe('handle_key', () => {
+	it('types into the query and asks for a search', () => {
+		const result = handle_key(state({ selected: 2 }), 'f', {
+			name: 'f',
+		});
+
+		expect(result.action).toBe('search');
+		expect(result.state).toMatchObject({ query: 'f', selected: 0 });
+	});
+
+	it('keeps the selection within the list', () => {
+		expect(
+			handle_key(state(), undefined, { name: 'up' }).state.selected,
+		).toBe(0);
+		expect(
+			handle_key(state({ selected: 2 }), undefined, { name: 'down' })
+				.state.selected,
+		).toBe(2);
+	});
+
+	it('maps control keys to actions', () => {
+		expect(
+			handle_key(state(), 'y', { name: 'y', ctrl: true }).action,
+		).toBe('copy');
+		expect(
+			handle_key(state(), 'e', { name: 'e', ctrl: true }).action,
+		).toBe('copy_json');
+		expect(handle_key(state(), '\r', { name: 'return' }).action).toBe(
+			'print',
+		);
+		expect(
+			handle_key(state(), undefined, { name: 'escape' }).action,
+		).toBe('quit');
+	});
+});
+
+describe('render_screen', () => {
+	it('draws the query, list and preview side by side', () => {
+		const screen = render_screen(
+			state({ query: 'form', selected: 0 }),
+			['Form Validation'],
+			100,
+			10,
+		);
+		const lines = screen.split('\n');
+
+		expect(lines).toHaveLength(10);
+		expect(lines[0]).toContain('sveltest › form');
+		expect(lines[2]).toContain('\x1b[7m ex  form-validation');
+		expect(lines[2]).toContain('│\x1b[0m Form Validation');
+	});
+
+	it('stacks the preview under the list on narrow terminals', () => {
+		const lines = render_screen(state(), ['Preview'], 60, 12).split(
+			'\n',
+		);
+
+		expect(lines).toHaveLength(12);
+		expect(lines.some((line) => line.startsWith('Preview'))).toBe(
+			true,
+		);
+	});
+});
+
+function terminal() {
+	const set_raw_mode = vi.fn();
+	const write = vi.fn(() => true);
+	const stdin = Object.assign(new PassThrough(), {
+		setRawMode: set_raw_mode,
+	}) as unknown as typeof process.stdin;
+	const stdout = Object.assign(new EventEmitter(), {
+		write,
+		columns: 100,
+		rows: 20,
+	}) as unknown as typeof process.stdout;
+	return { stdin, stdout, set_raw_mode, write };
+}
+
+describe('enter_fullscreen', () => {
+	it('restores the terminal once, however often it is asked', () => {
+		const { stdin, stdout, set_raw_mode, write } = terminal();
+		const restore = enter_fullscreen(stdin, stdout);
+
+		expect(set_raw_mode).toHaveBeenLastCalledWith(true);
+		restore();
+		restore();
+
+		expect(set_raw_mode).toHaveBeenLastCalledWith(false);
+		expect(write).toHaveBeenCalledTimes(2);
+		expect(write).toHaveBeenLastCalledWith('\x1b[?25h\x1b[?1049l');
+	});
+
+	it('restores the terminal when the process exits or is interrupted', () => {
+		const exits = process.listenerCount('exit');
+		const interrupts = process.listenerCount('SIGINT');
+		const { stdin, stdout } = terminal();
+		const restore = enter_fullscreen(stdin, stdout);
+
+		expect(process.listenerCount('exit')).toBe(exits + 1);
+		expect(process.listenerCount('SIGINT')).toBe(interrupts + 1);
+		restore();
+		expect(process.listenerCount('exit')).toBe(exits);
+		expect(process.listenerCount('SIGINT')).toBe(interrupts);
+	});
+});
+
+describe('start_tui', () => {
+	it('draws nothing for a search that settles after quitting', async () => {
+		const { stdin, stdout, write } = terminal();
+		let settle: (response: SearchResponse) => void = () => {};
+		const search = vi.fn(
+			() =>
+				new Promise<SearchResponse>((resolve) => {
+					settle = resolve;
+				}),
+		);
+		const client = {
+			list_examples: async () => ({ scenarios: [] }),
+			list_docs: async () => ({ topics: [] }),
+			search,
+		} as unknown as SveltestClient;
+
+		const picker = start_tui(client, { stdin, stdout });
+		await vi.waitFor(() => expect(write).toHaveBeenCalled());
+		stdin.emit('keypress', 'm', { name: 'm' });
+		stdin.emit('keypress', 'o', { name: 'o' });
+		await vi.waitFor(() => expect(search).toHaveBeenCalledWith('mo'));
+		stdin.emit('keypress', undefined, { name: 'escape' });
+		await picker;
+
+		const writes = write.mock.calls.length;
+		settle({ query: 'mo', filter: 'all', results: [], total: 0 });
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		expect(write).toHaveBeenCalledTimes(writes);
+		expect(write).toHaveBeenLastCalledWith('\x1b[?25h\x1b[?1049l');
+	});
+});
@@ -0,0 +1,526 @@
+import { spawnSync } from 'node:child_process';
+import { emitKeypressEvents } from 'node:readline';
+import type { SveltestClient } from './client';
+import { scenario_name } from './examples';
+import { render_text } from './format';
+import { QueryError } from './search-query';
+import type { SearchResult } from './types';
+
+export interface PickerItem {
+	kind: 'scenario' | 'topic' | 'page';
+	// Scenario name, topic slug or site path for search hits
+	name: string;
+	title: string;
+	description: string;
+}
+
+export interface PickerState {
+	query: string;
+	// Scenarios and topics, filtered locally as the query changes
+	catalog: PickerItem[];
+	// Live /api/search results for the current query
+	hits: PickerItem[];
+	selected: number;
+	status: string;
+}
+
+export interface Key {
+	name?: string;
+	ctrl?: boolean;
+	meta?: boolean;
+}
+
+export type PickerAction =
+	| 'quit'
+	| 'print'
+	| 'copy'
+	| 'copy_json'
+	| 'search'
+	| 'move'
+	| null;
+
+const KIND_LABELS = { scenario: 'ex ', topic: 'doc', page: 'web' };
+
+const SEARCH_DELAY_MS = 200;
+
+/**
+ * Score `text` against a fuzzy `query`: every query character must
+ * appear in order. Consecutive runs and word starts score higher.
+ * Returns null when the query does not match.
+ */
+export function fuzzy_score(
+	query: string,
+	text: string,
+): number | null {
+	const needle = query.toLowerCase().replace(/\s+/g, '');
+	const haystack = text.toLowerCase();
+	let score = 0;
+	let position = 0;
+	let previous = -2;
+
+	for (const char of needle) {
+		const index = haystack.indexOf(char, position);
+		if (index === -1) return null;
+		score += 1;
+		if (index === previous + 1) score += 2;
+		if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) {
+			score += 3;
+		}
+		previous = index;
+		position = index + 1;
+	}
+	// Prefer shorter texts when the match is otherwise equal
+	return score - haystack.length / 100;
+}
+
+/**
+ * The list shown for the current query: catalog entries ranked by
+ * fuzzy score, followed by search hits that are not already listed.
+ */
+export function visible_items(state: PickerState): PickerItem[] {
+	if (!state.query.trim()) return state.catalog;
+
+	const ranked = state.catalog
+		.map((item) => ({
+			item,
+			score: fuzzy_score(state.query, `${item.name} ${item.title}`),
+		}))
+		.filter(
+			(entry): entry is { item: PickerItem; score: number } =>
+				entry.score !== null,
+		)
+		.sort((a, b) => b.score - a.score)
+		.map(({ item }) => item);
+
+	const listed = new Set(
+		ranked.map((item) => `${item.kind}:${item.name}`),
+	);
+	return [
+		...ranked,
+		...state.hits.filter(
+			(item) => !listed.has(`${item.kind}:${item.name}`),
+		),
+	];
+}
+
+export function search_hit(result: SearchResult): PickerItem {
+	const topic = result.url.match(/^\/docs\/([^/#?]+)$/);
+	return {
+		kind: topic ? 'topic' : 'page',
+		name: topic ? topic[1] : result.url,
+		title: result.title,
+		description: result.excerpt || result.description,
+	};
+}
+
+/**
+ * Apply a keypress to the picker. Returns the new state and what the
+ * caller should do next; typing returns `search` so the caller can
+ * refresh the live results.
+ */
+export function handle_key(
+	state: PickerState,
+	input: string | undefined,
+	key: Key,
+): { state: PickerState; action: PickerAction } {
+	const count = visible_items(state).length;
+	const move = (selected: number) => ({
+		state: {
+			...state,
+			selected: Math.max(0, Math.min(selected, count - 1)),
+		},
+		action: 'move' as const,
+	});
+
+	if (key.name === 'escape' || (key.ctrl && key.name === 'c')) {
+		return { state, action: 'quit' };
+	}
+	if (key.name === 'return') return { state, action: 'print' };
+	if (key.ctrl && key.name === 'y') return { state, action: 'copy' };
+	if (key.ctrl && key.name === 'e') {
+		return { state, action: 'copy_json' };
+	}
+	if (key.name === 'up' || (key.ctrl && key.name === 'p')) {
+		return move(state.selected - 1);
+	}
+	if (key.name === 'down' || (key.ctrl && key.name === 'n')) {
+		return move(state.selected + 1);
+	}
+	if (key.name === 'pageup') return move(state.selected - 10);
+	if (key.name === 'pagedown') return move(state.selected + 10);
+
+	let query = state.query;
+	if (key.name === 'backspace') {
+		query = query.slice(0, -1);
+	} else if (key.ctrl && key.name === 'u') {
+		query = '';
+	} else if (
+		input &&
+		!key.ctrl &&
+		!key.meta &&
+		/^[\x20-\x7e]$/.test(input)
+	) {
+		query += input;
+	} else {
+		return { state, action: null };
+	}
+	return {
+		state: { ...state, query, hits: [], selected: 0 },
+		action: 'search',
+	};
+}
+
+function fit(text: string, width: number): string {
+	const line = text.replace(/\t/g, '  ');
+	return line.length > width
+		? `${line.slice(0, Math.max(0, width - 1))}…`
+		: line.padEnd(width);
+}
+
+/**
+ * Draw the whole screen: search box, result list, preview pane and a
+ * key help line. The preview sits beside the list on wide terminals
+ * and below it on narrow ones.
+ */
+export function render_screen(
+	state: PickerState,
+	preview: string[],
+	columns: number,
+	rows: number,
+): string {
+	const items = visible_items(state);
+	const wide = columns >= 80;
+	const body_rows = Math.max(2, rows - 3);
+	const list_width = wide ? Math.floor(columns * 0.4) : columns;
+	const list_rows = wide ? body_rows : Math.ceil(body_rows / 2);
+	const offset = Math.max(0, state.selected - list_rows + 1);
+
+	const list: string[] = [];
+	for (let row = 0; row < list_rows; row++) {
+		const item = items[offset + row];
+		if (!item) {
+			list.push(fit(row === 0 ? '  No matches' : '', list_width));
+			continue;
+		}
+		const line = fit(
+			` ${KIND_LABELS[item.kind]} ${item.title || item.name}`,
+			list_width,
+		);
+		list.push(
+			offset + row === state.selected
+				? `\x1b[7m${line}\x1b[0m`
+				: line,
+		);
+	}
+
+	const lines = [
+		fit(`sveltest › ${state.query}`, columns),
+		'\x1b[2m' + '─'.repeat(columns) + '\x1b[0m',
+	];
+	if (wide) {
+		const preview_width = columns - list_width - 3;
+		for (let row = 0; row < body_rows; row++) {
+			lines.push(
+				`${list[row]} \x1b[2m│\x1b[0m ${fit(preview[row] ?? '', preview_width)}`,
+			);
+		}
+	} else {
+		lines.push(...list);
+		lines.push('\x1b[2m' + '─'.repeat(columns) + '\x1b[0m');
+		for (let row = 0; row < body_rows - list_rows - 1; row++) {
+			lines.push(fit(preview[row] ?? '', columns));
+		}
+	}
+	lines.push(
+		`\x1b[2m${fit(
+			`↑↓ move  enter print  ^y copy  ^e copy JSON  esc quit  ${state.status}`,
+			columns,
+		)}\x1b[0m`,
+	);
+	return lines.join('\n');
+}
+
+/**
+ * Put text on the system clipboard with the platform's copy command,
+ * falling back to the OSC 52 escape that most terminals (and tmux)
+ * accept, including over SSH.
+ */
+export function copy_to_clipboard(text: string): string {
+	const commands: [string, string[]][] =
+		process.platform === 'darwin'
+			? [['pbcopy', []]]
+			: process.platform === 'win32'
+				? [['clip', []]]
+				: [
+						['wl-copy', []],
+						['xclip', ['-selection', 'clipboard']],
+						['xsel', ['--clipboard', '--input']],
+					];
+	for (const [command, args] of commands) {
+		// xclip and wl-copy stay behind to serve the selection, so
+		// their output must not be piped back or spawnSync waits on it
+		const result = spawnSync(command, args, {
+			input: text,
+			stdio: ['pipe', 'ignore', 'ignore'],
+			timeout: 2000,
+		});
+		if (!result.error && result.status === 0) return 'Copied';
+	}
+	process.stdout.write(
+		`\x1b]52;c;${Buffer.from(text).toString('base64')}\x07`,
+	);
+	return 'Copied (via terminal)';
+}
+
+async function load_catalog(
+	client: SveltestClient,
+): Promise<PickerItem[]> {
+	const [examples, docs] = await Promise.all([
+		client.list_examples(),
+		client.list_docs(),
+	]);
+	return [
+		...examples.scenarios.map((scenario) => ({
+			kind: 'scenario' as const,
+			name: scenario_name(scenario),
+			title: scenario_name(scenario),
+			description: scenario.description,
+		})),
+		...docs.topics.map((topic) => ({
+			kind: 'topic' as const,
+			name: topic.slug,
+			title: topic.title,
+			description: topic.description,
+		})),
+	];
+}
+
+interface Content {
+	text: string;
+	json: unknown;
+}
+
+async function load_content(
+	client: SveltestClient,
+	item: PickerItem,
+): Promise<Content> {
+	if (item.kind === 'scenario') {
+		const example = await client.get_example(item.name, {
+			compact: true,
+		});
+		return { text: render_text(example), json: example };
+	}
+	if (item.kind === 'topic') {
+		const doc = await client.get_doc(item.name, { format: 'json' });
+		return { text: doc.content, json: doc };
+	}
+	const url = `${client.site_base}${item.name}`;
+	return {
+		text: `${item.title}\n\n${item.description}\n\n${url}`,
+		json: { ...item, url },
+	};
+}
+
+/**
+ * Switch the terminal to raw input on the alternate screen. Returns
+ * the function that switches it back, which is also run if the process
+ * exits or is interrupted first, so a crash never leaves the user's
+ * terminal without echo or a cursor. Restoring twice is harmless.
+ */
+export function enter_fullscreen(
+	stdin: typeof process.stdin,
+	stdout: Pick<typeof process.stdout, 'write'>,
+): () => void {
+	let active = true;
+	const restore = () => {
+		if (!active) return;
+		active = false;
+		process.off('exit', restore);
+		process.off('SIGINT', interrupt);
+		stdin.setRawMode(false);
+		stdin.pause();
+		stdout.write('\x1b[?25h\x1b[?1049l');
+	};
+	const interrupt = () => {
+		restore();
+		process.exit(130);
+	};
+
+	process.on('exit', restore);
+	process.on('SIGINT', interrupt);
+	stdout.write('\x1b[?1049h\x1b[?25l');
+	emitKeypressEvents(stdin);
+	stdin.setRawMode(true);
+	stdin.resume();
+	return restore;
+}
+
+/**
+ * Full-screen picker over scenarios and docs topics. Typing filters
+ * the list and queries /api/search; the selection's content shows in
+ * the preview pane. Resolves once the user quits, after printing the
+ * selection if they pressed enter. Searches and previews still loading
+ * when the user quits are ignored, so they never draw over the
+ * selection.
+ */
+export async function start_tui(
+	client: SveltestClient,
+	{
+		stdin,
+		stdout,
+	}: Pick<typeof process, 'stdin' | 'stdout'> = process,
+) {
+	let state: PickerState = {
+		query: '',
+		catalog: await load_catalog(client),
+		hits: [],
+		selected: 0,
+		status: '',
+	};
+	const contents = new Map<string, Promise<Content>>();
+	const previews = new Map<string, string[]>();
+	let search_timer: ReturnType<typeof setTimeout> | undefined;
+	let closed = false;
+
+	const current = () => visible_items(state)[state.selected];
+	const key_of = (item: PickerItem) => `${item.kind}:${item.name}`;
+
+	const content_of = (item: PickerItem) => {
+		const key = key_of(item);
+		let content = contents.get(key);
+		if (!content) {
+			content = load_content(client, item);
+			contents.set(key, content);
+			content.then(
+				(loaded) => {
+					if (closed) return;
+					previews.set(key, loaded.text.split('\n'));
+					draw();
+				},
+				(error: Error) => {
+					if (closed) return;
+					contents.delete(key);
+					previews.set(key, [`Could not load: ${error.message}`]);
+					draw();
+				},
+			);
+		}
+		return content;
+	};
+
+	const draw = () => {
+		if (closed) return;
+		const item = current();
+		if (item) void content_of(item).catch(() => {});
+		const preview = item
+			? (previews.get(key_of(item)) ?? ['Loading…'])
+			: [];
+		stdout.write(
+			`\x1b[H\x1b[2J${render_screen(state, preview, stdout.columns, stdout.rows)}`,
+		);
+	};
+
+	const search = (query: string) => {
+		clearTimeout(search_timer);
+		if (query.trim().length < 2) return;
+		search_timer = setTimeout(() => {
+			client.search(query).then(
+				(response) => {
+					// Drop responses for queries the user has typed past
+					if (closed || state.query !== query) return;
+					state = {
+						...state,
+						hits: response.results.map(search_hit),
+					};
+					draw();
+				},
+				(error: unknown) => {
+					if (closed) return;
+					// Half-typed syntax, like an open quote, says what is missing
+					const status =
+						error instanceof QueryError
+							? error.message
+							: 'search unavailable';
+					state = { ...state, status };
+					draw();
+				},
+			);
+		}, SEARCH_DELAY_MS);
+	};
+
+	const restore = enter_fullscreen(stdin, stdout);
+	let printed: string | null;
+	try {
+		printed = await new Promise<string | null>((done, fail) => {
+			let selection: string | null = null;
+			const stop = () => {
+				stdin.off('keypress', on_key);
+				stdout.off('resize', on_resize);
+			};
+			// A failure while drawing ends the picker instead of leaving it
+			// half-drawn, and is reported after the terminal is restored
+			const guarded =
+				<T extends unknown[]>(handler: (...args: T) => void) =>
+				(...args: T) => {
+					try {
+						handler(...args);
+					} catch (error) {
+						stop();
+						fail(error);
+					}
+				};
+			const on_resize = guarded(draw);
+			const on_key = guarded(
+				(input: string | undefined, key: Key = {}) => {
+					const result = handle_key(state, input, key);
+					state = { ...result.state, status: '' };
+					const item = current();
+
+					if (result.action === 'quit') {
+						stop();
+						done(selection);
+						return;
+					}
+					if (result.action === 'search') search(state.query);
+					if (
+						item &&
+						(result.action === 'print' ||
+							result.action === 'copy' ||
+							result.action === 'copy_json')
+					) {
+						const { action } = result;
+						content_of(item).then(
+							(content) => {
+								if (closed) return;
+								if (action === 'print') {
+									selection = content.text;
+									on_key(undefined, { name: 'escape' });
+									return;
+								}
+								state = {
+									...state,
+									status: copy_to_clipboard(
+										action === 'copy'
+											? content.text
+											: JSON.stringify(content.json),
+									),
+								};
+								draw();
+							},
+							() => {},
+						);
+					}
+					draw();
+				},
+			);
+			stdin.on('keypress', on_key);
+			stdout.on('resize', on_resize);
+			on_resize();
+		});
+	} finally {
+		closed = true;
+		clearTimeout(search_timer);
+		restore();
+	}
+	if (printed !== null) stdout.write(`${printed}\n`);
+}
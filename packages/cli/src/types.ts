@@ -0,0 +1,82 @@
+export interface RelatedLink {
+	kind: 'scenario' | 'topic';
+	slug: string;
+	// Why the two are worth reading together
+	reason: string;
+}
+
+export interface ScenarioMeta {
+	endpoint: string;
+	method: string;
+	category: string;
+	description: string;
+	patterns: string[];
+	example_test_file: string;
+	// Missing from servers that predate the related graph
+	related?: RelatedLink[];
+}
+
+export interface ExamplesResponse {
+	title: string;
+	description: string;
+	total_scenarios: number;
+	categories: string[];
+	scenarios: ScenarioMeta[];
+}
+
+// UTF-16 offsets into a field, end exclusive
+export interface MatchRange {
+	start: number;
+	end: number;
+}
+
+export interface SearchHighlights {
+	title: MatchRange[];
+	description: MatchRange[];
+	excerpt: MatchRange[];
+}
+
+export interface SearchResult {
+	id: string;
+	title: string;
+	description: string;
+	url: string;
+	type: string;
+	category: string;
+	excerpt: string;
+	// Topic and parent headings, for docs sections
+	breadcrumb?: string[];
+	// Missing from servers older than match highlighting
+	highlights?: SearchHighlights;
+}
+
+export interface SearchResponse {
+	query: string;
+	filter: string;
+	results: SearchResult[];
+	total: number;
+}
+
+export interface DocsTopicMeta {
+	slug: string;
+	title: string;
+	description: string;
+	category: string;
+	has_content: boolean;
+}
+
+export interface DocsIndexResponse {
+	title: string;
+	description: string;
+	total_topics: number;
+	categories: string[];
+	topics: DocsTopicMeta[];
+}
+
+export interface DocResponse {
+	slug: string;
+	title: string;
+	description: string;
+	category: string;
+	content: string;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	check_api_version,
+	compare_versions,
+	run_self_check,
+	SUPPORTED_API_VERSION,
+} from './version';
+
+describe('check_api_version', () => {
+	it('accepts versions up to the supported one', () => {
+		expect(check_api_version(null, 'u')).toBeNull();
+		expect(check_api_version('abc', 'u')).toBeNull();
+		expect(check_api_version(`${SUPPORTED_API_VERSION}`, 'u')).toBe(
+			SUPPORTED_API_VERSION,
+		);
+	});
+
+	it('refuses a newer API', () => {
+		expect(() =>
+			check_api_version(`${SUPPORTED_API_VERSION + 1}`, 'u'),
+		).toThrow('npm install -g sveltest@latest');
+	});
+});
+
+describe('compare_versions', () => {
+	it('compares numerically, ignoring pre-release tags', () => {
+		expect(compare_versions('0.0.10', '0.0.9')).toBe(1);
+		expect(compare_versions('1.2.0', 'v1.10.0')).toBe(-1);
+		expect(compare_versions('1.0.0-next.1', '1.0.0')).toBe(0);
+	});
+});
+
+describe('run_self_check', () => {
+	function registry(
+		version: string,
+		api_version: string | null,
+	): typeof fetch {
+		return vi.fn<typeof fetch>(async (input) =>
+			(input as string).startsWith('https://registry')
+				? Response.json({ version })
+				: new Response('{}', {
+						headers: api_version
+							? { 'X-Sveltest-Api-Version': api_version }
+							: {},
+					}),
+		);
+	}
+
+	const options = {
+		cli_version: '0.0.4',
+		api_base: 'https://sveltest.dev/api',
+		registry_url: 'https://registry.npmjs.org/sveltest/latest',
+	};
+
+	it('passes when up to date with a supported API', async () => {
+		const findings = await run_self_check({
+			...options,
+			fetch: registry('0.0.4', '1'),
+		});
+
+		expect(findings.map((finding) => finding.status)).toEqual([
+			'pass',
+			'pass',
+		]);
+	});
+
+	it('warns about a newer release and fails on a newer API', async () => {
+		const findings = await run_self_check({
+			...options,
+			fetch: registry('0.1.0', '2'),
+		});
+
+		expect(findings).toEqual([
+			{
+				status: 'warn',
+				message: expect.stringContaining('behind the latest 0.1.0'),
+			},
+			{
+				status: 'fail',
+				message: expect.stringContaining('serves API version 2'),
+			},
+		]);
+	});
+
+	it('warns when the host reports no API version', async () => {
+		const [, api] = await run_self_check({
+			...options,
+			fetch: registry('0.0.4', null),
+		});
+
+		expect(api).toMatchObject({
+			status: 'warn',
+			message: expect.stringContaining('does not report'),
+		});
+	});
+});
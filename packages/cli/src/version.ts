@@ -0,0 +1,168 @@
+import type { Finding } from './doctor';
+import { SveltestError } from './errors';
+
+export const API_VERSION_HEADER = 'X-Sveltest-Api-Version';
+export const CLIENT_VERSION_HEADER = 'X-Sveltest-Client-Version';
+
+// The newest /api response shape this CLI can read. The site bumps its
+// version only for breaking changes; added fields keep the number
+export const SUPPORTED_API_VERSION = 1;
+
+export const DEFAULT_REGISTRY_URL =
+	'https://registry.npmjs.org/sveltest/latest';
+
+const SELF_CHECK_TIMEOUT_MS = 10000;
+
+/**
+ * Read the API version a response announces and refuse one newer than
+ * this CLI supports. Returns the version, or null when the server
+ * sends none (older deploys, plain file mirrors).
+ */
+export function check_api_version(
+	header: string | null,
+	url: string,
+): number | null {
+	const version = header ? Number(header) : NaN;
+	if (!Number.isInteger(version)) return null;
+	if (version > SUPPORTED_API_VERSION) {
+		throw new SveltestError(
+			'incompatible',
+			`${url} serves API version ${version}, but this CLI only supports up to ${SUPPORTED_API_VERSION}. Update with \`npm install -g sveltest@latest\`.`,
+		);
+	}
+	return version;
+}
+
+export function older_api_warning(
+	source: string,
+	version: number,
+): string {
+	return `${source} serves API version ${version}, older than the ${SUPPORTED_API_VERSION} this CLI reads; some fields may be missing`;
+}
+
+// Numeric major.minor.patch comparison; pre-release tags are ignored
+export function compare_versions(a: string, b: string): number {
+	const parts = (version: string) =>
+		version
+			.replace(/^v/, '')
+			.split(/[-+]/)[0]
+			.split('.')
+			.map((part) => Number(part) || 0);
+	const left = parts(a);
+	const right = parts(b);
+	for (let index = 0; index < 3; index++) {
+		const diff = (left[index] ?? 0) - (right[index] ?? 0);
+		if (diff !== 0) return Math.sign(diff);
+	}
+	return 0;
+}
+
+export interface SelfCheckOptions {
+	cli_version: string;
+	api_base: string;
+	registry_url: string;
+	fetch?: typeof fetch;
+}
+
+async function request(
+	fetch_fn: typeof fetch,
+	url: string,
+	cli_version: string,
+): Promise<Response> {
+	const response = await fetch_fn(url, {
+		headers: { [CLIENT_VERSION_HEADER]: cli_version },
+		signal: AbortSignal.timeout(SELF_CHECK_TIMEOUT_MS),
+	});
+	if (!response.ok) throw new Error(`HTTP ${response.status}`);
+	return response;
+}
+
+async function check_registry(
+	options: SelfCheckOptions,
+	fetch_fn: typeof fetch,
+): Promise<Finding> {
+	let latest: unknown;
+	try {
+		const response = await request(
+			fetch_fn,
+			options.registry_url,
+			options.cli_version,
+		);
+		latest = ((await response.json()) as { version?: unknown })
+			.version;
+	} catch (error) {
+		return {
+			status: 'warn',
+			message: `Could not read the latest version from ${options.registry_url}: ${(error as Error).message}`,
+		};
+	}
+	if (typeof latest !== 'string') {
+		return {
+			status: 'warn',
+			message: `${options.registry_url} did not return a version`,
+		};
+	}
+	return compare_versions(options.cli_version, latest) < 0
+		? {
+				status: 'warn',
+				message: `sveltest ${options.cli_version} is behind the latest ${latest}; update with \`npm install -g sveltest@latest\``,
+			}
+		: {
+				status: 'pass',
+				message: `sveltest ${options.cli_version} is up to date (latest ${latest})`,
+			};
+}
+
+async function check_api(
+	options: SelfCheckOptions,
+	fetch_fn: typeof fetch,
+): Promise<Finding> {
+	const url = `${options.api_base}/examples`;
+	let header: string | null;
+	try {
+		header = (
+			await request(fetch_fn, url, options.cli_version)
+		).headers.get(API_VERSION_HEADER);
+	} catch (error) {
+		return {
+			status: 'fail',
+			message: `Could not reach ${url}: ${(error as Error).message}`,
+		};
+	}
+	let version: number | null;
+	try {
+		version = check_api_version(header, url);
+	} catch (error) {
+		return { status: 'fail', message: (error as Error).message };
+	}
+	if (version === null) {
+		return {
+			status: 'warn',
+			message: `${options.api_base} does not report an API version, so changes to its responses cannot be detected`,
+		};
+	}
+	return version < SUPPORTED_API_VERSION
+		? {
+				status: 'warn',
+				message: older_api_warning(options.api_base, version),
+			}
+		: {
+				status: 'pass',
+				message: `${options.api_base} serves API version ${version}`,
+			};
+}
+
+/**
+ * Compare this CLI with the latest release in the registry and with
+ * the API version the configured host serves. Always goes to the
+ * network; the cache and any bundle are bypassed.
+ */
+export async function run_self_check(
+	options: SelfCheckOptions,
+): Promise<Finding[]> {
+	const fetch_fn = options.fetch ?? fetch;
+	return Promise.all([
+		check_registry(options, fetch_fn),
+		check_api(options, fetch_fn),
+	]);
+}